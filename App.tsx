@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { 
   Eye, 
   CreditCard, 
@@ -16,16 +16,30 @@ import {
   Store,
   Clock,
   AlertCircle,
-  Camera,
   Smartphone,
   RefreshCw,
-  X,
   UserCheck,
   Shield,
   ArrowRight,
   Server,
-  Database
+  Database,
+  RotateCcw
 } from 'lucide-react';
+import { serializeTemplate } from './irisTemplate.ts';
+import type { IrisTemplate } from './irisTemplate.ts';
+import { matchTemplates } from './irisMatcher.ts';
+import { fuseEnrollmentSamples, EnrollmentError, DEFAULT_ENROLLMENT_OPTIONS } from './enrollment.ts';
+import { otherEye, firstEyeFor, nextVerificationStep, policyForAmount } from './dualEye.ts';
+import type { EyeComparison, EyeSide } from './dualEye.ts';
+import type { LivenessVerdict } from './liveness.ts';
+import IrisCapture from './IrisCapture.tsx';
+import PaymentCodeScanner from './PaymentCodeScanner.tsx';
+import { parsePaymentCode, assertCodeMatchesRequest, verifyPaymentCodeSignature, encodePaymentCode, renderPaymentCode, PaymentCodeError } from './paymentCode.ts';
+import { useCaptureSession, useCaptureSnapshot, useCaptureEvents } from './useCaptureSession.ts';
+import { minorUnits, DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from './currencies.ts';
+import { type Money, compare, formatMoney, fromMajor, isPositive, parseMoney, subtract, sum, toDecimalString, zero } from './money.ts';
+import type { TemplateVersionCount } from './templateMigration.ts';
+import type { ApiErrorResponse, AuthResponse, DeclinePaymentRequest, IrisEnrollmentSummary, LoginRequest, MeResponse, FundWalletRequest, FundingOption, NewPaymentRequest, PaymentRequest, PaymentRequestListResponse, PaymentRequestResponse, PaymentRequestStatus, PaymentResponse, PayPaymentRequest, RefundRequest, RefundResponse, RegisterRequest, TemplateVersionReportResponse, Transaction, TransactionListResponse, TransactionStatus, VerifiedPaymentCodeResponse, VerifyPaymentCodeRequest, VerifyRequest, VerifyResponse, Wallet as WalletSummary, WalletResponse } from './apiTypes.ts';
 
 // --- TYPES ---
 
@@ -34,55 +48,39 @@ interface User {
   id: string;
   name: string;
   email: string;
-  irisHash: string;
+  /** Enrolled eyes, transform key id and template versions; the templates stay on the server. */
+  iris: IrisEnrollmentSummary;
   walletId: string;
   bankLinked: boolean;
   userType: 'client' | 'merchant';
   merchantName?: string;
 }
 
-/** Represents a processed transaction. */
-interface Transaction {
-  id: string;
-  amount: number;
-  currency: string;
-  status: 'pending' | 'completed' | 'failed';
-  timestamp: string;
-  merchantId?: string;
-  merchantName?: string;
-  clientId?: string;
-  clientName?: string;
-}
-
-/** Represents a payment request initiated by a merchant. */
-interface PaymentRequest {
-  id: string;
-  merchantId: string;
-  merchantName: string;
-  amount: number;
-  currency: string;
-  status: 'pending' | 'approved' | 'rejected';
-  timestamp: string;
-}
-
 // 1. Shared Props for both Dashboards
 interface SharedDashboardProps {
   user: User;
+  /** The account's wallet, with its balance in each currency derived by the server from its ledger entries. */
+  wallet: WalletSummary | null;
   transactions: Transaction[];
   requests: PaymentRequest[];
   onViewReceipt: (tx: Transaction, backPage: 'client-dashboard' | 'merchant-dashboard') => void;
+  onRevokeIrisKey: () => Promise<void>;
   setError: (msg: string | null) => void;
 }
 
 // 2. Client Dashboard Specific Props
 interface ClientDashboardProps extends SharedDashboardProps {
-  walletBalance: number;
+  onFundWallet: (currency: string) => Promise<void>;
   onNavigate: (page: Page) => void;
 }
 
 // 3. Merchant Dashboard Specific Props
 interface MerchantDashboardProps extends SharedDashboardProps {
-  onCreateRequest: (amount: number, currency: string) => Promise<void>;
+  /** Requests `amount` in the currency of the merchant's wallet. */
+  onCreateRequest: (amount: Money) => Promise<PaymentRequest>;
+  onCancelRequest: (id: string) => Promise<void>;
+  /** Refunds `amount` of `sale`, confirmed by the merchant's iris capture. */
+  onRefund: (sale: Transaction, amount: Money, probes: IrisTemplate[], eye: EyeSide, liveness: LivenessVerdict) => Promise<void>;
   onNavigate: (page: Page) => void;
 }
 
@@ -91,7 +89,8 @@ type Page = 'landing' | 'features' | 'workflow' | 'security' | 'scanner' | 'regi
 
 // 5. Registration/Login Props
 interface AuthPageProps {
-    onSuccess: (user: User) => void;
+    /** Called with the signed-in account and its API session token. */
+    onSuccess: (user: User, token: string) => void;
     onBack?: () => void;
     onNavigate: (page: Page) => void;
 }
@@ -99,212 +98,108 @@ interface AuthPageProps {
 // 6. Scanner Page Props
 interface ScannerPageProps {
     user: User | null;
-    onPaymentSuccess: (tx: Transaction) => void;
-    setError: (msg: string | null) => void;
+    /** API session token of `user`, for the server-side iris check and the payment. */
+    token: string | null;
+    onPaymentSuccess: (payment: PaymentResponse) => void;
     onNavigate: (page: Page) => void;
-    registeredUsers: Pick<User, 'id' | 'name' | 'userType' | 'merchantName'>[];
 }
 
 // 7. Receipt Page Props
 interface ReceiptPageProps {
     tx: Transaction;
+    /** The account's transactions, to link a payment and its refunds. */
+    transactions: Transaction[];
+    onView: (tx: Transaction) => void;
     onBack: () => void;
 }
 
-// --- MOCK API DATA & HELPERS ---
+// 8. Refund Dialog Props
+interface RefundDialogProps {
+    user: User;
+    sale: Transaction;
+    onRefund: (sale: Transaction, amount: Money, probes: IrisTemplate[], eye: EyeSide, liveness: LivenessVerdict) => Promise<void>;
+    onClose: () => void;
+}
 
-// Base URL is irrelevant in a mock, but good practice
-const API_BASE = 'http://localhost:5000/api'; 
+// --- API ---
+
+/** The backend API; override with `VITE_API_BASE`. */
+const API_BASE: string = import.meta.env.VITE_API_BASE || 'http://localhost:5000/api';
+const SESSION_STORAGE_KEY = 'irispay.session';
+/** Amount the "Fund Wallet" button moves from the linked bank, in major units of the chosen currency. */
+const WALLET_TOP_UP = 100;
+/** How often a merchant's dashboard checks whether outstanding requests have been paid. */
+const REQUEST_POLL_INTERVAL_MS = 5000;
+
+const REQUEST_STATUS_LABELS: Record<PaymentRequestStatus, string> = {
+    pending: 'Awaiting payment',
+    approved: 'Paid',
+    rejected: 'Declined',
+    cancelled: 'Cancelled',
+    expired: 'Expired',
+};
 
-const MOCK_USERS: User[] = [
-    { id: 'client-001', name: 'Alice Smith', email: 'alice@client.com', irisHash: 'hash-alice1234', walletId: 'w-001', bankLinked: true, userType: 'client' },
-    { id: 'client-002', name: 'Bob Johnson', email: 'bob@client.com', irisHash: 'hash-bob5678', walletId: 'w-002', bankLinked: true, userType: 'client' },
-    { id: 'merchant-001', name: 'Charlie Merchant', email: 'charlie@merchant.com', irisHash: 'hash-charlie9012', walletId: 'w-m01', bankLinked: true, userType: 'merchant', merchantName: 'Groovy Groceries' },
-];
+const REQUEST_STATUS_COLORS: Record<PaymentRequestStatus, string> = {
+    pending: 'text-yellow-700',
+    approved: 'text-green-700',
+    rejected: 'text-red-700',
+    cancelled: 'text-gray-600',
+    expired: 'text-gray-600',
+};
 
-let MOCK_TRANSACTIONS: Transaction[] = [
-    { id: 'tx-001', amount: 45.99, currency: 'USD', status: 'completed', timestamp: '2025-09-28T10:00:00Z', merchantName: 'Groovy Groceries', clientId: 'client-001' },
-    { id: 'tx-002', amount: 12.50, currency: 'USD', status: 'completed', timestamp: '2025-09-28T11:30:00Z', merchantName: 'Coffee Corner', clientId: 'client-001' },
-    { id: 'tx-003', amount: 88.00, currency: 'USD', status: 'completed', timestamp: '2025-09-27T15:45:00Z', merchantName: 'Groovy Groceries', clientId: 'client-002' },
-];
+const TRANSACTION_STATUS_LABELS: Record<TransactionStatus, string> = {
+    pending: 'Pending',
+    completed: 'Completed',
+    'partially-refunded': 'Partially refunded',
+    refunded: 'Refunded',
+    failed: 'Failed',
+};
 
-let MOCK_WALLET_BALANCE = 500.00; // Shared balance for mock purposes
+const TRANSACTION_STATUS_BADGES: Record<TransactionStatus, string> = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    completed: 'bg-green-100 text-green-800',
+    'partially-refunded': 'bg-purple-100 text-purple-800',
+    refunded: 'bg-gray-100 text-gray-700',
+    failed: 'bg-red-100 text-red-800',
+};
 
-// --- IRIS CAPTURE COMPONENT LOGIC (Bundled Inline) ---
+/** What is left to refund of a payment. */
+const refundableAmount = (sale: Transaction): Money => subtract(sale.amount, sale.refundedAmount ?? zero(sale.amount.currency));
 
-/** Generates a mock iris hash to simulate the biometric key generation. */
-const generateIrisHash = (name: string): Promise<string> => {
-    return new Promise((resolve) => {
-        // MOCK: Generate a simple hash string based on user name
-        const prefix = name.toLowerCase().replace(/\s/g, '');
-        const mockHash = `hash-${prefix}-${Date.now().toString().slice(-4)}`;
-        setTimeout(() => {
-            resolve(mockHash);
-        }, 1500); // Simulate processing time
-    });
-};
+/** A failed API call. `status` is the HTTP status, or 0 when the server could not be reached. */
+class ApiError extends Error {
+    readonly status: number;
 
-/** Attempts to initialize the webcam stream. Returns the stream, or a string code on failure. */
-const initWebcam = async (videoRef: React.RefObject<HTMLVideoElement>): Promise<MediaStream | 'PERMISSION_DENIED' | 'OTHER_ERROR' | null> => {
-    if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
-        try {
-            const stream = await navigator.mediaDevices.getUserMedia({ video: true });
-            if (videoRef.current) {
-                videoRef.current.srcObject = stream;
-                await videoRef.current.play();
-                return stream;
-            }
-            return null;
-        } catch (err) {
-            const error = err as Error;
-            if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError' || error.message.includes('denied')) {
-                return 'PERMISSION_DENIED';
-            }
-            return 'OTHER_ERROR';
-        }
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
     }
-    return null;
-};
-
-interface IrisCaptureProps {
-    onCapture: (hash: string) => void;
-    title: string;
-    subtitle: string;
-    status: 'idle' | 'capturing' | 'success' | 'error';
-    setStatus: (status: 'idle' | 'capturing' | 'success' | 'error') => void;
-    errorMessage: string | null; // For API errors passed from parent
-    userNameForHash: string; // Used for registration
 }
 
-const IrisCapture: React.FC<IrisCaptureProps> = ({ onCapture, title, subtitle, status, setStatus, errorMessage, userNameForHash }) => {
-    const videoRef = useRef<HTMLVideoElement>(null);
-    const streamRef = useRef<MediaStream | null>(null);
-    const [localErrorMessage, setLocalErrorMessage] = useState<string | null>(null);
-    const [isMockMode, setIsMockMode] = useState(false);
-
-    useEffect(() => {
-        initWebcam(videoRef).then(result => {
-            if (result === 'PERMISSION_DENIED' || result === 'OTHER_ERROR' || result === null) {
-                setIsMockMode(true);
-                setLocalErrorMessage("Camera access failed. Proceeding in **Mock Mode** (biometric hash will be simulated).");
-                setStatus('idle');
-            } else {
-                streamRef.current = result as MediaStream;
-                setStatus('idle');
-                setLocalErrorMessage(null);
-                setIsMockMode(false);
-            }
-        }).catch(e => {
-            setStatus('error');
-            setLocalErrorMessage("Critical initialization error.");
+/**
+ * Calls the backend and resolves with its JSON body. Rejects with an `ApiError` carrying the
+ * server's user-facing message, or a generic one when the server cannot be reached.
+ */
+const callApi = async <T,>(path: string, options: { method?: 'GET' | 'POST'; body?: unknown; token?: string | null } = {}): Promise<T> => {
+    const { method = 'GET', body, token } = options;
+    let response: Response;
+    try {
+        response = await fetch(`${API_BASE}${path}`, {
+            method,
+            headers: {
+                ...(body !== undefined && { 'Content-Type': 'application/json' }),
+                ...(token && { Authorization: `Bearer ${token}` }),
+            },
+            body: body !== undefined ? JSON.stringify(body) : undefined,
         });
-
-        return () => {
-            if (streamRef.current) {
-                streamRef.current.getTracks().forEach(track => track.stop());
-            }
-        };
-    }, [setStatus]);
-
-    const handleCaptureClick = async () => {
-        if (status === 'capturing') return;
-        
-        if (!isMockMode && !streamRef.current) {
-             setLocalErrorMessage("Webcam not active. Cannot capture.");
-             return;
-        }
-
-        setStatus('capturing');
-        setLocalErrorMessage(null); 
-        
-        try {
-            // Use the provided user name to create a semi-deterministic hash for mock auth
-            const hash = await generateIrisHash(userNameForHash); 
-            onCapture(hash);
-        } catch (e) {
-            setStatus('error');
-            setLocalErrorMessage("Internal mock hash generation failed.");
-        }
-    };
-
-    const statusMap = {
-        idle: { icon: <Camera className="w-10 h-10 text-gray-400" />, message: subtitle, color: 'text-gray-600' },
-        capturing: { icon: <Zap className="w-10 h-10 text-yellow-500 animate-pulse" />, message: 'Scanning and generating hash...', color: 'text-yellow-600' },
-        success: { icon: <CheckCircle className="w-10 h-10 text-green-500" />, message: 'Iris captured successfully!', color: 'text-green-600' },
-        error: { icon: <AlertCircle className="w-10 h-10 text-red-500" />, message: errorMessage || 'Error accessing camera or processing iris.', color: 'text-red-600' },
-    };
-
-    const currentStatus = statusMap[status];
-    const displayMessage = errorMessage || localErrorMessage || currentStatus.message;
-    const isDisabled = status === 'capturing' || (status === 'error' && !isMockMode);
-
-    return (
-        <div className="max-w-md w-full text-center p-6 bg-white rounded-xl shadow-2xl border-t-4 border-blue-500">
-            <h2 className="text-3xl font-bold text-gray-800 mb-2">{title}</h2>
-            
-            {/* Webcam Feed / Scanner Visual */}
-            <div className="h-64 bg-gray-900 rounded-lg flex items-center justify-center mb-6 overflow-hidden relative border-4 border-gray-700">
-                {/* Video element for live feed */}
-                <video ref={videoRef} autoPlay playsInline muted 
-                    className={`w-full h-full object-cover transform scale-x-[-1] transition-opacity duration-500 ${isMockMode ? 'opacity-20' : 'opacity-100'}`} 
-                    style={{ objectFit: 'cover' }}
-                />
-                {/* Mock Mode Overlay */}
-                {isMockMode && (
-                    <div className="absolute inset-0 bg-gray-900/90 text-white flex flex-col items-center justify-center p-4">
-                        <Smartphone className="w-12 h-12 mb-2 text-red-400" />
-                        <p className="font-semibold">Mock Mode Active</p>
-                        <p className="text-xs text-gray-300">Camera unavailable. Simulating scan.</p>
-                    </div>
-                )}
-                {/* Scanning Animation */}
-                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                    <div className={`w-3/4 h-3/4 border-4 rounded-full transition-all duration-300 
-                        ${status === 'capturing' ? 'border-yellow-500 animate-pulse border-dashed' : 'border-blue-500 opacity-50'}`}></div>
-                    <Eye className="absolute w-8 h-8 text-white opacity-90" />
-                </div>
-            </div>
-            
-            {/* Status Display */}
-            <div className="flex flex-col items-center justify-center mb-6 min-h-[4rem]">
-                {currentStatus.icon}
-                <p className={`mt-2 font-medium text-sm text-center ${currentStatus.color}`} 
-                    dangerouslySetInnerHTML={{ __html: displayMessage }}>
-                </p>
-            </div>
-
-            {/* Capture Button */}
-            <button 
-                onClick={handleCaptureClick}
-                className={`w-full text-white px-6 py-3 rounded-lg flex items-center justify-center shadow-lg transition duration-300 font-semibold mb-4
-                    ${isDisabled ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 active:bg-blue-800'}`
-                }
-                disabled={isDisabled}
-            >
-                {status === 'capturing' ? (
-                    <>
-                        <RefreshCw className="w-5 h-5 mr-2 animate-spin" /> Processing...
-                    </>
-                ) : (
-                    <>
-                        <Scan className="w-5 h-5 mr-2" /> Capture Iris {isMockMode && "(Mock)"}
-                    </>
-                )}
-            </button>
-
-            {/* Reset button if error state */}
-            {(status === 'error' || status === 'success') && (
-                <button 
-                    onClick={() => { setStatus('idle'); onCapture(''); }} // Resetting capture sends empty hash to parent
-                    className="w-full bg-gray-100 text-gray-700 px-6 py-3 rounded-lg flex items-center justify-center shadow-sm hover:bg-gray-200 transition text-sm"
-                >
-                    <X className="w-4 h-4 mr-2" /> Start Over
-                </button>
-            )}
-        </div>
-    );
+    } catch {
+        throw new ApiError(0, "Service unavailable. Please check your connection and try again.");
+    }
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) throw new ApiError(response.status, (payload as ApiErrorResponse | null)?.error || "Service unavailable. Please try again.");
+    return payload as T;
 };
-// --- END IRIS CAPTURE COMPONENT LOGIC ---
 
 // --- SUB-COMPONENTS ---
 
@@ -518,129 +413,216 @@ const WorkflowPage: React.FC = () => (
     </div>
 );
 
-const SecurityPage: React.FC = () => (
-    <div className="min-h-screen bg-gray-50 pt-24 px-4 pb-12">
-        <div className="max-w-5xl mx-auto">
-            <h2 className="text-5xl font-extrabold text-center text-gray-900 mb-12">The Power of Biometric Security</h2>
+interface SecurityPageProps {
+    /** API session token; the migration report is only shown to signed-in accounts. */
+    token: string | null;
+}
+
+const SecurityPage: React.FC<SecurityPageProps> = ({ token }) => {
+    // Progress of the migration to the current template version, across all accounts
+    const [versionReport, setVersionReport] = useState<TemplateVersionCount[] | null>(null);
+
+    useEffect(() => {
+        if (!token) return;
+        callApi<TemplateVersionReportResponse>('/auth/template-versions', { token })
+            .then(response => setVersionReport(response.versions))
+            .catch(() => setVersionReport([]));
+    }, [token]);
+
+    return (
+        <div className="min-h-screen bg-gray-50 pt-24 px-4 pb-12">
+            <div className="max-w-5xl mx-auto">
+                <h2 className="text-5xl font-extrabold text-center text-gray-900 mb-12">The Power of Biometric Security</h2>
             
-            <div className="grid md:grid-cols-2 gap-10">
+                <div className="grid md:grid-cols-2 gap-10">
                 
-                {/* Card 1: Iris Hashing */}
-                <div className="bg-white p-8 rounded-2xl shadow-xl border-t-4 border-purple-500">
-                    <div className="flex items-center mb-4">
-                        <Database className="w-8 h-8 text-purple-600 mr-3" />
-                        <h3 className="text-2xl font-bold text-gray-800">Irreversible Hashing</h3>
+                    {/* Card 1: Iris Hashing */}
+                    <div className="bg-white p-8 rounded-2xl shadow-xl border-t-4 border-purple-500">
+                        <div className="flex items-center mb-4">
+                            <Database className="w-8 h-8 text-purple-600 mr-3" />
+                            <h3 className="text-2xl font-bold text-gray-800">Cancelable Iris Templates</h3>
+                        </div>
+                        <p className="text-gray-600 mb-4">
+                            Your iris scan is reduced to an IrisCode on your device, and that code is scrambled with a secret, per-user **revocable key** before it is stored. Matching works on the scrambled form, and a leaked template can be cancelled and re-issued under a new key without a new scan.
+                        </p>
+                        <ul className="list-disc list-inside text-gray-700 ml-4 space-y-1">
+                            <li>No raw biometric data or raw IrisCode stored.</li>
+                            <li>Keys held apart from templates; revoke and re-issue any time.</li>
+                            <li>Eliminates centralized biometric honeypots.</li>
+                        </ul>
                     </div>
-                    <p className="text-gray-600 mb-4">
-                        Your biometric data (iris scan) is immediately converted into a cryptographic **one-way hash**. This means the original image cannot be recreated from the stored hash. We store a key, not your identity.
-                    </p>
-                    <ul className="list-disc list-inside text-gray-700 ml-4 space-y-1">
-                        <li>No raw biometric data stored.</li>
-                        <li>Non-reversible encryption algorithm.</li>
-                        <li>Eliminates centralized biometric honeypots.</li>
-                    </ul>
-                </div>
 
-                {/* Card 2: Fraud Prevention */}
-                <div className="bg-white p-8 rounded-2xl shadow-xl border-t-4 border-red-500">
-                    <div className="flex items-center mb-4">
-                        <Shield className="w-8 h-8 text-red-600 mr-3" />
-                        <h3 className="text-2xl font-bold text-gray-800">Zero Card Fraud Risk</h3>
+                    {/* Card 2: Fraud Prevention */}
+                    <div className="bg-white p-8 rounded-2xl shadow-xl border-t-4 border-red-500">
+                        <div className="flex items-center mb-4">
+                            <Shield className="w-8 h-8 text-red-600 mr-3" />
+                            <h3 className="text-2xl font-bold text-gray-800">Zero Card Fraud Risk</h3>
+                        </div>
+                        <p className="text-gray-600 mb-4">
+                            IrisPay bypasses traditional card infrastructure, making skimming, unauthorized card-present, and card-not-present fraud impossible. Your iris is always with you.
+                        </p>
+                        <ul className="list-disc list-inside text-gray-700 ml-4 space-y-1">
+                            <li>No PINS or plastic cards required.</li>
+                            <li>Verification is tied to the physical self.</li>
+                            <li>Real-time anti-spoofing: blink and pupil-reflex challenges.</li>
+                        </ul>
                     </div>
-                    <p className="text-gray-600 mb-4">
-                        IrisPay bypasses traditional card infrastructure, making skimming, unauthorized card-present, and card-not-present fraud impossible. Your iris is always with you.
-                    </p>
-                    <ul className="list-disc list-inside text-gray-700 ml-4 space-y-1">
-                        <li>No PINS or plastic cards required.</li>
-                        <li>Verification is tied to the physical self.</li>
-                        <li>Real-time anti-spoofing detection (Mock).</li>
-                    </ul>
-                </div>
 
-                {/* Card 3: Wallet Protection */}
-                <div className="bg-white p-8 rounded-2xl shadow-xl border-t-4 border-green-500">
-                    <div className="flex items-center mb-4">
-                        <Lock className="w-8 h-8 text-green-600 mr-3" />
-                        <h3 className="text-2xl font-bold text-gray-800">Wallet Lock & Audit</h3>
+                    {/* Card 3: Wallet Protection */}
+                    <div className="bg-white p-8 rounded-2xl shadow-xl border-t-4 border-green-500">
+                        <div className="flex items-center mb-4">
+                            <Lock className="w-8 h-8 text-green-600 mr-3" />
+                            <h3 className="text-2xl font-bold text-gray-800">Wallet Lock & Audit</h3>
+                        </div>
+                        <p className="text-gray-600 mb-4">
+                            Every transaction requires a unique, one-time biometric match. Comprehensive transaction logs are available immediately, providing full control and auditability over your funds.
+                        </p>
+                        <ul className="list-disc list-inside text-gray-700 ml-4 space-y-1">
+                            <li>Instant transaction visibility.</li>
+                            <li>Multi-factor options available for large sums.</li>
+                            <li>Automatic suspension on security breach attempts.</li>
+                        </ul>
+                    </div>
+
+                    {/* Card 4: Decentralized Control */}
+                    <div className="bg-white p-8 rounded-2xl shadow-xl border-t-4 border-blue-500">
+                        <div className="flex items-center mb-4">
+                            <Server className="w-8 h-8 text-blue-600 mr-3" />
+                            <h3 className="text-2xl font-bold text-gray-800">Encrypted Communication</h3>
+                        </div>
+                        <p className="text-gray-600 mb-4">
+                            All communication between the scanner, the mobile app, and our servers is secured using modern TLS and end-to-end encryption protocols.
+                        </p>
+                        <ul className="list-disc list-inside text-gray-700 ml-4 space-y-1">
+                            <li>AES-256 encryption standard.</li>
+                            <li>Regular third-party security audits.</li>
+                            <li>Privacy-by-Design implementation.</li>
+                        </ul>
                     </div>
-                    <p className="text-gray-600 mb-4">
-                        Every transaction requires a unique, one-time biometric match. Comprehensive transaction logs are available immediately, providing full control and auditability over your funds.
-                    </p>
-                    <ul className="list-disc list-inside text-gray-700 ml-4 space-y-1">
-                        <li>Instant transaction visibility.</li>
-                        <li>Multi-factor options available for large sums.</li>
-                        <li>Automatic suspension on security breach attempts.</li>
-                    </ul>
                 </div>
 
-                {/* Card 4: Decentralized Control */}
-                <div className="bg-white p-8 rounded-2xl shadow-xl border-t-4 border-blue-500">
+                {/* Template versions in use */}
+                <div className="bg-white p-8 rounded-2xl shadow-xl mt-10">
                     <div className="flex items-center mb-4">
-                        <Server className="w-8 h-8 text-blue-600 mr-3" />
-                        <h3 className="text-2xl font-bold text-gray-800">Encrypted Communication</h3>
+                        <RefreshCw className="w-8 h-8 text-purple-600 mr-3" />
+                        <h3 className="text-2xl font-bold text-gray-800">Template Versions</h3>
                     </div>
                     <p className="text-gray-600 mb-4">
-                        All communication between the scanner, the mobile app, and our servers is secured using modern TLS and end-to-end encryption protocols.
+                        Every stored template records the algorithm version that produced it. When the algorithm improves, each account is re-enrolled automatically at its next successful login.
                     </p>
-                    <ul className="list-disc list-inside text-gray-700 ml-4 space-y-1">
-                        <li>AES-256 encryption standard.</li>
-                        <li>Regular third-party security audits.</li>
-                        <li>Privacy-by-Design implementation.</li>
-                    </ul>
+                    <table className="w-full text-left text-sm">
+                        <thead>
+                            <tr className="text-gray-500 border-b">
+                                <th className="py-2">Version</th>
+                                <th className="py-2">Accounts</th>
+                                <th className="py-2">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {!token && (
+                                <tr><td colSpan={3} className="py-2 text-gray-500">Log in to see the report.</td></tr>
+                            )}
+                            {token && versionReport?.length === 0 && (
+                                <tr><td colSpan={3} className="py-2 text-gray-500">Report unavailable.</td></tr>
+                            )}
+                            {token && versionReport?.map(row => (
+                                <tr key={row.version} className="border-b last:border-0">
+                                    <td className="py-2 font-mono">v{row.version}</td>
+                                    <td className="py-2">{row.accounts}</td>
+                                    <td className="py-2 text-gray-600">
+                                        {row.current ? 'Current' : row.migratable ? 'Migrating at next login' : 'Retired: re-enrollment required'}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
                 </div>
             </div>
         </div>
-    </div>
-);
+    );
+};
 
 const RegistrationPage: React.FC<AuthPageProps> = ({ onSuccess, onNavigate }) => {
     const [name, setName] = useState('');
     const [email, setEmail] = useState('');
     const [userType, setUserType] = useState<'client' | 'merchant'>('client');
     const [merchantName, setMerchantName] = useState('');
-    const [irisHash, setIrisHash] = useState<string | null>(null);
-    const [status, setStatus] = useState<'idle' | 'capturing' | 'success' | 'error'>('idle');
+    const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+    const session = useCaptureSession();
+    const capture = useCaptureSnapshot(session);
     const [error, setError] = useState<string | null>(null);
+    // Both eyes are enrolled, left first: fused references of finished eyes, and the accepted
+    // captures of the eye in progress.
+    const [references, setReferences] = useState<Partial<Record<EyeSide, IrisTemplate>>>({});
+    const [samples, setSamples] = useState<IrisTemplate[]>([]);
+    const requiredSamples = DEFAULT_ENROLLMENT_OPTIONS.requiredSamples;
+    const currentEye: EyeSide = references.left ? 'right' : 'left';
+
+    useEffect(() => {
+        session.requestEye('left');
+    }, [session]);
+
+    const handleIrisCapture = useCallback(async (template: IrisTemplate) => {
+        const collected = [...samples, template];
+        if (collected.length < requiredSamples) {
+            setSamples(collected);
+            setError(null);
+            session.recapture(); // Ready for the next sample
+            return;
+        }
 
-    const handleIrisCapture = useCallback(async (hash: string) => {
-        setIrisHash(hash);
-        if (!hash) {
-            setStatus('idle');
+        // Check that the samples agree and build the reference template from them
+        let reference: IrisTemplate;
+        try {
+            reference = fuseEnrollmentSamples(collected).template;
+        } catch (e) {
+            session.reject(e instanceof EnrollmentError ? e.message : "Enrollment failed. Please try again.");
             return;
+        } finally {
+            setSamples([]);
         }
 
-        // MOCK: Check if hash already exists (simulated uniqueness check)
-        const isHashTaken = MOCK_USERS.some(u => u.irisHash === hash);
-        if (isHashTaken) {
-            setStatus('error');
-            setError("Iris key already registered. Please login.");
+        const other = references[otherEye(currentEye)];
+        if (other && matchTemplates(reference, other).accepted) {
+            session.reject(`That was your ${otherEye(currentEye)} eye again. Please present your ${currentEye} eye.`, false);
+            return;
+        }
+        const enrolled = { ...references, [currentEye]: reference };
+        if (!enrolled.right) {
+            setReferences(enrolled);
+            session.requestEye('right');
+            session.recapture();
             return;
         }
 
-        // MOCK: Simulate registration API call
-        setStatus('capturing');
+        // The server rejects an iris that is already enrolled on any account.
         try {
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            
-            const newUser: User = {
-                id: `client-${Date.now()}`,
+            const request: RegisterRequest = {
                 name,
                 email,
-                irisHash: hash,
-                walletId: `w-${Date.now()}`,
-                bankLinked: true,
                 userType,
                 ...(userType === 'merchant' && { merchantName }),
+                currency,
+                irisTemplates: { left: serializeTemplate(enrolled.left!), right: serializeTemplate(enrolled.right) },
             };
-            
-            MOCK_USERS.push(newUser);
-            setStatus('success');
-            onSuccess(newUser);
+            const { token, user } = await callApi<AuthResponse>('/auth/register', { method: 'POST', body: request });
+            session.verify();
+            onSuccess(user, token);
         } catch (e) {
-            setStatus('error');
-            setError("Registration failed. Please try again.");
+            session.reject(e instanceof Error ? e.message : "Registration failed. Please try again.", false);
+        }
+    }, [name, email, userType, merchantName, currency, onSuccess, samples, requiredSamples, references, currentEye, session]);
+
+    useCaptureEvents(session, event => {
+        if (event.type === 'captured') void handleIrisCapture(event.result.template);
+        else if (event.type === 'reset') {
+            setSamples([]);
+            setReferences({});
+            session.requestEye('left');
         }
-    }, [name, email, userType, merchantName, onSuccess]);
+    });
+
+    const isFormLocked = capture.state === 'capturing' || capture.state === 'processing' || capture.state === 'verified';
 
     const isFormValid = name.length > 2 && email.includes('@') && (userType === 'client' || (userType === 'merchant' && merchantName.length > 2));
 
@@ -648,13 +630,13 @@ const RegistrationPage: React.FC<AuthPageProps> = ({ onSuccess, onNavigate }) =>
         <div className="flex flex-col md:flex-row min-h-screen bg-gray-100 p-4 pt-24">
             <div className="w-full md:w-1/2 flex justify-center items-start pt-12 md:pt-24 order-2 md:order-1">
                 <IrisCapture
-                    onCapture={handleIrisCapture}
+                    session={session}
                     title="Iris Key Registration"
-                    subtitle="Look at the camera to generate your unique biometric key."
-                    status={status}
-                    setStatus={setStatus}
+                    subtitle={samples.length === 0
+                        ? `Look at the camera with your ${currentEye} eye to generate your biometric key. We'll take ${requiredSamples} scans of each eye.`
+                        : `${currentEye === 'left' ? 'Left' : 'Right'} eye: scan ${samples.length} of ${requiredSamples} captured. Look at the camera again for the next one.`}
                     errorMessage={error}
-                    userNameForHash={name || 'NewUser'}
+                    syntheticSeed={name || 'NewUser'}
                 />
             </div>
             <div className="w-full md:w-1/2 p-8 md:p-12 order-1 md:order-2">
@@ -687,7 +669,7 @@ const RegistrationPage: React.FC<AuthPageProps> = ({ onSuccess, onNavigate }) =>
                                 type="text" id="name" value={name} onChange={(e) => setName(e.target.value)}
                                 className="mt-1 block w-full border border-gray-300 rounded-lg shadow-sm p-3 focus:ring-blue-500 focus:border-blue-500"
                                 placeholder="John Doe"
-                                disabled={status === 'capturing' || status === 'success'}
+                                disabled={isFormLocked}
                             />
                         </div>
                         <div>
@@ -696,7 +678,7 @@ const RegistrationPage: React.FC<AuthPageProps> = ({ onSuccess, onNavigate }) =>
                                 type="email" id="email" value={email} onChange={(e) => setEmail(e.target.value)}
                                 className="mt-1 block w-full border border-gray-300 rounded-lg shadow-sm p-3 focus:ring-blue-500 focus:border-blue-500"
                                 placeholder="you@example.com"
-                                disabled={status === 'capturing' || status === 'success'}
+                                disabled={isFormLocked}
                             />
                         </div>
 
@@ -707,29 +689,40 @@ const RegistrationPage: React.FC<AuthPageProps> = ({ onSuccess, onNavigate }) =>
                                     type="text" id="merchantName" value={merchantName} onChange={(e) => setMerchantName(e.target.value)}
                                     className="mt-1 block w-full border border-gray-300 rounded-lg shadow-sm p-3 focus:ring-blue-500 focus:border-blue-500"
                                     placeholder="The Coffee Shop"
-                                    disabled={status === 'capturing' || status === 'success'}
+                                    disabled={isFormLocked}
                                 />
                             </div>
                         )}
+                        <div>
+                            <label htmlFor="currency" className="block text-sm font-medium text-gray-700">
+                                {userType === 'merchant' ? 'Currency You Charge In' : 'Wallet Currency'}
+                            </label>
+                            <select
+                                id="currency" value={currency} onChange={(e) => setCurrency(e.target.value)}
+                                className="mt-1 block w-full border border-gray-300 rounded-lg shadow-sm p-3 focus:ring-blue-500 focus:border-blue-500"
+                                disabled={isFormLocked}
+                            >
+                                {SUPPORTED_CURRENCIES.map(code => <option key={code}>{code}</option>)}
+                            </select>
+                        </div>
                     </div>
                     
                     <button 
                         onClick={() => {
                             if (!isFormValid) {
                                 setError("Please complete the form first.");
-                                setStatus('error');
                                 return;
                             }
                             // Form is ready, allows user to move to IrisCapture step (which is on the side)
-                            setStatus('idle'); 
+                            session.recapture();
                             setError(null);
                         }}
-                        disabled={!isFormValid || status === 'success'}
+                        disabled={!isFormValid || capture.state === 'verified'}
                         className={`mt-6 w-full py-3 rounded-lg font-semibold transition shadow-md
-                            ${isFormValid && status !== 'success' ? 'bg-green-600 text-white hover:bg-green-700' : 'bg-gray-300 text-gray-500 cursor-not-allowed'}`
+                            ${isFormValid && capture.state !== 'verified' ? 'bg-green-600 text-white hover:bg-green-700' : 'bg-gray-300 text-gray-500 cursor-not-allowed'}`
                         }
                     >
-                        {status === 'success' ? 'Registration Complete!' : 'Confirm Details & Start Scan'}
+                        {capture.state === 'verified' ? 'Registration Complete!' : 'Confirm Details & Start Scan'}
                     </button>
                     
                     <p className="mt-6 text-center text-sm text-gray-500">
@@ -745,47 +738,38 @@ const RegistrationPage: React.FC<AuthPageProps> = ({ onSuccess, onNavigate }) =>
 };
 
 const LoginPage: React.FC<AuthPageProps> = ({ onSuccess, onNavigate }) => {
-    const [irisHash, setIrisHash] = useState<string | null>(null);
-    const [status, setStatus] = useState<'idle' | 'capturing' | 'success' | 'error'>('idle');
-    const [error, setError] = useState<string | null>(null);
-
-    const handleIrisCapture = useCallback(async (hash: string) => {
-        setIrisHash(hash);
-        if (!hash) {
-            setStatus('idle');
-            return;
-        }
-
-        // MOCK: Simulate login API call
-        setStatus('capturing');
+    const session = useCaptureSession();
+
+    // Login accepts either eye: the server searches the capture against every enrolled eye of
+    // that side, or of both sides when the source cannot tell which eye it shows, and silently
+    // re-enrolls a matched eye stored under an older template version.
+    const handleIrisCapture = useCallback(async (probes: IrisTemplate[], eye: EyeSide | null, liveness: LivenessVerdict) => {
+        const request: LoginRequest = { probes: probes.map(serializeTemplate), eye, liveness };
+        let response: AuthResponse;
         try {
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            
-            const foundUser = MOCK_USERS.find(u => u.irisHash === hash);
-            
-            if (foundUser) {
-                setStatus('success');
-                onSuccess(foundUser);
-            } else {
-                setStatus('error');
-                setError("No matching biometric key found. Please register or try again.");
-            }
+            response = await callApi<AuthResponse>('/auth/login', { method: 'POST', body: request });
         } catch (e) {
-            setStatus('error');
-            setError("Login failed. Service unavailable.");
+            // Only a biometric mismatch counts towards the lockout, not an unreachable server.
+            const mismatch = e instanceof ApiError && e.status === 401;
+            session.reject(e instanceof Error ? e.message : "Login failed. Service unavailable.", mismatch);
+            return;
         }
-    }, [onSuccess]);
+        session.verify();
+        onSuccess(response.user, response.token);
+    }, [onSuccess, session]);
+
+    useCaptureEvents(session, event => {
+        if (event.type === 'captured') void handleIrisCapture(event.result.probes, event.eye, event.result.liveness);
+    });
 
     return (
         <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4 pt-24">
             <IrisCapture
-                onCapture={handleIrisCapture}
+                session={session}
                 title="Iris Key Login"
                 subtitle="Look at the camera to verify your identity and log in."
-                status={status}
-                setStatus={setStatus}
-                errorMessage={error}
-                userNameForHash={'LoginAttempt'}
+                errorMessage={null}
+                syntheticSeed={'LoginAttempt'}
             />
             <p className="absolute bottom-10 text-center text-sm text-gray-500">
                 Don't have an account? 
@@ -797,24 +781,83 @@ const LoginPage: React.FC<AuthPageProps> = ({ onSuccess, onNavigate }) => {
     );
 };
 
-const ClientDashboard: React.FC<ClientDashboardProps> = ({ user, walletBalance, transactions, requests, onViewReceipt, onNavigate, setError }) => {
-    
-    // MOCK: Simple function to simulate funding the wallet
+// Shared by both dashboards: shows which transform key protects the stored templates and lets
+// the user revoke it and re-issue both eyes' templates under a new one.
+const IrisKeyPanel: React.FC<{ user: User; onRevokeIrisKey: () => Promise<void>; setError: (msg: string | null) => void }> = ({ user, onRevokeIrisKey, setError }) => {
+    const [revoking, setRevoking] = useState(false);
+    const { eyes, keyId, versions, migrationPending } = user.iris;
+
+    const handleRevoke = useCallback(async () => {
+        setRevoking(true);
+        setError(null);
+        try {
+            await onRevokeIrisKey();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : "Could not re-issue your iris key.");
+        } finally {
+            setRevoking(false);
+        }
+    }, [onRevokeIrisKey, setError]);
+
+    return (
+        <div className="bg-white p-4 rounded-xl shadow mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-center">
+                <Shield className="w-5 h-5 text-purple-600 mr-3" />
+                <div>
+                    <p className="text-sm font-medium text-gray-800">Protected Iris Templates ({eyes.map(side => side === 'left' ? 'L' : 'R').join(' + ') || 'none'})</p>
+                    <p className="text-xs text-gray-500 font-mono">
+                        Key {keyId ?? 'revoked'} · template v{versions.join('/v') || '-'}
+                        {migrationPending && ' (updates at next login)'}
+                    </p>
+                </div>
+            </div>
+            <button
+                onClick={handleRevoke}
+                disabled={revoking}
+                className="text-sm font-semibold text-purple-700 border border-purple-300 rounded-lg px-4 py-2 flex items-center hover:bg-purple-50 transition disabled:opacity-50"
+            >
+                <RefreshCw className={`w-4 h-4 mr-2 ${revoking ? 'animate-spin' : ''}`} /> Revoke & Re-issue Iris Key
+            </button>
+        </div>
+    );
+};
+
+// Shared by both dashboards: the balance in the wallet's home currency, then any other currency held.
+const WalletBalances: React.FC<{ wallet: WalletSummary | null }> = ({ wallet }) => {
+    const [home, ...others] = wallet?.balances ?? [];
+    return (
+        <>
+            <p className="text-3xl font-extrabold text-gray-900 mt-1">{home ? formatMoney(home) : '-'}</p>
+            {others.length > 0 && (
+                <p className="text-sm font-medium text-gray-600 mt-1">{others.map(balance => formatMoney(balance)).join(' · ')}</p>
+            )}
+        </>
+    );
+};
+
+const ClientDashboard: React.FC<ClientDashboardProps> = ({ user, wallet, transactions, requests, onViewReceipt, onFundWallet, onRevokeIrisKey, onNavigate, setError }) => {
+    const [funding, setFunding] = useState(false);
+    // The balance to top up; the wallet's home currency until another is picked
+    const [chosenCurrency, setChosenCurrency] = useState<string | null>(null);
+    const fundCurrency = chosenCurrency ?? wallet?.currency ?? DEFAULT_CURRENCY;
+
     const handleFundWallet = useCallback(async () => {
         setError(null);
+        setFunding(true);
         try {
-            await new Promise(resolve => setTimeout(resolve, 500));
-            MOCK_WALLET_BALANCE += 100; // Mock addition
-            alert("Wallet funded with $100 (Mock)."); // Using alert as a placeholder for a non-modal feedback for mock
+            await onFundWallet(fundCurrency);
         } catch (e) {
-            setError("Funding failed (Mock API Error).");
+            setError(e instanceof Error ? e.message : "Funding failed. Please try again.");
+        } finally {
+            setFunding(false);
         }
-    }, [setError]);
+    }, [fundCurrency, onFundWallet, setError]);
 
     return (
         <div className="min-h-screen bg-gray-50 pt-24 px-4 pb-12">
             <div className="max-w-6xl mx-auto">
                 <h2 className="text-4xl font-bold text-gray-900 mb-6">Welcome back, {user.name}!</h2>
+                <IrisKeyPanel user={user} onRevokeIrisKey={onRevokeIrisKey} setError={setError} />
                 
                 {/* Metrics & Actions */}
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-10">
@@ -825,13 +868,25 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({ user, walletBalance,
                             <p className="text-sm font-medium text-gray-500">Wallet Balance</p>
                             <Wallet className="w-5 h-5 text-blue-500" />
                         </div>
-                        <p className="text-3xl font-extrabold text-gray-900 mt-1">${walletBalance.toFixed(2)}</p>
-                        <button 
-                            onClick={handleFundWallet}
-                            className="text-blue-500 text-sm font-semibold mt-3 flex items-center hover:text-blue-700 transition"
-                        >
-                            <CreditCard className="w-4 h-4 mr-1" /> Fund Wallet (Mock +$100)
-                        </button>
+                        <WalletBalances wallet={wallet} />
+                        <div className="flex items-center mt-3 space-x-2">
+                            <button 
+                                onClick={handleFundWallet}
+                                disabled={funding}
+                                className="text-blue-500 text-sm font-semibold flex items-center hover:text-blue-700 transition disabled:opacity-50"
+                            >
+                                <CreditCard className="w-4 h-4 mr-1" /> {funding ? 'Funding...' : `Fund Wallet (+${formatMoney(fromMajor(WALLET_TOP_UP, fundCurrency))})`}
+                            </button>
+                            <select
+                                value={fundCurrency}
+                                onChange={(e) => setChosenCurrency(e.target.value)}
+                                disabled={funding}
+                                className="text-sm border border-gray-300 rounded-lg p-1"
+                                aria-label="Currency to fund"
+                            >
+                                {SUPPORTED_CURRENCIES.map(code => <option key={code}>{code}</option>)}
+                            </select>
+                        </div>
                     </div>
 
                     {/* Quick Action: Scan to Pay */}
@@ -866,18 +921,22 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({ user, walletBalance,
                             {[...transactions].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()).map(tx => (
                                 <li key={tx.id} className="py-4 flex justify-between items-center hover:bg-gray-50 transition duration-150 rounded-lg px-2 cursor-pointer" onClick={() => onViewReceipt(tx, 'client-dashboard')}>
                                     <div className="flex items-center">
-                                        <div className="p-2 rounded-full bg-blue-100 mr-4">
-                                            <Store className="w-5 h-5 text-blue-600" />
+                                        <div className={`p-2 rounded-full mr-4 ${tx.refundOf ? 'bg-green-100' : 'bg-blue-100'}`}>
+                                            {tx.refundOf ? <RotateCcw className="w-5 h-5 text-green-600" /> : <Store className="w-5 h-5 text-blue-600" />}
                                         </div>
                                         <div>
-                                            <p className="text-lg font-medium text-gray-900">{tx.merchantName || 'Unknown Merchant'}</p>
+                                            <p className="text-lg font-medium text-gray-900">{tx.refundOf ? `Refund from ${tx.merchantName || 'Unknown Merchant'}` : tx.merchantName || 'Unknown Merchant'}</p>
                                             <p className="text-sm text-gray-500 flex items-center"><Clock className="w-3 h-3 mr-1" /> {new Date(tx.timestamp).toLocaleString()}</p>
                                         </div>
                                     </div>
                                     <div className="text-right">
-                                        <p className="text-xl font-semibold text-red-600">-${tx.amount.toFixed(2)}</p>
-                                        <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${tx.status === 'completed' ? 'bg-green-100 text-green-800' : tx.status === 'pending' ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'}`}>
-                                            {tx.status.charAt(0).toUpperCase() + tx.status.slice(1)}
+                                        {tx.refundOf
+                                            ? <p className="text-xl font-semibold text-green-600">+{formatMoney(tx.amount)}</p>
+                                            : <p className="text-xl font-semibold text-red-600">-{formatMoney(tx.amount)}</p>}
+                                        {tx.conversion && <p className="text-xs text-gray-500">paid {formatMoney(tx.conversion.from)}</p>}
+                                        {tx.refundedAmount ? <p className="text-xs text-gray-500">{formatMoney(tx.refundedAmount)} refunded</p> : null}
+                                        <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${TRANSACTION_STATUS_BADGES[tx.status]}`}>
+                                            {TRANSACTION_STATUS_LABELS[tx.status]}
                                         </span>
                                     </div>
                                 </li>
@@ -890,15 +949,108 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({ user, walletBalance,
     );
 };
 
-const MerchantDashboard: React.FC<MerchantDashboardProps> = ({ user, transactions, requests, onViewReceipt, onCreateRequest, onNavigate, setError }) => {
-    const [amount, setAmount] = useState<number | ''>('');
-    const [currency, setCurrency] = useState<string>('USD');
+// Refunds a sale in full or in part. The merchant confirms it with their own iris, which the
+// server checks against their enrolled eye before any money moves back to the client.
+const RefundDialog: React.FC<RefundDialogProps> = ({ user, sale, onRefund, onClose }) => {
+    const session = useCaptureSession();
+    const remaining = refundableAmount(sale);
+    // As typed; parsed into minor units of the sale's currency
+    const [amountText, setAmountText] = useState(toDecimalString(remaining));
+    const amount = parseMoney(amountText, sale.amount.currency);
+
+    useEffect(() => {
+        session.requestEye(firstEyeFor('fallback', user.iris.eyes));
+    }, [session, user]);
+
+    const handleIrisCapture = useCallback(async (probes: IrisTemplate[], eye: EyeSide | null, liveness: LivenessVerdict) => {
+        if (!amount || !isPositive(amount) || compare(amount, remaining) > 0) {
+            session.reject(`Enter a refund of up to ${formatMoney(remaining)}.`, false);
+            return;
+        }
+        if (!eye) {
+            session.reject("Could not tell which eye was captured. Please try again.", false);
+            return;
+        }
+        try {
+            await onRefund(sale, amount, probes, eye, liveness);
+        } catch (e) {
+            // Only an iris mismatch counts as a failed attempt, not a refused refund.
+            session.reject(e instanceof Error ? e.message : "The refund failed.", e instanceof ApiError && e.status === 403);
+            return;
+        }
+        session.verify();
+        onClose();
+    }, [amount, remaining, sale, onRefund, onClose, session]);
+
+    useCaptureEvents(session, event => {
+        if (event.type === 'captured') void handleIrisCapture(event.result.probes, event.eye, event.result.liveness);
+    });
+
+    return (
+        <div className="fixed inset-0 bg-gray-900 bg-opacity-75 z-50 overflow-y-auto p-4 pt-20">
+            <div className="max-w-xl mx-auto bg-white rounded-xl shadow-2xl p-6">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-2xl font-bold text-gray-800">Refund {sale.clientName || 'Anonymous Client'}</h3>
+                    <button onClick={onClose} className="text-sm text-gray-500 hover:underline">Close</button>
+                </div>
+                <p className="text-sm text-gray-500 mb-3">
+                    Sale of {formatMoney(sale.amount)} on {new Date(sale.timestamp).toLocaleString()}
+                    {sale.refundedAmount ? `, ${formatMoney(sale.refundedAmount)} already refunded` : ''}.
+                </p>
+                <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="refund-amount">Refund amount</label>
+                <input
+                    id="refund-amount"
+                    type="number"
+                    value={amountText}
+                    onChange={(e) => setAmountText(e.target.value)}
+                    min={1 / 10 ** minorUnits(sale.amount.currency)}
+                    max={toDecimalString(remaining)}
+                    step={1 / 10 ** minorUnits(sale.amount.currency)}
+                    className="w-full p-2 mb-4 rounded-lg border border-gray-300 text-gray-900 font-medium"
+                />
+                <IrisCapture
+                    session={session}
+                    title="Confirm Refund"
+                    subtitle={`Scan your iris to refund ${formatMoney(amount ?? zero(sale.amount.currency))} to the client.`}
+                    errorMessage={null}
+                    syntheticSeed={user.name}
+                />
+            </div>
+        </div>
+    );
+};
+
+const MerchantDashboard: React.FC<MerchantDashboardProps> = ({ user, wallet, transactions, requests, onViewReceipt, onCreateRequest, onCancelRequest, onRefund, onRevokeIrisKey, onNavigate, setError }) => {
+    // As typed; parsed into minor units of the wallet's currency, in which requests are priced
+    const [amountText, setAmountText] = useState('');
     const [loading, setLoading] = useState(false);
-    const [lastRequest, setLastRequest] = useState<PaymentRequest | null>(null);
+    const currency = wallet?.currency ?? DEFAULT_CURRENCY;
+    const amount = parseMoney(amountText, currency);
+    // Newest first; the latest one is shown with its code
+    const [lastRequest, ...olderRequests] = requests;
+    const [qrCodeImage, setQrCodeImage] = useState<string | null>(null);
+    const [qrCodeFailed, setQrCodeFailed] = useState(false);
+    const [refundingSale, setRefundingSale] = useState<Transaction | null>(null);
+
+    // The QR code clients scan, while the latest request can still be paid
+    useEffect(() => {
+        setQrCodeImage(null);
+        setQrCodeFailed(false);
+        if (lastRequest?.status !== 'pending') return;
+        let cancelled = false;
+        renderPaymentCode(lastRequest)
+            .then(image => { if (!cancelled) setQrCodeImage(image); })
+            .catch(() => {
+                if (cancelled) return;
+                setQrCodeFailed(true);
+                setError("The QR code could not be generated. Copy the payment code below for the client to paste into their scanner instead.");
+            });
+        return () => { cancelled = true; };
+    }, [lastRequest, setError]);
 
     const handleCreateRequest = useCallback(async () => {
-        if (!amount || amount <= 0) {
-            setError("Please enter a valid amount.");
+        if (!amount || !isPositive(amount)) {
+            setError(`Please enter a valid amount in ${currency}.`);
             return;
         }
 
@@ -906,50 +1058,55 @@ const MerchantDashboard: React.FC<MerchantDashboardProps> = ({ user, transaction
         setError(null);
 
         try {
-            await onCreateRequest(amount as number, currency);
-            // Mock the last request for display purposes
-            setLastRequest({
-                id: `req-${Date.now()}`,
-                merchantId: user.id,
-                merchantName: user.merchantName || 'Merchant',
-                amount: amount as number,
-                currency,
-                status: 'pending',
-                timestamp: new Date().toISOString(),
-            });
-            setAmount('');
+            await onCreateRequest(amount);
+            setAmountText('');
         } catch (e) {
-            setError("Failed to create payment request.");
+            setError(e instanceof Error ? e.message : "Failed to create payment request.");
         } finally {
             setLoading(false);
         }
-    }, [amount, currency, onCreateRequest, user.id, user.merchantName, setError]);
+    }, [amount, currency, onCreateRequest, setError]);
 
-    const completedTransactions = transactions.filter(t => t.status === 'completed');
-    const totalRevenue = completedTransactions.reduce((sum, tx) => sum + tx.amount, 0);
+    const handleCancelRequest = useCallback(async (id: string) => {
+        setError(null);
+        try {
+            await onCancelRequest(id);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : "Failed to cancel the payment request.");
+        }
+    }, [onCancelRequest, setError]);
+
+    // Payments received, whether or not they were later refunded, and the refunds made
+    const sales = transactions.filter(t => !t.refundOf && (t.status === 'completed' || t.status === 'partially-refunded' || t.status === 'refunded'));
+    const refunds = transactions.filter(t => t.refundOf);
+    const inCurrency = (txs: Transaction[]): Money[] => txs.map(tx => tx.amount).filter(amount => amount.currency === currency);
+    // Fees are not among the transactions, so the net figure is after refunds only.
+    const grossSales = sum(inCurrency(sales), currency);
+    const netOfRefunds = subtract(grossSales, sum(inCurrency(refunds), currency));
 
     return (
         <div className="min-h-screen bg-gray-50 pt-24 px-4 pb-12">
             <div className="max-w-6xl mx-auto">
                 <h2 className="text-4xl font-bold text-gray-900 mb-6">Welcome, {user.merchantName}!</h2>
+                <IrisKeyPanel user={user} onRevokeIrisKey={onRevokeIrisKey} setError={setError} />
                 
                 {/* Metrics & New Request */}
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-10">
                     
-                    {/* Revenue Metric */}
+                    {/* Wallet Balance & Revenue */}
                     <div className="bg-white p-6 rounded-xl shadow-lg border-l-4 border-green-500">
                         <div className="flex justify-between items-center">
-                            <p className="text-sm font-medium text-gray-500">Total Revenue (Mock)</p>
+                            <p className="text-sm font-medium text-gray-500">Wallet Balance</p>
                             <DollarSign className="w-5 h-5 text-green-500" />
                         </div>
-                        <p className="text-3xl font-extrabold text-gray-900 mt-1">${totalRevenue.toFixed(2)}</p>
-                        <p className="text-sm text-gray-500 mt-3">From {completedTransactions.length} transactions.</p>
+                        <WalletBalances wallet={wallet} />
+                        <p className="text-sm text-gray-500 mt-3">Sales of {formatMoney(grossSales)} from {sales.length} transactions; {formatMoney(netOfRefunds)} net of refunds, before fees.</p>
                     </div>
                     
                     {/* Request Metric */}
                     <div className="bg-white p-6 rounded-xl shadow-lg border-l-4 border-yellow-500">
                         <div className="flex justify-between items-center">
-                            <p className="text-sm font-medium text-gray-500">Pending Requests (Mock)</p>
+                            <p className="text-sm font-medium text-gray-500">Pending Requests</p>
                             <Clock className="w-5 h-5 text-yellow-500" />
                         </div>
                         <p className="text-3xl font-extrabold text-gray-900 mt-1">{requests.filter(r => r.status === 'pending').length}</p>
@@ -962,25 +1119,18 @@ const MerchantDashboard: React.FC<MerchantDashboardProps> = ({ user, transaction
                         <div className="flex space-x-2 mb-3">
                             <input 
                                 type="number" 
-                                value={amount}
-                                onChange={(e) => setAmount(parseFloat(e.target.value) || '')}
+                                value={amountText}
+                                onChange={(e) => setAmountText(e.target.value)}
                                 placeholder="Amount"
-                                min="0.01"
-                                step="0.01"
+                                min={1 / 10 ** minorUnits(currency)}
+                                step={1 / 10 ** minorUnits(currency)}
                                 className="w-full p-2 rounded-lg text-gray-900 font-medium"
                             />
-                            <select 
-                                value={currency}
-                                onChange={(e) => setCurrency(e.target.value)}
-                                className="p-2 rounded-lg text-gray-900 font-medium"
-                            >
-                                <option>USD</option>
-                                <option>EUR</option>
-                            </select>
+                            <span className="p-2 rounded-lg bg-blue-500 font-semibold">{currency}</span>
                         </div>
                         <button 
                             onClick={handleCreateRequest}
-                            disabled={loading || !amount || amount <= 0}
+                            disabled={loading || !amount || !isPositive(amount)}
                             className="w-full bg-white text-blue-600 font-bold py-2 rounded-lg hover:bg-blue-100 transition disabled:bg-gray-300 disabled:text-gray-500"
                         >
                             {loading ? <RefreshCw className="w-5 h-5 animate-spin mx-auto" /> : "Generate QR Code"}
@@ -995,39 +1145,86 @@ const MerchantDashboard: React.FC<MerchantDashboardProps> = ({ user, transaction
                         <h3 className="text-2xl font-bold text-gray-800 mb-4">Latest Request</h3>
                         {lastRequest ? (
                             <div className="border border-blue-200 p-4 rounded-lg bg-blue-50">
-                                <p className="text-4xl font-extrabold text-blue-700 mb-2">${lastRequest.amount.toFixed(2)}</p>
-                                <p className="text-gray-700 flex items-center mb-1"><Clock className="w-4 h-4 mr-2" /> Status: <span className="font-semibold ml-1 text-yellow-700">{lastRequest.status.toUpperCase()}</span></p>
-                                <p className="text-sm text-gray-500">ID: {lastRequest.id}</p>
-                                <div className="mt-4 bg-gray-900 p-6 rounded-lg text-white flex justify-center items-center">
-                                    <Scan className="w-12 h-12 text-green-400" />
-                                    <span className="ml-4 text-lg font-semibold">QR Code Mock Display</span>
-                                </div>
+                                <p className="text-4xl font-extrabold text-blue-700 mb-2">{formatMoney(lastRequest.amount)}</p>
+                                <p className="text-gray-700 flex items-center mb-1"><Clock className="w-4 h-4 mr-2" /> Status: <span className={`font-semibold ml-1 ${REQUEST_STATUS_COLORS[lastRequest.status]}`}>{REQUEST_STATUS_LABELS[lastRequest.status].toUpperCase()}</span></p>
+                                <p className="text-sm text-gray-500">ID: <span className="font-mono">{lastRequest.id}</span></p>
+                                {lastRequest.status === 'pending' && (
+                                    <>
+                                        <p className="text-sm text-gray-500">Expires at {new Date(lastRequest.expiresAt).toLocaleTimeString()}.</p>
+                                        <div className="mt-4 bg-white p-4 rounded-lg border border-gray-200 flex justify-center items-center min-h-[16rem]">
+                                            {qrCodeImage
+                                                ? <img src={qrCodeImage} alt={`QR code for payment request ${lastRequest.id}`} className="w-64 h-64" />
+                                                : qrCodeFailed
+                                                    ? <p className="font-mono text-xs text-gray-700 break-all select-all">{encodePaymentCode(lastRequest)}</p>
+                                                    : <Scan className="w-12 h-12 text-gray-300 animate-pulse" />}
+                                        </div>
+                                        <div className="flex justify-between mt-3">
+                                            <button
+                                                onClick={() => navigator.clipboard.writeText(encodePaymentCode(lastRequest)).catch(() => setError("The payment code could not be copied."))}
+                                                className="text-sm text-blue-600 hover:underline"
+                                            >
+                                                Copy Payment Code
+                                            </button>
+                                            <button onClick={() => handleCancelRequest(lastRequest.id)} className="text-sm text-red-600 hover:underline">Cancel Request</button>
+                                        </div>
+                                    </>
+                                )}
                             </div>
                         ) : (
                             <p className="text-gray-500 p-4 text-center">Generate a new payment request above.</p>
                         )}
+                        {olderRequests.length > 0 && (
+                            <ul className="divide-y divide-gray-100 mt-4">
+                                {olderRequests.slice(0, 5).map(request => (
+                                    <li key={request.id} className="py-2 flex justify-between items-center text-sm">
+                                        <span className="font-semibold text-gray-800">{formatMoney(request.amount)}</span>
+                                        <span className={REQUEST_STATUS_COLORS[request.status]}>{REQUEST_STATUS_LABELS[request.status]}</span>
+                                        {request.status === 'pending' ? (
+                                            <button onClick={() => handleCancelRequest(request.id)} className="text-red-600 hover:underline">Cancel</button>
+                                        ) : (
+                                            <span className="text-gray-400">{new Date(request.timestamp).toLocaleTimeString()}</span>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
                     </div>
 
                     {/* Transaction History */}
                     <div className="bg-white p-6 rounded-xl shadow-2xl">
                         <h3 className="text-2xl font-bold text-gray-800 mb-4">Recent Sales</h3>
-                        {completedTransactions.length === 0 ? (
+                        {sales.length === 0 ? (
                             <p className="text-gray-500 p-4 text-center">No sales completed yet.</p>
                         ) : (
                             <ul className="divide-y divide-gray-100">
-                                {[...completedTransactions].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()).slice(0, 5).map(tx => (
+                                {[...sales, ...refunds].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()).slice(0, 5).map(tx => (
                                     <li key={tx.id} className="py-3 flex justify-between items-center hover:bg-gray-50 transition duration-150 rounded-lg px-2 cursor-pointer" onClick={() => onViewReceipt(tx, 'merchant-dashboard')}>
                                         <div className="flex items-center">
-                                            <div className="p-1 rounded-full bg-green-100 mr-3">
-                                                <User className="w-4 h-4 text-green-600" />
+                                            <div className={`p-1 rounded-full mr-3 ${tx.refundOf ? 'bg-red-100' : 'bg-green-100'}`}>
+                                                {tx.refundOf ? <RotateCcw className="w-4 h-4 text-red-600" /> : <User className="w-4 h-4 text-green-600" />}
                                             </div>
                                             <div>
-                                                <p className="text-md font-medium text-gray-900">{tx.clientName || 'Anonymous Client'}</p>
+                                                <p className="text-md font-medium text-gray-900">{tx.refundOf ? `Refund to ${tx.clientName || 'Anonymous Client'}` : tx.clientName || 'Anonymous Client'}</p>
                                                 <p className="text-xs text-gray-500">{new Date(tx.timestamp).toLocaleTimeString()}</p>
                                             </div>
                                         </div>
                                         <div className="text-right">
-                                            <p className="text-lg font-semibold text-green-600">+${tx.amount.toFixed(2)}</p>
+                                            {tx.refundOf ? (
+                                                <p className="text-lg font-semibold text-red-600">-{formatMoney(tx.amount)}</p>
+                                            ) : (
+                                                <>
+                                                    <p className="text-lg font-semibold text-green-600">+{formatMoney(tx.amount)}</p>
+                                                    {tx.refundedAmount ? <p className="text-xs text-gray-500">{formatMoney(tx.refundedAmount)} refunded</p> : null}
+                                                    {isPositive(refundableAmount(tx)) && (
+                                                        <button
+                                                            onClick={(e) => { e.stopPropagation(); setError(null); setRefundingSale(tx); }}
+                                                            className="text-xs text-red-600 hover:underline"
+                                                        >
+                                                            Refund
+                                                        </button>
+                                                    )}
+                                                </>
+                                            )}
                                         </div>
                                     </li>
                                 ))}
@@ -1036,110 +1233,183 @@ const MerchantDashboard: React.FC<MerchantDashboardProps> = ({ user, transaction
                     </div>
                 </div>
             </div>
+            {refundingSale && (
+                <RefundDialog user={user} sale={refundingSale} onRefund={onRefund} onClose={() => setRefundingSale(null)} />
+            )}
         </div>
     );
 };
 
-const ScannerPage: React.FC<ScannerPageProps> = ({ user, onPaymentSuccess, setError, registeredUsers }) => {
-    const [irisHash, setIrisHash] = useState<string | null>(null);
-    const [status, setStatus] = useState<'idle' | 'capturing' | 'success' | 'error'>('idle');
-    const [merchantId, setMerchantId] = useState<string | null>(null);
-    const [amount, setAmount] = useState<number | null>(null);
-    const [merchantName, setMerchantName] = useState<string | null>(null);
+const ScannerPage: React.FC<ScannerPageProps> = ({ user, token, onPaymentSuccess }) => {
+    const session = useCaptureSession();
+    // The payment request being paid, opened from its code
+    const [paymentRequest, setPaymentRequest] = useState<PaymentRequest | null>(null);
+    // The scanned code it was opened from; the server checks it again when paying
+    const [paymentCode, setPaymentCode] = useState<string | null>(null);
+    // One key per payment of this request: retries and double taps reuse it, so the server charges once
+    const [idempotencyKey, setIdempotencyKey] = useState<string | null>(null);
+    // The client's balances that can pay it, as quoted by the server, and the one chosen
+    const [funding, setFunding] = useState<FundingOption[]>([]);
+    const [payFrom, setPayFrom] = useState<string | null>(null);
+    const [pastedCode, setPastedCode] = useState('');
+    const [opening, setOpening] = useState(false);
     const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    // Eyes compared so far in this verification attempt
+    const [comparisons, setComparisons] = useState<EyeComparison[]>([]);
+    // The capture behind the latest of them, sent with the payment when both eyes are needed
+    const [earlierCapture, setEarlierCapture] = useState<VerifyRequest | null>(null);
+    const amount = paymentRequest?.amount ?? null;
+    const policy = amount !== null ? policyForAmount(amount) : 'fallback';
+    const enrolled = useMemo(() => user?.iris.eyes ?? [], [user]);
+
+    /** Starts a fresh verification attempt with the first eye `policy` asks for. */
+    const restartVerification = useCallback((paymentAmount: Money | null) => {
+        setComparisons([]);
+        setEarlierCapture(null);
+        session.requestEye(firstEyeFor(paymentAmount !== null ? policyForAmount(paymentAmount) : 'fallback', user?.iris.eyes ?? []));
+    }, [session, user]);
+
+    /**
+     * Opens the payment request behind a scanned code. The server checks the code first; then
+     * the merchant's signature is checked here too, with the merchant's public key, and the code
+     * must describe the request exactly. Only then can the iris scan start.
+     */
+    const handleCodeScanned = useCallback(async (text: string) => {
+        setErrorMessage(null);
+        setOpening(true);
+        try {
+            const code = parsePaymentCode(text);
+            const body: VerifyPaymentCodeRequest = { code: text };
+            const { request, merchant, funding: options } = await callApi<VerifiedPaymentCodeResponse>('/payment-requests/verify', { method: 'POST', body, token });
+            if (merchant.id !== code.merchantId) throw new PaymentCodeError('forged', 'This payment code was not issued by this merchant. Do not pay it.');
+            await verifyPaymentCodeSignature(code, merchant.signingKey);
+            assertCodeMatchesRequest(code, request);
+            if (request.status !== 'pending') {
+                setErrorMessage(`This payment request can no longer be paid: ${REQUEST_STATUS_LABELS[request.status].toLowerCase()}.`);
+                return;
+            }
+            setPaymentRequest(request);
+            setPaymentCode(text);
+            setIdempotencyKey(crypto.randomUUID());
+            setFunding(options);
+            setPayFrom(options.find(option => option.sufficient)?.balance.currency ?? null);
+            setPastedCode('');
+            restartVerification(request.amount);
+            session.recapture(); // Ready for iris scan
+        } catch (e) {
+            setErrorMessage(e instanceof Error ? e.message : "Could not open the payment request.");
+        } finally {
+            setOpening(false);
+        }
+    }, [token, session, restartVerification]);
 
-    // MOCK: Simulate QR Code Scan (Sets the payment details)
-    const handleMockScan = useCallback((mockId: string) => {
+    const handleDecline = useCallback(async () => {
+        if (!paymentRequest) return;
         setErrorMessage(null);
-        // Find a mock merchant by ID
-        const merchant = registeredUsers.find(u => u.id === mockId && u.userType === 'merchant');
-        if (!merchant) {
-            setErrorMessage("Invalid QR code or merchant ID.");
-            setStatus('error');
-            return;
+        try {
+            const body: DeclinePaymentRequest = { code: paymentCode ?? '' };
+            await callApi<PaymentRequestResponse>(`/payment-requests/${paymentRequest.id}/decline`, { method: 'POST', body, token });
+            setPaymentRequest(null);
+            setErrorMessage("Payment request declined.");
+        } catch (e) {
+            setErrorMessage(e instanceof Error ? e.message : "Could not decline the payment request.");
         }
+    }, [paymentRequest, paymentCode, token]);
 
-        // Simulate random payment request from the merchant
-        const mockAmount = Math.floor(Math.random() * 90) + 10; // $10 to $100
-        setMerchantId(merchant.id);
-        setMerchantName(merchant.merchantName || 'Mock Merchant');
-        setAmount(mockAmount);
-        setStatus('idle'); // Ready for iris scan
-    }, [registeredUsers]);
-
-    // MOCK: Simulate Iris Scan Verification and Payment Execution
-    const handleIrisCapture = useCallback(async (hash: string) => {
-        setIrisHash(hash);
-        if (!hash) {
-            setStatus('idle'); // Reset
+    // Iris verification, then the payment itself on the server
+    const handleIrisCapture = useCallback(async (probes: IrisTemplate[], eye: EyeSide | null, liveness: LivenessVerdict) => {
+        if (!user) {
+            session.reject("User not logged in.", false);
             return;
         }
         
-        if (!user) {
-            setErrorMessage("User not logged in.");
-            setStatus('error');
+        if (!paymentRequest) {
+            session.reject("Payment details missing. Please scan QR first.", false);
             return;
         }
-        
-        if (!merchantId || amount === null) {
-            setErrorMessage("Payment details missing. Please scan QR first.");
-            setStatus('error');
+
+        const source = funding.find(option => option.balance.currency === payFrom);
+        if (!source) {
+            session.reject("Choose a balance to pay from.", false);
             return;
         }
 
-        if (user.irisHash !== hash) {
-            setErrorMessage("Iris verification failed. Hash mismatch.");
-            setStatus('error');
+        // The server compares the capture with the enrolled template of the same eye.
+        const capture: VerifyRequest = { probes: probes.map(serializeTemplate), eye: eye ?? enrolled[0] ?? 'left', liveness };
+        let comparison: EyeComparison;
+        try {
+            ({ comparison } = await callApi<VerifyResponse>('/auth/verify', { method: 'POST', body: capture, token }));
+        } catch (e) {
+            session.reject(e instanceof Error ? e.message : "Iris verification is unavailable. Please try again.", false);
+            return;
+        }
+        const attempt = [...comparisons, comparison];
+        const step = nextVerificationStep(policy, attempt, enrolled);
+        if (step.status === 'next-eye') {
+            setComparisons(attempt);
+            setEarlierCapture(capture);
+            setErrorMessage(step.reason);
+            session.requestEye(step.eye);
+            session.recapture();
+            return;
+        }
+        if (step.status === 'rejected') {
+            restartVerification(paymentRequest.amount);
+            session.reject(step.reason);
             return;
         }
         
         // Final verification check
-        setStatus('capturing');
         setErrorMessage(null);
+        setComparisons([]);
+        setEarlierCapture(null);
 
         try {
-            await new Promise(resolve => setTimeout(resolve, 1500)); // Processing time
-            
-            // MOCK: Perform transaction logic
-            if (MOCK_WALLET_BALANCE < amount) {
-                setStatus('error');
-                setErrorMessage(`Transaction failed: Insufficient funds. Balance: $${MOCK_WALLET_BALANCE.toFixed(2)}`);
-                return;
-            }
-
-            MOCK_WALLET_BALANCE -= amount; // Deduct funds
-            
-            const newTx: Transaction = {
-                id: `tx-${Date.now()}`,
-                amount,
-                currency: 'USD',
-                status: 'completed',
-                timestamp: new Date().toISOString(),
-                merchantId: merchantId,
-                merchantName: merchantName || 'Merchant',
-                clientId: user.id,
-                clientName: user.name,
+            const body: PayPaymentRequest = {
+                code: paymentCode ?? '',
+                idempotencyKey: idempotencyKey ?? crypto.randomUUID(),
+                // The server checks the iris again before paying, under the same policy.
+                ...capture,
+                ...(policy === 'both-eyes' && earlierCapture && earlierCapture.eye !== capture.eye && { otherEye: earlierCapture }),
+                payFrom: source.balance.currency,
+                // The rate the client was shown; the server refuses the payment if it no longer applies.
+                ...(source.conversion && { quotedRate: source.conversion.rate }),
             };
-
-            MOCK_TRANSACTIONS.push(newTx);
-            
-            setStatus('success');
-            onPaymentSuccess(newTx);
+            const response = await callApi<PaymentResponse>(`/payment-requests/${paymentRequest.id}/pay`, { method: 'POST', body, token });
+            session.verify();
+            onPaymentSuccess(response);
         } catch (e) {
-            setStatus('error');
-            setErrorMessage("Transaction failed due to an unknown error.");
-            setError("Transaction failed due to an unknown error.");
+            // An iris mismatch on the server counts as a failed attempt; a refused payment does not.
+            session.reject(e instanceof Error ? e.message : "Transaction failed due to an unknown error.", e instanceof ApiError && e.status === 403);
         }
-    }, [user, merchantId, amount, merchantName, onPaymentSuccess, setError]);
+    }, [user, token, paymentRequest, paymentCode, idempotencyKey, funding, payFrom, onPaymentSuccess, session, comparisons, earlierCapture, policy, enrolled, restartVerification]);
+
+    useCaptureEvents(session, event => {
+        if (event.type === 'captured') void handleIrisCapture(event.result.probes, event.eye, event.result.liveness);
+        else if (event.type === 'reset') restartVerification(amount);
+        else if (event.type === 'state' && event.from === 'capturing' && event.snapshot.state === 'rejected' && policy === 'fallback') {
+            // The requested eye could not be captured (occluded, closed, glare): ask for the other one.
+            const requested = event.snapshot.eye;
+            const other = requested && otherEye(requested);
+            if (other && enrolled.includes(other) && !comparisons.some(c => c.side === other)) {
+                setErrorMessage(`Present your ${other} eye instead.`);
+                session.requestEye(other);
+            }
+        }
+    });
     
     // Determine the step
-    const isScanned = merchantId !== null && amount !== null;
-    const scannerTitle = isScanned ? `Pay ${merchantName}` : 'Step 2: Scan Your Iris';
-    const scannerSubtitle = isScanned ? `Confirm payment of $${amount!.toFixed(2)}` : 'Scan QR code first.';
-    const captureDisabled = !isScanned;
-
-    // Mock QR Code buttons
-    const merchantMocks = registeredUsers.filter(u => u.userType === 'merchant');
+    const isScanned = paymentRequest !== null;
+    const scannerTitle = isScanned ? `Pay ${paymentRequest.merchantName}` : 'Step 2: Scan Your Iris';
+    const price = isScanned ? formatMoney(paymentRequest.amount) : '';
+    const scannerSubtitle = !isScanned
+        ? 'Scan QR code first.'
+        : !payFrom
+            ? 'None of your balances can pay this request.'
+            : policy === 'both-eyes'
+                ? `Confirm payment of ${price}. High-value payment: both eyes are verified.`
+                : `Confirm payment of ${price}`;
+    const captureDisabled = !isScanned || !payFrom;
 
     return (
         <div className="min-h-screen bg-gray-100 flex flex-col items-center p-4 pt-24">
@@ -1153,26 +1423,68 @@ const ScannerPage: React.FC<ScannerPageProps> = ({ user, onPaymentSuccess, setEr
                     
                     {!isScanned ? (
                         <>
-                            <p className="text-gray-600 mb-4">Select a mock merchant below to simulate scanning their payment QR code.</p>
-                            <div className="space-y-3">
-                                {merchantMocks.map(m => (
-                                    <button 
-                                        key={m.id}
-                                        onClick={() => handleMockScan(m.id)}
-                                        className="w-full bg-green-500 text-white py-3 rounded-lg font-semibold hover:bg-green-600 transition flex items-center justify-center shadow-md"
-                                    >
-                                        <Smartphone className="w-5 h-5 mr-2" /> Mock Scan: {m.merchantName}
-                                    </button>
-                                ))}
-                            </div>
+                            <p className="text-gray-600 mb-4">Scan the QR code shown by the merchant, or upload a photo of it.</p>
+                            <PaymentCodeScanner onScan={text => void handleCodeScanned(text)} disabled={opening} />
+                            <form
+                                className="flex space-x-2 mt-4"
+                                onSubmit={(e) => { e.preventDefault(); void handleCodeScanned(pastedCode); }}
+                            >
+                                <input
+                                    type="text"
+                                    value={pastedCode}
+                                    onChange={(e) => setPastedCode(e.target.value)}
+                                    placeholder="Or paste the payment code: irispay:pay?..."
+                                    className="flex-grow p-3 border border-gray-300 rounded-lg focus:ring-green-500 focus:border-green-500 font-mono text-sm"
+                                />
+                                <button 
+                                    type="submit"
+                                    disabled={opening || !pastedCode.trim()}
+                                    className="bg-gray-700 text-white px-4 rounded-lg font-semibold hover:bg-gray-800 transition flex items-center disabled:opacity-50"
+                                >
+                                    <Smartphone className="w-5 h-5 mr-2" /> {opening ? 'Opening...' : 'Open'}
+                                </button>
+                            </form>
                         </>
                     ) : (
                         <div className="text-center p-6 bg-green-50 rounded-lg border border-green-200">
                             <CheckCircle className="w-8 h-8 text-green-600 mx-auto mb-2" />
-                            <p className="text-2xl font-bold text-gray-900">{merchantName}</p>
-                            <p className="text-5xl font-extrabold text-green-700 my-3">${amount!.toFixed(2)}</p>
+                            <p className="text-2xl font-bold text-gray-900">{paymentRequest.merchantName}</p>
+                            <p className="text-5xl font-extrabold text-green-700 my-3">{price}</p>
                             <p className="text-gray-600">Payment details confirmed. Proceed to biometric scan.</p>
-                            <button onClick={() => setMerchantId(null)} className="text-sm text-gray-500 mt-3 hover:underline">Cancel Payment</button>
+                            {funding.length === 0 ? (
+                                <p className="text-sm text-red-600 mt-3">You hold no balance that can pay this request. Please fund your wallet first.</p>
+                            ) : (
+                                <div className="mt-4 space-y-2 text-left">
+                                    <p className="text-sm font-medium text-gray-700">Pay from</p>
+                                    {funding.map(option => (
+                                        <label
+                                            key={option.balance.currency}
+                                            className={`block border rounded-lg p-3 text-sm bg-white ${payFrom === option.balance.currency ? 'border-green-500' : 'border-gray-200'} ${option.sufficient ? 'cursor-pointer' : 'opacity-50'}`}
+                                        >
+                                            <input
+                                                type="radio"
+                                                name="pay-from"
+                                                className="mr-2"
+                                                checked={payFrom === option.balance.currency}
+                                                disabled={!option.sufficient}
+                                                onChange={() => setPayFrom(option.balance.currency)}
+                                            />
+                                            <span className="font-semibold">{option.balance.currency} balance</span> ({formatMoney(option.balance)}){!option.sufficient && ', not enough'}
+                                            {option.conversion && (
+                                                <span className="block text-gray-600 mt-1">
+                                                    You pay {formatMoney(option.cost)} at 1 {option.conversion.from.currency} = {option.conversion.rate} {option.conversion.to.currency}
+                                                    {' '}(mid-market {option.conversion.midRate}, {(option.conversion.spread * 100).toFixed(2)}% spread).
+                                                </span>
+                                            )}
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                            <p className="text-sm text-gray-500 mt-1">Expires at {new Date(paymentRequest.expiresAt).toLocaleTimeString()}.</p>
+                            <div className="flex justify-center space-x-4 mt-3">
+                                <button onClick={handleDecline} className="text-sm text-red-600 hover:underline">Decline Payment</button>
+                                <button onClick={() => setPaymentRequest(null)} className="text-sm text-gray-500 hover:underline">Not Now</button>
+                            </div>
                         </div>
                     )}
                 </div>
@@ -1180,13 +1492,11 @@ const ScannerPage: React.FC<ScannerPageProps> = ({ user, onPaymentSuccess, setEr
                 {/* 2. Iris Capture */}
                 <div className={`flex justify-center h-fit pt-0 ${captureDisabled ? 'opacity-50' : ''}`}>
                     <IrisCapture
-                        onCapture={handleIrisCapture}
+                        session={session}
                         title={scannerTitle}
                         subtitle={scannerSubtitle}
-                        status={status}
-                        setStatus={setStatus}
                         errorMessage={errorMessage}
-                        userNameForHash={user?.name || 'ClientPayment'}
+                        syntheticSeed={user?.name || 'ClientPayment'}
                     />
                 </div>
             </div>
@@ -1195,48 +1505,91 @@ const ScannerPage: React.FC<ScannerPageProps> = ({ user, onPaymentSuccess, setEr
     );
 };
 
-const ReceiptPage: React.FC<ReceiptPageProps> = ({ tx, onBack }) => (
-    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4 pt-24">
-        <div className="max-w-md w-full bg-white p-8 rounded-xl shadow-2xl border-t-8 border-blue-600">
-            <div className="flex justify-center mb-6">
-                <CheckCircle className="w-12 h-12 text-blue-600" />
-            </div>
-            <h2 className="text-4xl font-bold text-center text-gray-900 mb-2">Payment Successful!</h2>
-            <p className="text-center text-gray-500 mb-8">Thank you for using IrisPay.</p>
+const ReceiptPage: React.FC<ReceiptPageProps> = ({ tx, transactions, onView, onBack }) => {
+    // A refund links back to its payment; a payment lists the refunds made against it.
+    const original = tx.refundOf ? transactions.find(t => t.id === tx.refundOf) : undefined;
+    const linkedRefunds = transactions.filter(t => t.refundOf === tx.id);
 
-            <div className="space-y-3 border-y border-gray-200 py-6 mb-6">
-                <div className="flex justify-between text-lg font-medium text-gray-800">
-                    <span>Merchant</span>
-                    <span className="font-semibold">{tx.merchantName}</span>
-                </div>
-                <div className="flex justify-between text-lg font-medium text-gray-800">
-                    <span>Client</span>
-                    <span className="font-semibold">{tx.clientName}</span>
+    return (
+        <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4 pt-24">
+            <div className="max-w-md w-full bg-white p-8 rounded-xl shadow-2xl border-t-8 border-blue-600">
+                <div className="flex justify-center mb-6">
+                    {tx.refundOf ? <RotateCcw className="w-12 h-12 text-blue-600" /> : <CheckCircle className="w-12 h-12 text-blue-600" />}
                 </div>
-                <div className="flex justify-between text-lg font-medium text-gray-800">
-                    <span>Date & Time</span>
-                    <span>{new Date(tx.timestamp).toLocaleString()}</span>
+                <h2 className="text-4xl font-bold text-center text-gray-900 mb-2">{tx.refundOf ? 'Refund Issued' : 'Payment Successful!'}</h2>
+                <p className="text-center text-gray-500 mb-8">Thank you for using IrisPay.</p>
+
+                <div className="space-y-3 border-y border-gray-200 py-6 mb-6">
+                    <div className="flex justify-between text-lg font-medium text-gray-800">
+                        <span>Merchant</span>
+                        <span className="font-semibold">{tx.merchantName}</span>
+                    </div>
+                    <div className="flex justify-between text-lg font-medium text-gray-800">
+                        <span>Client</span>
+                        <span className="font-semibold">{tx.clientName}</span>
+                    </div>
+                    <div className="flex justify-between text-lg font-medium text-gray-800">
+                        <span>Date & Time</span>
+                        <span>{new Date(tx.timestamp).toLocaleString()}</span>
+                    </div>
+                    <div className="flex justify-between text-lg font-medium text-gray-800">
+                        <span>Transaction ID</span>
+                        <span className="text-sm">{tx.id}</span>
+                    </div>
+                    <div className="flex justify-between text-lg font-medium text-gray-800">
+                        <span>Status</span>
+                        <span className={`text-sm font-medium px-2 py-0.5 rounded-full ${TRANSACTION_STATUS_BADGES[tx.status]}`}>{TRANSACTION_STATUS_LABELS[tx.status]}</span>
+                    </div>
+                    {tx.refundOf && (
+                        <div className="flex justify-between text-lg font-medium text-gray-800">
+                            <span>Refund Of</span>
+                            {original
+                                ? <button onClick={() => onView(original)} className="text-sm text-blue-600 hover:underline">{original.id}</button>
+                                : <span className="text-sm">{tx.refundOf}</span>}
+                        </div>
+                    )}
+                    {tx.conversion && (
+                        <div className="text-lg font-medium text-gray-800">
+                            <div className="flex justify-between">
+                                <span>Paid From</span>
+                                <span className="font-semibold">{formatMoney(tx.conversion.from)}</span>
+                            </div>
+                            <p className="text-sm text-gray-500 text-right">
+                                1 {tx.conversion.from.currency} = {tx.conversion.rate} {tx.conversion.to.currency} (mid-market {tx.conversion.midRate}, {(tx.conversion.spread * 100).toFixed(2)}% spread)
+                            </p>
+                        </div>
+                    )}
+                    {tx.refundedAmount ? (
+                        <div className="flex justify-between text-lg font-medium text-gray-800">
+                            <span>Refunded</span>
+                            <span className="font-semibold text-green-600">{formatMoney(tx.refundedAmount)}</span>
+                        </div>
+                    ) : null}
+                    {linkedRefunds.map(refund => (
+                        <div key={refund.id} className="flex justify-between text-sm text-gray-600">
+                            <button onClick={() => onView(refund)} className="text-blue-600 hover:underline">Refund {refund.id}</button>
+                            <span>{formatMoney(refund.amount)} · {new Date(refund.timestamp).toLocaleString()}</span>
+                        </div>
+                    ))}
                 </div>
-                <div className="flex justify-between text-lg font-medium text-gray-800">
-                    <span>Transaction ID</span>
-                    <span className="text-sm">{tx.id}</span>
+
+                <div className="flex justify-between items-center mb-8">
+                    <span className="text-xl font-bold text-gray-700">{tx.refundOf ? 'Total Refunded' : 'Total Paid'}</span>
+                    {tx.refundOf
+                        ? <span className="text-5xl font-extrabold text-green-600">+{formatMoney(tx.amount)}</span>
+                        : <span className="text-5xl font-extrabold text-green-600">-{formatMoney(tx.amount)}</span>}
                 </div>
-            </div>
 
-            <div className="flex justify-between items-center mb-8">
-                <span className="text-xl font-bold text-gray-700">Total Paid</span>
-                <span className="text-5xl font-extrabold text-green-600">-${tx.amount.toFixed(2)}</span>
+                <button 
+                    onClick={onBack}
+                    className="w-full bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 transition shadow-md"
+                >
+                    <ArrowRight className="inline w-5 h-5 mr-2 transform rotate-180" /> Back to Dashboard
+                </button>
             </div>
-
-            <button 
-                onClick={onBack}
-                className="w-full bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 transition shadow-md"
-            >
-                <ArrowRight className="inline w-5 h-5 mr-2 transform rotate-180" /> Back to Dashboard
-            </button>
         </div>
-    </div>
-);
+    );
+};
 
 
 // --- MAIN APP COMPONENT ---
@@ -1244,74 +1597,119 @@ const ReceiptPage: React.FC<ReceiptPageProps> = ({ tx, onBack }) => (
 const App: React.FC = () => {
   const [currentPage, setCurrentPage] = useState<Page>('landing');
   const [user, setUser] = useState<User | null>(null);
-  const [walletBalance, setWalletBalance] = useState<number>(MOCK_WALLET_BALANCE);
-  const [transactions, setTransactions] = useState<Transaction[]>(MOCK_TRANSACTIONS);
-  const [requests, setRequests] = useState<PaymentRequest[]>([]); // Mock: Merchant requests
+  // API session token, kept for the browser tab so a reload stays signed in
+  const [token, setToken] = useState<string | null>(() => sessionStorage.getItem(SESSION_STORAGE_KEY));
+  // The signed-in account's wallet, transactions and (merchants) payment requests, from the API
+  const [wallet, setWallet] = useState<WalletSummary | null>(null);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [requests, setRequests] = useState<PaymentRequest[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [selectedReceipt, setSelectedReceipt] = useState<Transaction | null>(null);
   const [dashboardBackPage, setDashboardBackPage] = useState<'client-dashboard' | 'merchant-dashboard'>('client-dashboard');
 
-  // Sync MOCK_WALLET_BALANCE to state periodically (for simplicity in mock)
+  // Restore the signed-in account after a reload; drop a token the server no longer accepts.
   useEffect(() => {
-    const interval = setInterval(() => {
-        if (walletBalance !== MOCK_WALLET_BALANCE) {
-            setWalletBalance(MOCK_WALLET_BALANCE);
-        }
-        if (transactions.length !== MOCK_TRANSACTIONS.length) {
-             setTransactions([...MOCK_TRANSACTIONS]);
-        }
-    }, 500);
-    return () => clearInterval(interval);
-  }, [walletBalance, transactions.length]);
+    if (!token || user) return;
+    callApi<MeResponse>('/auth/me', { token })
+      .then(response => {
+        setUser(response.user);
+        setCurrentPage(response.user.userType === 'client' ? 'client-dashboard' : 'merchant-dashboard');
+      })
+      .catch(() => {
+        sessionStorage.removeItem(SESSION_STORAGE_KEY);
+        setToken(null);
+      });
+  }, [token, user]);
+
+  /** Reloads the signed-in account's wallet, transactions and payment requests. */
+  const refreshAccountData = useCallback(async (account: User, sessionToken: string) => {
+    const [walletResponse, transactionResponse, requestResponse] = await Promise.all([
+      callApi<WalletResponse>('/wallet', { token: sessionToken }),
+      callApi<TransactionListResponse>('/wallet/transactions', { token: sessionToken }),
+      account.userType === 'merchant' ? callApi<PaymentRequestListResponse>('/payment-requests', { token: sessionToken }) : Promise.resolve({ requests: [] }),
+    ]);
+    setWallet(walletResponse.wallet);
+    setTransactions(transactionResponse.transactions);
+    setRequests(requestResponse.requests);
+  }, []);
 
+  useEffect(() => {
+    if (!user || !token) {
+      setWallet(null);
+      setTransactions([]);
+      setRequests([]);
+      return;
+    }
+    refreshAccountData(user, token).catch(e => setError(e instanceof Error ? e.message : "Could not load your account."));
+  }, [user, token, refreshAccountData]);
 
-  // Handlers
-  const handleLoginSuccess = useCallback((loggedInUser: User) => {
-    setUser(loggedInUser);
-    setCurrentPage(loggedInUser.userType === 'client' ? 'client-dashboard' : 'merchant-dashboard');
-    setError(null);
-  }, []);
+  // A merchant with outstanding requests sees them paid, declined or expired without reloading.
+  const hasPendingRequests = requests.some(request => request.status === 'pending');
+  useEffect(() => {
+    if (!user || !token || user.userType !== 'merchant' || !hasPendingRequests) return;
+    const timer = window.setInterval(() => {
+      refreshAccountData(user, token).catch(() => undefined);
+    }, REQUEST_POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [user, token, hasPendingRequests, refreshAccountData]);
 
-  const handleRegistrationSuccess = useCallback((newUser: User) => {
-    setUser(newUser);
-    setCurrentPage(newUser.userType === 'client' ? 'client-dashboard' : 'merchant-dashboard');
+  // Handlers
+  /** After login or registration: keep the token and open the account's dashboard. */
+  const startSession = useCallback((signedInUser: User, sessionToken: string) => {
+    sessionStorage.setItem(SESSION_STORAGE_KEY, sessionToken);
+    setToken(sessionToken);
+    setUser(signedInUser);
+    setCurrentPage(signedInUser.userType === 'client' ? 'client-dashboard' : 'merchant-dashboard');
     setError(null);
   }, []);
 
   const handleLogout = useCallback(() => {
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    setToken(null);
     setUser(null);
     setCurrentPage('landing');
     setError(null);
   }, []);
 
-  const handlePaymentSuccess = useCallback((tx: Transaction) => {
-      // Update local state directly with new transaction (already updated in MOCK_TRANSACTIONS in scanner)
-      // MOCK_WALLET_BALANCE is updated in the ScannerPage, but we update the state here for UI sync
-      setWalletBalance(MOCK_WALLET_BALANCE);
-      
-      // Update the transaction list
-      setTransactions([...MOCK_TRANSACTIONS]);
+  const handlePaymentSuccess = useCallback(({ transaction, wallet: paidFrom }: PaymentResponse) => {
+      setWallet(paidFrom);
+      setTransactions(prev => [transaction, ...prev]);
       
       // Display the receipt
-      setSelectedReceipt(tx);
+      setSelectedReceipt(transaction);
       setCurrentPage('receipt');
       setDashboardBackPage('client-dashboard');
   }, []);
 
-  const handleMerchantRequest = useCallback(async (amount: number, currency: string) => {
-      // MOCK: Simulate creating a payment request
-      const newRequest: PaymentRequest = {
-          id: `req-${Date.now()}`,
-          merchantId: user!.id,
-          merchantName: user!.merchantName || 'Merchant',
-          amount,
-          currency,
-          status: 'pending',
-          timestamp: new Date().toISOString(),
-      };
-      setRequests(prev => [...prev, newRequest]);
-      return new Promise<void>(resolve => setTimeout(resolve, 500));
-  }, [user]);
+  const handleFundWallet = useCallback(async (currency: string) => {
+      const body: FundWalletRequest = { amount: fromMajor(WALLET_TOP_UP, currency) };
+      const response = await callApi<WalletResponse>('/wallet/fund', { method: 'POST', body, token });
+      setWallet(response.wallet);
+  }, [token]);
+
+  const handleMerchantRequest = useCallback(async (amount: Money) => {
+      const body: NewPaymentRequest = { amount };
+      const response = await callApi<PaymentRequestResponse>('/payment-requests', { method: 'POST', body, token });
+      setRequests(prev => [response.request, ...prev]);
+      return response.request;
+  }, [token]);
+
+  const handleCancelRequest = useCallback(async (id: string) => {
+      const response = await callApi<PaymentRequestResponse>(`/payment-requests/${id}/cancel`, { method: 'POST', token });
+      setRequests(prev => prev.map(request => request.id === id ? response.request : request));
+  }, [token]);
+
+  const handleRefund = useCallback(async (sale: Transaction, amount: Money, probes: IrisTemplate[], eye: EyeSide, liveness: LivenessVerdict) => {
+      const body: RefundRequest = { amount, probes: probes.map(serializeTemplate), eye, liveness };
+      const response = await callApi<RefundResponse>(`/wallet/transactions/${sale.id}/refund`, { method: 'POST', body, token });
+      setWallet(response.wallet);
+      setTransactions(prev => [response.refund, ...prev.map(tx => tx.id === response.payment.id ? response.payment : tx)]);
+  }, [token]);
+
+  const handleRevokeIrisKey = useCallback(async () => {
+      const response = await callApi<MeResponse>('/auth/iris-key/revoke', { method: 'POST', token });
+      setUser(response.user);
+  }, [token]);
 
   const handleViewReceipt = useCallback((tx: Transaction, backPage: 'client-dashboard' | 'merchant-dashboard') => {
       setSelectedReceipt(tx);
@@ -1320,30 +1718,28 @@ const App: React.FC = () => {
   }, []);
 
   // Props bundles for dashboards
-  const registeredUsers = MOCK_USERS.map(u => ({ 
-      id: u.id, 
-      name: u.name, 
-      userType: u.userType, 
-      merchantName: u.merchantName 
-  }));
 
   const sharedDashboardProps: SharedDashboardProps = {
     user: user!,
-    transactions: transactions.filter(tx => user && (tx.clientId === user.id || tx.merchantId === user.id)),
+    wallet,
+    transactions,
     requests,
     onViewReceipt: handleViewReceipt,
+    onRevokeIrisKey: handleRevokeIrisKey,
     setError: setError,
   };
 
   const clientDashboardProps: ClientDashboardProps = {
     ...sharedDashboardProps,
-    walletBalance: walletBalance,
+    onFundWallet: handleFundWallet,
     onNavigate: setCurrentPage,
   };
 
   const merchantDashboardProps: MerchantDashboardProps = {
     ...sharedDashboardProps,
     onCreateRequest: handleMerchantRequest,
+    onCancelRequest: handleCancelRequest,
+    onRefund: handleRefund,
     onNavigate: setCurrentPage,
   };
 
@@ -1429,21 +1825,20 @@ const App: React.FC = () => {
       case 'workflow':
         return <WorkflowPage />;
       case 'security':
-        return <SecurityPage />;
+        return <SecurityPage token={token} />;
       case 'scanner':
         return (
           <ScannerPage 
             user={user} 
+            token={token}
             onPaymentSuccess={handlePaymentSuccess} 
-            setError={setError} 
             onNavigate={setCurrentPage} 
-            registeredUsers={registeredUsers}
           />
         );
       case 'register':
-        return <RegistrationPage onSuccess={handleRegistrationSuccess} onNavigate={setCurrentPage} />;
+        return <RegistrationPage onSuccess={startSession} onNavigate={setCurrentPage} />;
       case 'login':
-        return <LoginPage onSuccess={handleLoginSuccess} onNavigate={setCurrentPage} />;
+        return <LoginPage onSuccess={startSession} onNavigate={setCurrentPage} />;
       case 'client-dashboard':
         // The ternary operator ensures props are only spread if user is not null
         return user && user.userType === 'client' ? (
@@ -1454,7 +1849,7 @@ const App: React.FC = () => {
            <MerchantDashboard {...merchantDashboardProps} />
         ) : <LandingPage onNavigate={setCurrentPage} />;
       case 'receipt':
-        return selectedReceipt ? <ReceiptPage tx={selectedReceipt} onBack={() => setCurrentPage(dashboardBackPage)} /> : <LandingPage onNavigate={setCurrentPage} />;
+        return selectedReceipt ? <ReceiptPage tx={selectedReceipt} transactions={transactions} onView={setSelectedReceipt} onBack={() => setCurrentPage(dashboardBackPage)} /> : <LandingPage onNavigate={setCurrentPage} />;
       default:
         return <LandingPage onNavigate={setCurrentPage} />;
     }
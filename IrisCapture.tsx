@@ -1,233 +1,353 @@
-import React, { useState, useRef, useEffect, useCallback } from "react";
-import { Camera, Check, X, RefreshCw, Eye, AlertCircle } from 'lucide-react';
-
-// Utility for hashing (simulated)
-const simpleHash = (data: string): string => {
-  // In a real application, this would be a secure, non-reversible cryptographic hash (e.g., SHA-256)
-  // applied to the biometric template extracted from the image.
-  let hash = 0;
-  for (let i = 0; i < data.length; i++) {
-    const char = data.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash |= 0; // Convert to 32bit integer
-  }
-  return `iris-hash-${Math.abs(hash).toString(36).substring(0, 10)}`;
-};
-
-interface IrisCaptureProps {
-  onCaptureSuccess: (preview: string, hash: string) => void;
-  onCancel: () => void;
-  mode: 'registration' | 'authentication';
-}
-
-/**
- * Renders the webcam view with an overlay to strictly guide the user to focus on the face/iris.
- * This simulates a system that only processes biometric data from the face area.
- */
-const IrisCapture: React.FC<IrisCaptureProps> = ({ onCaptureSuccess, onCancel, mode }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [stream, setStream] = useState<MediaStream | null>(null);
-  const [status, setStatus] = useState<'idle' | 'scanning' | 'complete' | 'error'>('idle');
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [capturedPreview, setCapturedPreview] = useState<string | null>(null);
-  
-  const instructionMessage = mode === 'registration'
-    ? "Align your face and eye within the circle. Only the iris will be scanned. Remove glasses."
-    : "Align your eye for authentication. Only the iris will be scanned. Keep other objects clear.";
-
-  // 1. Setup Camera Stream
-  useEffect(() => {
-    const startCamera = async () => {
-      setStatus('scanning');
-      setErrorMessage(null);
-      try {
-        const mediaStream = await navigator.mediaDevices.getUserMedia({ 
-          video: { facingMode: "user", width: 320, height: 240 } 
-        });
-        if (videoRef.current) {
-          videoRef.current.srcObject = mediaStream;
-          videoRef.current.play();
-          setStream(mediaStream);
-        }
-      } catch (err) {
-        console.error("Error accessing camera:", err);
-        setStatus('error');
-        setErrorMessage("Camera access denied or device not found. Please ensure your camera is enabled.");
-      }
-    };
-
-    startCamera();
-
-    return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
-    };
-  }, []);
-
-  // 2. Capture and Process (Simulated)
-  const captureAndProcess = useCallback(() => {
-    if (!videoRef.current || !canvasRef.current || status === 'complete') return;
-    
-    // Simulate biometric capture - strictly focused on the face/eye area
-    setStatus('scanning');
-
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    
-    // Define the area to 'crop' (for simulation, this is the center area)
-    const context = canvas.getContext('2d');
-    if (!context) return;
-
-    // Set canvas dimensions to video dimensions
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-
-    // --- Biometric 'Cropping' and Capture Simulation ---
-    
-    // 1. Draw the full frame
-    context.drawImage(video, 0, 0, canvas.width, canvas.height);
-
-    // 2. Extract image data (the simulated "iris" image)
-    const imageDataURL = canvas.toDataURL('image/png');
-
-    // 3. Simulate processing and filtering out non-face objects
-    // In a real system, OpenCV or similar library would detect the face/iris,
-    // crop the image to the iris area, and ensure no other objects interfere.
-    
-    // For this simulation, we'll confirm success and hash the cropped data
-    const hash = simpleHash(imageDataURL); // Hash of the (simulated) cropped iris image
-    
-    setCapturedPreview(imageDataURL);
-    setStatus('complete');
-    
-    // Stop the video stream after successful capture
-    if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-        setStream(null);
-    }
-
-    onCaptureSuccess(imageDataURL, hash);
-
-  }, [status, stream, onCaptureSuccess]);
-
-  // 3. Reset Function
-  const handleReset = () => {
-    if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-    }
-    setCapturedPreview(null);
-    setErrorMessage(null);
-    setStatus('idle');
-    // Re-trigger useEffect to restart the camera
-    window.location.reload(); 
-    // In a real React app, you would use state to restart the camera, 
-    // but a full reload simplifies stream handling in this single-file environment.
-  };
-
-  const buttonClass = "px-6 py-3 rounded-full font-semibold text-sm transition-all duration-300 shadow-lg flex items-center justify-center space-x-2";
-
-  return (
-    <div className="flex flex-col items-center justify-center p-6 bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg mx-auto">
-      <h2 className="text-2xl font-bold mb-4 text-white flex items-center">
-        <Eye className="w-6 h-6 mr-2 text-sky-400" /> 
-        Iris Scan: <span className="text-sky-400 ml-1">Strict Biometric Focus</span>
-      </h2>
-      <p className="text-center text-sm mb-6 text-slate-300 max-w-xs">{instructionMessage}</p>
-
-      {/* Camera Viewport and Strict Focus Mask */}
-      <div className="relative w-full aspect-video max-w-sm rounded-xl overflow-hidden shadow-inner border-4 border-slate-700">
-        
-        {/* Video Element */}
-        <video 
-          ref={videoRef} 
-          className={`w-full h-full object-cover ${capturedPreview ? 'hidden' : 'block'}`}
-          playsInline
-          muted
-          autoPlay
-        ></video>
-
-        {/* Captured Preview */}
-        {capturedPreview && (
-          <img src={capturedPreview} alt="Captured Iris Preview" className="w-full h-full object-cover" />
-        )}
-
-        {/* STRICT FOCUS MASK OVERLAY */}
-        {!capturedPreview && (
-            <div className="absolute inset-0 bg-slate-900 bg-opacity-75 flex items-center justify-center pointer-events-none">
-                {/* Central Face/Eye Cutout */}
-                <div className="w-3/4 h-3/4 bg-transparent border-4 border-sky-400 rounded-full shadow-[0_0_0_9999px_rgba(30,41,59,0.75)] animate-pulse-slow">
-                    <p className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-white text-center text-xs font-mono">
-                        FOCUS AREA
-                    </p>
-                </div>
-            </div>
-        )}
-
-        {/* Status Overlay */}
-        {status === 'scanning' && !capturedPreview && (
-          <div className="absolute bottom-0 left-0 right-0 p-2 bg-sky-600 bg-opacity-80 text-white text-center text-xs font-semibold">
-            Scanning for Face and Iris...
-          </div>
-        )}
-        {errorMessage && (
-          <div className="absolute inset-0 bg-red-700 bg-opacity-80 flex items-center justify-center p-4 text-white text-sm font-semibold">
-            <AlertCircle className="w-5 h-5 mr-2" /> {errorMessage}
-          </div>
-        )}
-      </div>
-
-      {/* Action Buttons */}
-      <div className="mt-8 flex space-x-4">
-        {status === 'scanning' && (
-          <button
-            onClick={captureAndProcess}
-            className={`${buttonClass} bg-sky-500 text-white hover:bg-sky-600`}
-            disabled={!stream}
-          >
-            <Camera className="w-5 h-5" /> 
-            Capture Iris
-          </button>
-        )}
-
-        {status === 'complete' && capturedPreview && (
-          <span className={`${buttonClass} bg-green-500 text-white`}>
-            <Check className="w-5 h-5" />
-            Iris Data Captured!
-          </span>
-        )}
-        
-        {capturedPreview && (
-          <button
-            onClick={handleReset}
-            className={`${buttonClass} bg-gray-500 text-white hover:bg-gray-600`}
-          >
-            <RefreshCw className="w-5 h-5" /> 
-            Recapture
-          </button>
-        )}
-
-        {!capturedPreview && (
-            <button
-              onClick={onCancel}
-              className={`${buttonClass} bg-red-500 text-white hover:bg-red-600`}
-            >
-              <X className="w-5 h-5" /> 
-              Cancel
-            </button>
-        )}
-
-      </div>
-      
-      {/* Optional Debug Info */}
-      {capturedPreview && (
-        <p className="mt-4 text-xs text-slate-400">
-          *Biometric data successfully extracted and hashed for security.
-        </p>
-      )}
-    </div>-
-  );
-};
-
-export default IrisCapture;
+import React, { useState, useRef, useEffect } from "react";
+import { Camera, CheckCircle, AlertCircle, RefreshCw, X, Eye, Zap, Scan, Image as ImageIcon, Video, Sparkles, Lock, Loader } from 'lucide-react';
+import type { EyeRegion } from './eyeLocator.ts';
+import type { EyeSide } from './dualEye.ts';
+import { useEyeTracking } from './useEyeTracking.ts';
+import type { CaptureSession, CaptureState } from './captureSession.ts';
+import { useCaptureSnapshot, useCaptureEvents } from './useCaptureSession.ts';
+import { createWebcamSource, createImageFileSource, createVideoFileSource, createSyntheticSource, paintPixels, FrameSourceError } from './frameSource.ts';
+import type { FrameSource, FrameSourceKind } from './frameSource.ts';
+import { listCameras, watchCameras, saveCameraChoice } from './cameraManager.ts';
+import type { CameraDevice, CameraPreferences } from './cameraManager.ts';
+import type { RgbaPixels } from './irisTemplate.ts';
+
+interface IrisCaptureProps {
+    /** The page's capture session; the page receives captures through its event stream. */
+    session: CaptureSession;
+    title: string;
+    subtitle: string;
+    errorMessage: string | null; // For page-level errors (e.g. form validation) passed from parent
+    /** Initial seed for the synthetic eye source. */
+    syntheticSeed: string;
+}
+
+const SOURCE_BUTTONS: { kind: FrameSourceKind; label: string; icon: React.ReactNode }[] = [
+    { kind: 'webcam', label: 'Camera', icon: <Camera className="w-4 h-4" /> },
+    { kind: 'image', label: 'Image', icon: <ImageIcon className="w-4 h-4" /> },
+    { kind: 'video', label: 'Video', icon: <Video className="w-4 h-4" /> },
+    { kind: 'synthetic', label: 'Synthetic', icon: <Sparkles className="w-4 h-4" /> },
+];
+
+/**
+ * The capture UI. Frames come from a pluggable `FrameSource` (webcam, uploaded image, recorded
+ * video or synthetic eye), attached to the page's `CaptureSession`, and every capture runs
+ * through the same engine: eye localization for face framings, quality gate, liveness and
+ * encoding. If the webcam cannot be opened the synthetic eye is used, so the full pipeline
+ * still runs without a camera. Pages only ever see the template and the redacted iris
+ * thumbnail shown here; the captured frames themselves are wiped on the device.
+ */
+const IrisCapture: React.FC<IrisCaptureProps> = ({ session, title, subtitle, errorMessage, syntheticSeed }) => {
+    const capture = useCaptureSnapshot(session);
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const imageInputRef = useRef<HTMLInputElement>(null);
+    const videoInputRef = useRef<HTMLInputElement>(null);
+    const [cameras, setCameras] = useState<CameraDevice[]>([]);
+    const [activeCamera, setActiveCamera] = useState<CameraDevice | null>(null);
+    const openWebcam = (preferences?: Partial<CameraPreferences>) => createWebcamSource({
+        preferences,
+        onCameraChange: camera => {
+            setActiveCamera(camera);
+            setSourceNotice(camera ? null : "The camera was disconnected. Plug one in, or choose another source.");
+        },
+    });
+    const [source, setSource] = useState<FrameSource>(() => openWebcam());
+    const [sourceNotice, setSourceNotice] = useState<string | null>(null);
+    const [seed, setSeed] = useState(syntheticSeed);
+    const seedRef = useRef(seed);
+    const [localErrorMessage, setLocalErrorMessage] = useState<string | null>(null);
+    const [livenessPrompt, setLivenessPrompt] = useState<string | null>(null);
+    const [isFlashOn, setIsFlashOn] = useState(false);
+    const [thumbnail, setThumbnail] = useState<RgbaPixels | null>(null);
+    const thumbnailRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        if (thumbnail && thumbnailRef.current) paintPixels(thumbnailRef.current, thumbnail);
+    }, [thumbnail]);
+
+    useEffect(() => {
+        seedRef.current = seed;
+    }, [seed]);
+
+    // The synthetic person shows whichever eye the session asks for.
+    const syntheticEyeRef = useRef<EyeSide>('left');
+    const openSynthetic = (syntheticSeed: string) => {
+        syntheticEyeRef.current = capture.eye ?? 'left';
+        return createSyntheticSource({ seed: syntheticSeed, eye: syntheticEyeRef.current });
+    };
+    useEffect(() => {
+        const { eye } = capture;
+        if (source.kind === 'synthetic' && eye && eye !== syntheticEyeRef.current) {
+            syntheticEyeRef.current = eye;
+            setSource(createSyntheticSource({ seed: seedRef.current, eye }));
+        }
+    }, [capture, source]);
+
+    // Keep the camera picker in step with plugged and unplugged devices.
+    useEffect(() => {
+        listCameras().then(setCameras).catch(() => setCameras([]));
+        return watchCameras(setCameras);
+    }, []);
+
+    // Mount the source's element in the viewport and hand the source to the session, which
+    // starts it; detach it when it is replaced.
+    useEffect(() => {
+        const { element } = source;
+        if (element && viewportRef.current) {
+            element.className = `absolute inset-0 w-full h-full object-cover ${source.mirrored ? 'transform scale-x-[-1]' : ''}`;
+            viewportRef.current.prepend(element);
+        }
+        session.attachSource(source);
+
+        return () => {
+            session.detachSource();
+            element?.remove();
+        };
+    }, [session, source]);
+
+    useCaptureEvents(session, event => {
+        if (event.type === 'prompt') setLivenessPrompt(event.message);
+        else if (event.type === 'flash') setIsFlashOn(event.on);
+        else if (event.type === 'captured') setThumbnail(event.result.thumbnail);
+        else if (event.type === 'state' && event.snapshot.state === 'aligning') {
+            setLocalErrorMessage(null);
+            setThumbnail(null);
+            // Camera labels only become visible once permission has been granted.
+            if (source.kind === 'webcam') listCameras().then(setCameras).catch(() => {});
+        } else if (event.type === 'source-failed' && event.source === source && source.kind === 'webcam') {
+            // Fall back to the synthetic eye so capture still exercises the real pipeline.
+            const message = event.error instanceof FrameSourceError ? event.error.message : "The camera could not be started.";
+            setSourceNotice(`${message} Using a synthetic eye instead. You can also upload an image or video.`);
+            setSource(openSynthetic(seedRef.current));
+        }
+    });
+
+    const switchSource = (next: FrameSource) => {
+        setLocalErrorMessage(null);
+        setSourceNotice(null);
+        setSource(next);
+    };
+
+    const handleSourceClick = (kind: FrameSourceKind) => {
+        if (kind === 'webcam') switchSource(openWebcam());
+        else if (kind === 'synthetic') switchSource(openSynthetic(seed));
+        else if (kind === 'image') imageInputRef.current?.click();
+        else videoInputRef.current?.click();
+    };
+
+    const handleCameraChosen = (deviceId: string) => {
+        const camera = cameras.find(c => c.deviceId === deviceId);
+        if (!camera) return;
+        saveCameraChoice(camera);
+        switchSource(openWebcam({ deviceId: camera.deviceId, label: camera.label }));
+    };
+
+    const handleFileChosen = async (event: React.ChangeEvent<HTMLInputElement>, kind: 'image' | 'video') => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            switchSource(kind === 'image' ? await createImageFileSource(file) : createVideoFileSource(file));
+        } catch (e) {
+            setLocalErrorMessage(e instanceof FrameSourceError ? e.message : "This file could not be opened.");
+        }
+    };
+
+    // Live eye localization: guides the user and fires the capture once the eye is steady.
+    const tracksFace = source.framing === 'face';
+    const eyeTracking = useEyeTracking(tracksFace ? source.element : null, {
+        enabled: capture.state === 'aligning',
+        preferredSide: capture.eye ?? undefined,
+        onSteady: region => handleCaptureClick(region),
+    });
+
+    /** Captures from `region` (the located eye), or from whole frames for eye close-ups or without a detector. */
+    const handleCaptureClick = (region: EyeRegion | null) => {
+        if (capture.state !== 'aligning') {
+            setLocalErrorMessage("No frame source is active. Cannot capture.");
+            return;
+        }
+
+        if (tracksFace && eyeTracking.available && !region) {
+            setLocalErrorMessage("No eye detected yet. Center one eye in the circle.");
+            return;
+        }
+
+        setLocalErrorMessage(null);
+        void session.capture(tracksFace ? region : null);
+    };
+
+    const statusMap: Record<CaptureState, { icon: React.ReactNode; message: string; color: string }> = {
+        initializing: { icon: <Loader className="w-10 h-10 text-gray-400 animate-spin" />, message: `Starting ${source.label}...`, color: 'text-gray-600' },
+        aligning: { icon: <Camera className="w-10 h-10 text-gray-400" />, message: subtitle, color: 'text-gray-600' },
+        capturing: { icon: <Zap className="w-10 h-10 text-yellow-500 animate-pulse" />, message: 'Scanning and extracting iris template...', color: 'text-yellow-600' },
+        processing: { icon: <RefreshCw className="w-10 h-10 text-blue-500 animate-spin" />, message: 'Verifying...', color: 'text-blue-600' },
+        verified: { icon: <CheckCircle className="w-10 h-10 text-green-500" />, message: 'Iris verified successfully!', color: 'text-green-600' },
+        rejected: { icon: <AlertCircle className="w-10 h-10 text-red-500" />, message: capture.reason || 'Error accessing camera or processing iris.', color: 'text-red-600' },
+        locked: { icon: <Lock className="w-10 h-10 text-red-500" />, message: capture.reason || 'Too many failed attempts.', color: 'text-red-600' },
+    };
+
+    const currentStatus = statusMap[capture.state];
+    const showsReason = capture.state === 'rejected' || capture.state === 'locked';
+    const displayMessage = livenessPrompt || (showsReason && currentStatus.message) || errorMessage || localErrorMessage || sourceNotice || currentStatus.message;
+    const attemptsLeft = capture.maxAttempts - capture.failedAttempts;
+    const isBusy = capture.state === 'capturing' || capture.state === 'processing';
+    const isDisabled = capture.state !== 'aligning';
+
+    return (
+        <div className="max-w-md w-full text-center p-6 bg-white rounded-xl shadow-2xl border-t-4 border-blue-500">
+            {/* Liveness light stimulus: the whole screen goes white to provoke a pupil reflex */}
+            {isFlashOn && <div className="fixed inset-0 bg-white z-[200] pointer-events-none" />}
+            <h2 className="text-3xl font-bold text-gray-800 mb-2">{title}</h2>
+            {/* Which eye to present, when the page asks for a particular one */}
+            {capture.eye && (
+                <p className="inline-flex items-center gap-1 text-sm font-semibold text-blue-700 bg-blue-50 px-3 py-1 rounded-full mb-3">
+                    <Eye className="w-4 h-4" /> Present your {capture.eye.toUpperCase()} eye
+                </p>
+            )}
+
+            {/* Frame source picker */}
+            <div className="flex justify-center gap-2 mb-3">
+                {SOURCE_BUTTONS.map(({ kind, label, icon }) => (
+                    <button
+                        key={kind}
+                        onClick={() => handleSourceClick(kind)}
+                        disabled={isBusy}
+                        className={`text-xs font-medium px-3 py-1.5 rounded-full flex items-center gap-1 transition disabled:opacity-50
+                            ${source.kind === kind ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                    >
+                        {icon} {label}
+                    </button>
+                ))}
+                <input ref={imageInputRef} type="file" accept="image/*" className="hidden" onChange={e => handleFileChosen(e, 'image')} />
+                <input ref={videoInputRef} type="file" accept="video/*" className="hidden" onChange={e => handleFileChosen(e, 'video')} />
+            </div>
+            {source.kind === 'webcam' && cameras.length > 1 && (
+                <select
+                    value={activeCamera?.deviceId ?? ''}
+                    onChange={e => handleCameraChosen(e.target.value)}
+                    disabled={isBusy}
+                    className="w-full text-sm px-3 py-1.5 mb-3 border border-gray-300 rounded-lg bg-white"
+                >
+                    {!activeCamera && <option value="">Choose a camera</option>}
+                    {cameras.map((camera, i) => (
+                        <option key={camera.deviceId || i} value={camera.deviceId}>
+                            {camera.label || `Camera ${i + 1}`}{camera.infrared ? ' (infrared)' : ''}
+                        </option>
+                    ))}
+                </select>
+            )}
+            {source.kind === 'synthetic' && (
+                <div className="flex gap-2 mb-3">
+                    <input
+                        type="text"
+                        value={seed}
+                        onChange={e => setSeed(e.target.value)}
+                        placeholder="Synthetic eye seed"
+                        className="flex-1 text-sm px-3 py-1.5 border border-gray-300 rounded-lg"
+                    />
+                    <button
+                        onClick={() => switchSource(openSynthetic(seed))}
+                        disabled={isBusy || !seed}
+                        className="text-xs font-medium px-3 py-1.5 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                    >
+                        Use Seed
+                    </button>
+                </div>
+            )}
+
+            {/* Source preview / Scanner Visual; the source's own element is mounted here */}
+            <div ref={viewportRef} className="h-64 bg-gray-900 rounded-lg flex items-center justify-center mb-6 overflow-hidden relative border-4 border-gray-700">
+                {/* Eye-detection guidance, mirrored like the preview */}
+                {tracksFace && (
+                    <canvas ref={eyeTracking.overlayRef}
+                        className={`absolute inset-0 w-full h-full object-cover pointer-events-none ${source.mirrored ? 'transform scale-x-[-1]' : ''}`} />
+                )}
+                {/* Scanning Animation */}
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                    <div className={`w-3/4 h-3/4 border-4 rounded-full transition-all duration-300
+                        ${isBusy ? 'border-yellow-500 animate-pulse border-dashed' : 'border-blue-500 opacity-50'}`}></div>
+                    <Eye className="absolute w-8 h-8 text-white opacity-90" />
+                </div>
+                {/* Alignment guidance from the eye detector */}
+                {tracksFace && capture.state === 'aligning' && eyeTracking.alignment && (
+                    <div className={`absolute bottom-0 left-0 right-0 p-2 text-white text-xs font-semibold
+                        ${eyeTracking.alignment.issue ? 'bg-yellow-600/80' : 'bg-green-600/80'}`}>
+                        {eyeTracking.alignment.message}
+                    </div>
+                )}
+                {/* Redacted thumbnail of the last capture: the iris alone, everything else blacked out */}
+                {thumbnail && (
+                    <canvas ref={thumbnailRef} title="Scanned iris (redacted)"
+                        className="absolute top-2 right-2 w-16 h-16 rounded-full border-2 border-white shadow-lg pointer-events-none" />
+                )}
+                {/* Active source */}
+                {!tracksFace && (
+                    <div className="absolute top-0 left-0 right-0 p-1 bg-gray-900/70 text-gray-200 text-xs truncate">
+                        {source.label}
+                    </div>
+                )}
+            </div>
+
+            {/* Status Display */}
+            <div className="flex flex-col items-center justify-center mb-6 min-h-[4rem]">
+                {currentStatus.icon}
+                <p className={`mt-2 font-medium text-sm text-center ${currentStatus.color}`}>
+                    {displayMessage}
+                </p>
+                {capture.state === 'rejected' && capture.failedAttempts > 0 && (
+                    <p className="mt-1 text-xs text-gray-500">
+                        {attemptsLeft} {attemptsLeft === 1 ? 'attempt' : 'attempts'} left before a short lockout.
+                    </p>
+                )}
+            </div>
+
+            {/* Capture Button */}
+            <button
+                onClick={() => handleCaptureClick(eyeTracking.regionRef.current)}
+                className={`w-full text-white px-6 py-3 rounded-lg flex items-center justify-center shadow-lg transition duration-300 font-semibold mb-4
+                    ${isDisabled ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 active:bg-blue-800'}`
+                }
+                disabled={isDisabled}
+            >
+                {isBusy ? (
+                    <>
+                        <RefreshCw className="w-5 h-5 mr-2 animate-spin" /> Processing...
+                    </>
+                ) : (
+                    <>
+                        <Scan className="w-5 h-5 mr-2" /> Capture Iris
+                    </>
+                )}
+            </button>
+
+            {/* Recapture in place after a rejection; the source keeps running */}
+            {capture.state === 'rejected' && (
+                <button
+                    onClick={() => session.recapture()}
+                    className="w-full bg-blue-50 text-blue-700 px-6 py-3 rounded-lg flex items-center justify-center shadow-sm hover:bg-blue-100 transition text-sm mb-2"
+                >
+                    <RefreshCw className="w-4 h-4 mr-2" /> Try Again
+                </button>
+            )}
+            {(capture.state === 'rejected' || capture.state === 'verified') && (
+                <button
+                    onClick={() => session.reset()} // Pages drop any partial progress on reset
+                    className="w-full bg-gray-100 text-gray-700 px-6 py-3 rounded-lg flex items-center justify-center shadow-sm hover:bg-gray-200 transition text-sm"
+                >
+                    <X className="w-4 h-4 mr-2" /> Start Over
+                </button>
+            )}
+            {/* Restart the source without reloading the page, e.g. after a camera glitch */}
+            {!isBusy && (
+                <button
+                    onClick={() => session.restart()}
+                    className="w-full mt-2 text-xs text-gray-500 hover:text-gray-700 flex items-center justify-center"
+                >
+                    <RefreshCw className="w-3 h-3 mr-1" /> Restart {source.kind === 'webcam' ? 'camera' : 'source'}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default IrisCapture;
@@ -0,0 +1,125 @@
+import React, { useState, useRef, useEffect } from "react";
+import { Camera, Image as ImageIcon, X } from 'lucide-react';
+import { createWebcamSource, createImageFileSource, FrameSourceError } from './frameSource.ts';
+import { scanQrCode } from './paymentCode.ts';
+
+interface PaymentCodeScannerProps {
+    /** Called with the text of the QR code that was read; the camera stops once one is found. */
+    onScan: (text: string) => void;
+    disabled: boolean;
+}
+
+/** How often the live camera frame is searched for a QR code. */
+const SCAN_INTERVAL_MS = 250;
+
+/**
+ * Reads a merchant's QR code from the live camera or from an uploaded photo of it, through the
+ * same frame sources the iris capture uses. It only reports the code's text; checking that it is
+ * a usable payment code is the page's job.
+ */
+const PaymentCodeScanner: React.FC<PaymentCodeScannerProps> = ({ onScan, disabled }) => {
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const imageInputRef = useRef<HTMLInputElement>(null);
+    const onScanRef = useRef(onScan);
+    const [cameraOn, setCameraOn] = useState(false);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    useEffect(() => {
+        onScanRef.current = onScan;
+    }, [onScan]);
+
+    useEffect(() => {
+        if (disabled) setCameraOn(false);
+    }, [disabled]);
+
+    // While the camera is on, search each frame for a code until one is found.
+    useEffect(() => {
+        if (!cameraOn) return;
+        const source = createWebcamSource();
+        const { element } = source;
+        if (element && viewportRef.current) {
+            element.className = `absolute inset-0 w-full h-full object-cover ${source.mirrored ? 'transform scale-x-[-1]' : ''}`;
+            viewportRef.current.prepend(element);
+        }
+        let timer: number | undefined;
+        let cancelled = false;
+        source.start()
+            .then(() => {
+                if (cancelled) return;
+                timer = window.setInterval(() => {
+                    const frame = source.readFrame();
+                    const text = frame && scanQrCode(frame);
+                    if (!text) return;
+                    setCameraOn(false);
+                    onScanRef.current(text);
+                }, SCAN_INTERVAL_MS);
+            })
+            .catch(err => {
+                if (cancelled) return;
+                setNotice(err instanceof FrameSourceError ? `${err.message} Upload a photo of the code instead.` : "The camera could not be started.");
+                setCameraOn(false);
+            });
+
+        return () => {
+            cancelled = true;
+            window.clearInterval(timer);
+            source.stop();
+            element?.remove();
+        };
+    }, [cameraOn]);
+
+    const handleImageChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setNotice(null);
+        setCameraOn(false);
+        try {
+            const source = await createImageFileSource(file);
+            await source.start();
+            const frame = source.readFrame();
+            source.stop();
+            const text = frame && scanQrCode(frame);
+            if (text) onScanRef.current(text);
+            else setNotice("No QR code was found in this image. Try a sharper, closer photo.");
+        } catch (err) {
+            setNotice(err instanceof FrameSourceError ? err.message : "This image could not be read.");
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div ref={viewportRef} className={`relative w-full aspect-square bg-gray-900 rounded-lg overflow-hidden ${cameraOn ? '' : 'hidden'}`}>
+                {/* The camera preview is mounted here */}
+                <div className="absolute inset-10 border-4 border-green-400 rounded-lg pointer-events-none" />
+                <button
+                    onClick={() => setCameraOn(false)}
+                    className="absolute top-2 right-2 bg-black bg-opacity-50 text-white p-1 rounded-full"
+                    aria-label="Stop camera"
+                >
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <button
+                    onClick={() => { setNotice(null); setCameraOn(true); }}
+                    disabled={disabled || cameraOn}
+                    className="bg-green-500 text-white py-3 rounded-lg font-semibold hover:bg-green-600 transition flex items-center justify-center shadow-md disabled:opacity-50"
+                >
+                    <Camera className="w-5 h-5 mr-2" /> {cameraOn ? 'Scanning...' : 'Scan with Camera'}
+                </button>
+                <button
+                    onClick={() => imageInputRef.current?.click()}
+                    disabled={disabled}
+                    className="bg-white text-green-700 border border-green-500 py-3 rounded-lg font-semibold hover:bg-green-50 transition flex items-center justify-center disabled:opacity-50"
+                >
+                    <ImageIcon className="w-5 h-5 mr-2" /> Upload Image
+                </button>
+            </div>
+            <input ref={imageInputRef} type="file" accept="image/*" className="hidden" onChange={handleImageChosen} />
+            {notice && <p className="text-sm text-red-600">{notice}</p>}
+        </div>
+    );
+};
+
+export default PaymentCodeScanner;
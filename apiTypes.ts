@@ -0,0 +1,275 @@
+// --- API CONTRACT ---
+//
+// Request and response bodies of the backend's JSON API, shared by the server and the app.
+// Iris templates travel in `serializeTemplate` form; the server protects them under a key of
+// its own before storing, and never sends a template or key back. Every amount is a `Money`:
+// whole minor units of its currency (money.ts).
+
+import type { EyeComparison, EyeSide } from './dualEye.ts';
+import type { LivenessVerdict } from './liveness.ts';
+import type { Money } from './money.ts';
+import type { TemplateVersionCount } from './templateMigration.ts';
+
+/** What the app may know about an account's enrolled irises. */
+export interface IrisEnrollmentSummary {
+    eyes: EyeSide[];
+    /** Id of the transform key protecting the templates (not the key itself). */
+    keyId: string | null;
+    /** Template algorithm versions of the enrolled eyes. */
+    versions: number[];
+    /** True when a template will be re-enrolled under the current version at the next login. */
+    migrationPending: boolean;
+}
+
+/** An account as the API returns it. */
+export interface PublicUser {
+    id: string;
+    name: string;
+    email: string;
+    walletId: string;
+    bankLinked: boolean;
+    userType: 'client' | 'merchant';
+    merchantName?: string;
+    iris: IrisEnrollmentSummary;
+}
+
+export interface RegisterRequest {
+    name: string;
+    email: string;
+    userType: 'client' | 'merchant';
+    merchantName?: string;
+    /** The wallet's home currency (ISO 4217); USD when not given. */
+    currency?: string;
+    /** Fused enrollment template of each eye, current algorithm version. */
+    irisTemplates: Partial<Record<EyeSide, string>>;
+}
+
+export interface LoginRequest {
+    /** The capture under every algorithm version the app can encode (`CaptureResult.probes`). */
+    probes: string[];
+    /** The eye that was presented, or null when the source cannot tell. */
+    eye: EyeSide | null;
+    /** The capture's liveness verdict (`CaptureResult.liveness`); the server judges it again. */
+    liveness: LivenessVerdict;
+}
+
+/** Returned by register and login. `token` is a bearer JWT for the authenticated endpoints. */
+export interface AuthResponse {
+    token: string;
+    user: PublicUser;
+}
+
+export interface MeResponse {
+    user: PublicUser;
+}
+
+/** One-eye verification of the signed-in account, e.g. before a payment. */
+export interface VerifyRequest {
+    probes: string[];
+    eye: EyeSide;
+    liveness: LivenessVerdict;
+}
+
+export interface VerifyResponse {
+    comparison: EyeComparison;
+}
+
+/**
+ * Where a transaction stands. A completed payment becomes 'partially-refunded' once the merchant
+ * refunds part of it and 'refunded' once all of it is refunded.
+ */
+export type TransactionStatus = 'pending' | 'completed' | 'partially-refunded' | 'refunded' | 'failed';
+
+/**
+ * A payment from a client to a merchant, or a refund of one (`refundOf` set), which moves money
+ * back from the merchant to the client.
+ */
+export interface Transaction {
+    id: string;
+    amount: Money;
+    status: TransactionStatus;
+    timestamp: string;
+    merchantId?: string;
+    merchantName?: string;
+    clientId?: string;
+    clientName?: string;
+    /** The payment request this transaction paid. */
+    paymentRequestId?: string;
+    /** On a payment: how much of it has been refunded so far. */
+    refundedAmount?: Money;
+    /** On a refund: the payment it refunds. */
+    refundOf?: string;
+    /** On a payment from a balance in another currency: how it was converted into the currency of `amount`. */
+    conversion?: CurrencyConversion;
+}
+
+/**
+ * Money converted from a balance in one currency into another at the service's rate table. Both
+ * rates are units of the `to` currency per unit of the `from` currency; `rate` is `midRate` less
+ * the spread.
+ */
+export interface CurrencyConversion {
+    /** Taken from the payer's balance in its currency. */
+    from: Money;
+    /** Paid in the other currency. */
+    to: Money;
+    midRate: number;
+    rate: number;
+    /** Share of the mid rate kept by the service, e.g. 0.01. */
+    spread: number;
+}
+
+/**
+ * Where a payment request stands. It starts 'pending'; paying it makes it 'approved', the client
+ * declining it 'rejected', the merchant withdrawing it 'cancelled', and its `expiresAt` passing
+ * while still pending 'expired'. Only pending requests can change.
+ */
+export type PaymentRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled' | 'expired';
+
+/** A payment request initiated by a merchant. */
+export interface PaymentRequest {
+    id: string;
+    merchantId: string;
+    merchantName: string;
+    amount: Money;
+    status: PaymentRequestStatus;
+    timestamp: string;
+    /** When a pending request expires. */
+    expiresAt: string;
+    /** The merchant's signature over the request's payment code (see paymentCode.ts). */
+    signature: string;
+    /** The transaction that paid it, once approved. */
+    transactionId?: string;
+}
+
+/** The signed-in account's wallet. */
+export interface Wallet {
+    id: string;
+    /** Home currency: top-ups default to it, and a merchant's payment requests are priced in it. */
+    currency: string;
+    /** One balance per currency held, the home currency first (even when empty). */
+    balances: Money[];
+}
+
+export interface WalletResponse {
+    wallet: Wallet;
+}
+
+/** Tops up the wallet's balance in the currency of `amount`. */
+export interface FundWalletRequest {
+    amount: Money;
+}
+
+/** A merchant refunding some or all of a sale, confirmed by a scan of the merchant's own iris. */
+export interface RefundRequest {
+    /** In the currency of the sale. */
+    amount: Money;
+    probes: string[];
+    eye: EyeSide;
+    liveness: LivenessVerdict;
+}
+
+export interface RefundResponse {
+    refund: Transaction;
+    /** The refunded payment, with its new refunded total. */
+    payment: Transaction;
+    /** The merchant's wallet after the refund. */
+    wallet: Wallet;
+}
+
+export interface TransactionListResponse {
+    /** Transactions the signed-in account took part in, newest first. */
+    transactions: Transaction[];
+}
+
+/** Returned when a client pays a payment request, after verifying their iris. */
+export interface PaymentResponse {
+    transaction: Transaction;
+    wallet: Wallet;
+    request: PaymentRequest;
+}
+
+/** A merchant asking for a payment, in the currency of the merchant's wallet. */
+export interface NewPaymentRequest {
+    amount: Money;
+}
+
+export interface PaymentRequestResponse {
+    request: PaymentRequest;
+}
+
+/** A scanned payment code, checked by the server before the client's iris is verified. */
+export interface VerifyPaymentCodeRequest {
+    code: string;
+}
+
+/**
+ * A client paying a request; the scanned code is checked again, and the client's iris on the
+ * server, before any money moves.
+ */
+export interface PayPaymentRequest {
+    code: string;
+    /** The capture of the eye that verified the client (`CaptureResult.probes`). */
+    probes: string[];
+    eye: EyeSide;
+    liveness: LivenessVerdict;
+    /** For a payment that needs both eyes (`policyForAmount`): the capture of the other eye, taken first. */
+    otherEye?: VerifyRequest;
+    /**
+     * Chosen by the client for each payment it means to make and reused when retrying it, so a
+     * repeated request returns the original payment instead of charging again.
+     */
+    idempotencyKey: string;
+    /** The balance to pay from; the request's currency when not given. */
+    payFrom?: string;
+    /** When `payFrom` is another currency: the conversion rate the client was shown and accepted. */
+    quotedRate?: number;
+}
+
+/** A client turning a request down; the scanned code is checked as for a payment. */
+export interface DeclinePaymentRequest {
+    code: string;
+}
+
+/** A merchant as a client sees it: the name to pay and the key its payment codes are signed with. */
+export interface MerchantProfile {
+    id: string;
+    merchantName: string;
+    /** ECDSA P-256 public key, SPKI, base64url. */
+    signingKey: string;
+}
+
+/** One of the client's balances a request could be paid from, and what it would cost. */
+export interface FundingOption {
+    balance: Money;
+    /** Taken from this balance to pay the request. */
+    cost: Money;
+    /** How the balance would be converted, when it is not in the request's currency. */
+    conversion?: CurrencyConversion;
+    sufficient: boolean;
+}
+
+export interface VerifiedPaymentCodeResponse {
+    request: PaymentRequest;
+    merchant: MerchantProfile;
+    /** The client's balances that can pay the request, the request's currency first. */
+    funding: FundingOption[];
+}
+
+export interface PaymentRequestListResponse {
+    /** The signed-in merchant's requests, newest first. */
+    requests: PaymentRequest[];
+}
+
+export interface MerchantDirectoryResponse {
+    merchants: Pick<PublicUser, 'id' | 'name' | 'userType' | 'merchantName'>[];
+}
+
+export interface TemplateVersionReportResponse {
+    versions: TemplateVersionCount[];
+}
+
+/** Body of every non-2xx response; `error` is user-facing. */
+export interface ApiErrorResponse {
+    error: string;
+}
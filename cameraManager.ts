@@ -0,0 +1,182 @@
+// --- CAMERA MANAGER ---
+//
+// Chooses and opens the physical camera behind the webcam frame source. Cameras are listed
+// with their labels, picked by the user (remembered in localStorage) or by terminal config
+// (e.g. a kiosk's near-infrared iris camera), opened at the highest resolution that still
+// keeps tracking real-time, and tuned for continuous focus and, when asked, the torch.
+// `watchCameras` reports plug and unplug events so a session can move to another camera
+// without a reload.
+
+/** A video input as the browser reports it. */
+export interface CameraDevice {
+    deviceId: string;
+    /** Empty until the user has granted camera permission once. */
+    label: string;
+    /** Guessed from the label; NIR iris cameras usually say so in their name. */
+    infrared: boolean;
+}
+
+export interface CameraPreferences {
+    /** Explicitly chosen or remembered device. */
+    deviceId: string | null;
+    /** Label of that device; device ids can change between sessions, labels rarely do. */
+    label: string | null;
+    /** Terminal config: use the first camera whose label matches. */
+    labelPattern: RegExp | null;
+    /** Prefer a near-infrared camera over visible-light ones when no device was chosen. */
+    preferInfrared: boolean;
+    /** Keep the camera's torch (or IR illuminator) on while capturing. */
+    torch: boolean;
+}
+
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = {
+    deviceId: null,
+    label: null,
+    labelPattern: null,
+    preferInfrared: false,
+    torch: false,
+};
+
+/**
+ * Per-terminal defaults from the build environment: `VITE_CAMERA_LABEL` (a regular
+ * expression matched against camera labels), `VITE_CAMERA_PREFER_INFRARED` and
+ * `VITE_CAMERA_TORCH` (`true` to enable).
+ */
+export const TERMINAL_CAMERA_CONFIG: Partial<CameraPreferences> = (env => ({
+    labelPattern: env.VITE_CAMERA_LABEL ? new RegExp(env.VITE_CAMERA_LABEL, 'i') : null,
+    preferInfrared: env.VITE_CAMERA_PREFER_INFRARED === 'true',
+    torch: env.VITE_CAMERA_TORCH === 'true',
+    // `import.meta.env` only exists under Vite; the Node tools load this module without it.
+}))(import.meta.env ?? {});
+
+// Largest frame requested. Iris texture needs pixels, but face tracking and frame reads run on
+// every frame, so anything above 1440p costs more than it gains.
+const MAX_CAPTURE_WIDTH = 2560;
+const MAX_CAPTURE_HEIGHT = 1440;
+const INFRARED_LABEL = /\b(ir|nir|infra-?red|near[- ]?ir)\b/i;
+const STORAGE_KEY = 'irispay.camera';
+
+// Image-capture constraints Chromium supports but lib.dom does not declare yet.
+interface ExtendedCapabilities extends MediaTrackCapabilities {
+    focusMode?: string[];
+    torch?: boolean;
+}
+
+interface ExtendedConstraintSet extends MediaTrackConstraintSet {
+    focusMode?: string;
+    torch?: boolean;
+}
+
+const mediaDevices = (): MediaDevices | null =>
+    typeof navigator !== 'undefined' && navigator.mediaDevices ? navigator.mediaDevices : null;
+
+/** Video inputs currently attached, in the browser's order. */
+export const listCameras = async (): Promise<CameraDevice[]> => {
+    const devices = mediaDevices();
+    if (!devices?.enumerateDevices) return [];
+    return (await devices.enumerateDevices())
+        .filter(d => d.kind === 'videoinput')
+        .map(d => ({ deviceId: d.deviceId, label: d.label, infrared: INFRARED_LABEL.test(d.label) }));
+};
+
+/** The camera the user picked last time on this browser, if any. */
+export const loadCameraChoice = (): Pick<CameraPreferences, 'deviceId' | 'label'> | null => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        return saved && typeof saved.deviceId === 'string' ? { deviceId: saved.deviceId, label: saved.label ?? null } : null;
+    } catch {
+        return null;
+    }
+};
+
+/** Remembers `device` as this browser's camera. */
+export const saveCameraChoice = (device: CameraDevice) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ deviceId: device.deviceId, label: device.label || null }));
+    } catch {
+        // Storage disabled (private mode, kiosk lockdown): the choice just lasts for this session.
+    }
+};
+
+/**
+ * How well `device` matches `preferences`: 4 for the chosen device id, 3 for its label, 2 for
+ * the terminal label pattern, 1 for an infrared camera when preferred, 0 otherwise.
+ */
+export const cameraRank = (device: CameraDevice, preferences: Partial<CameraPreferences> = {}): number => {
+    const { deviceId, label, labelPattern, preferInfrared } = { ...DEFAULT_CAMERA_PREFERENCES, ...preferences };
+    if (deviceId && device.deviceId === deviceId) return 4;
+    if (label && device.label === label) return 3;
+    if (labelPattern?.test(device.label)) return 2;
+    if (preferInfrared && device.infrared) return 1;
+    return 0;
+};
+
+/** The best-ranked camera in `devices`, the earliest one on ties, or null when there is none. */
+export const chooseCamera = (devices: CameraDevice[], preferences: Partial<CameraPreferences> = {}): CameraDevice | null =>
+    devices.reduce<CameraDevice | null>((best, d) => (!best || cameraRank(d, preferences) > cameraRank(best, preferences) ? d : best), null);
+
+/** Switches the torch of `track` on or off. Resolves false when the camera has none. */
+export const setTorch = async (track: MediaStreamTrack, on: boolean): Promise<boolean> => {
+    const capabilities = (track.getCapabilities?.() ?? {}) as ExtendedCapabilities;
+    if (!capabilities.torch) return false;
+    try {
+        await track.applyConstraints({ advanced: [{ torch: on } as ExtendedConstraintSet] });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Raises `track` to its largest resolution within the capture limit and turns on continuous
+ * focus. Each setting is applied on its own so one the camera rejects does not undo the others.
+ */
+const tuneTrack = async (track: MediaStreamTrack, torch: boolean) => {
+    const capabilities = (track.getCapabilities?.() ?? {}) as ExtendedCapabilities;
+    const attempts: ExtendedConstraintSet[] = [];
+    if (capabilities.width?.max && capabilities.height?.max) {
+        attempts.push({
+            width: Math.min(capabilities.width.max, MAX_CAPTURE_WIDTH),
+            height: Math.min(capabilities.height.max, MAX_CAPTURE_HEIGHT),
+        });
+    }
+    if (capabilities.focusMode?.includes('continuous')) attempts.push({ focusMode: 'continuous' });
+    for (const constraints of attempts) {
+        try {
+            await track.applyConstraints({ advanced: [constraints] });
+        } catch {
+            // Keep whatever the camera negotiated.
+        }
+    }
+    if (torch) await setTorch(track, true);
+};
+
+/**
+ * Opens `device` (or the front camera when null or not yet identified) at the best usable
+ * settings. Rejects with the browser's error, e.g. `NotAllowedError` when permission is denied.
+ */
+export const openCamera = async (device: CameraDevice | null, torch = false): Promise<MediaStream> => {
+    const devices = mediaDevices();
+    if (!devices?.getUserMedia) throw new DOMException('No camera API in this browser.', 'NotFoundError');
+    const stream = await devices.getUserMedia({
+        video: {
+            ...(device?.deviceId ? { deviceId: { exact: device.deviceId } } : { facingMode: 'user' }),
+            width: { ideal: MAX_CAPTURE_WIDTH },
+            height: { ideal: MAX_CAPTURE_HEIGHT },
+        },
+    });
+    const [track] = stream.getVideoTracks();
+    if (track) await tuneTrack(track, torch);
+    return stream;
+};
+
+/** Calls `onChange` with the new camera list whenever a camera is plugged in or removed. Returns an unsubscribe function. */
+export const watchCameras = (onChange: (cameras: CameraDevice[]) => void): (() => void) => {
+    const devices = mediaDevices();
+    if (!devices?.addEventListener) return () => {};
+    const handle = () => {
+        listCameras().then(onChange).catch(err => console.error("Camera list unavailable:", err));
+    };
+    devices.addEventListener('devicechange', handle);
+    return () => devices.removeEventListener('devicechange', handle);
+};
@@ -0,0 +1,132 @@
+// --- CAPTURE ENGINE ---
+//
+// One capture attempt, independent of where frames come from and of any UI: score a short
+// burst of frames, keep the best one that passes the quality gate, run the liveness session
+// on the frames that follow, and hand back the template. The UI supplies a `FrameSource` and
+// optional hooks for prompts and the light stimulus. Raw pixels never leave: the result holds
+// the template and a redacted thumbnail, and every frame read is wiped before returning.
+
+import { encodeIrisAs, extractIrisTemplate, toGrayImage, IrisExtractionError, TEMPLATE_ALGORITHMS } from './irisTemplate.ts';
+import type { GrayImage, IrisExtraction, IrisTemplate, RgbaPixels } from './irisTemplate.ts';
+import { redactIrisThumbnail, discardPixels } from './irisPrivacy.ts';
+import { assessCaptureQuality } from './captureQuality.ts';
+import type { QualityReport } from './captureQuality.ts';
+import { runLivenessCheck, SIMULATED_LIVENESS } from './liveness.ts';
+import type { LivenessChallenge, LivenessVerdict } from './liveness.ts';
+import type { EyeRegion } from './eyeLocator.ts';
+import type { FrameSource } from './frameSource.ts';
+
+/** Tunables and UI hooks for `captureIris`. */
+export interface CaptureOptions {
+    /** Eye square to crop every frame to; null processes whole frames. */
+    region: EyeRegion | null;
+    /** Frames scored per attempt, and the spacing between them. */
+    candidateFrames: number;
+    candidateIntervalMs: number;
+    /** Shows an instruction to the person during the liveness session (null clears it). */
+    prompt: (message: string | null) => void;
+    /** Turns the UI's full-screen light stimulus on or off. */
+    setFlash: (on: boolean) => void;
+    /** Forces a liveness challenge instead of picking one at random. */
+    challenge?: LivenessChallenge;
+    /** Skips the liveness session, e.g. for offline evaluation; the verdict is marked simulated. */
+    skipLiveness: boolean;
+}
+
+export const DEFAULT_CAPTURE_OPTIONS: CaptureOptions = {
+    region: null,
+    candidateFrames: 4,
+    candidateIntervalMs: 120,
+    prompt: () => {},
+    setFlash: () => {},
+    skipLiveness: false,
+};
+
+/** What a capture releases: the template, a redacted thumbnail and the checks it passed. No raw pixels. */
+export interface CaptureResult {
+    template: IrisTemplate;
+    /**
+     * The same frame encoded under every algorithm version in `TEMPLATE_ALGORITHMS`, `template`
+     * first, for comparison with references stored under older versions.
+     */
+    probes: IrisTemplate[];
+    /** The accepted frame cropped to the iris, with everything around it blacked out. */
+    thumbnail: RgbaPixels;
+    quality: QualityReport;
+    liveness: LivenessVerdict;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs one capture attempt on `source`. Throws `IrisExtractionError` with a user-facing reason
+ * when no frame in the burst is usable; a failed liveness session is reported in the result.
+ */
+export const captureIris = async (source: FrameSource, options: Partial<CaptureOptions> = {}): Promise<CaptureResult> => {
+    const { region, candidateFrames, candidateIntervalMs, prompt, setFlash, challenge, skipLiveness } = { ...DEFAULT_CAPTURE_OPTIONS, ...options };
+
+    // Every raw buffer read during this attempt, wiped once it is over, whatever the outcome.
+    const held: (Uint8ClampedArray | Uint8Array | Float32Array)[] = [];
+    const grab = (): { pixels: RgbaPixels; image: GrayImage } | null => {
+        const pixels = source.readFrame(region);
+        if (!pixels) return null;
+        const image = toGrayImage(pixels);
+        held.push(pixels.data, image.data);
+        return { pixels, image };
+    };
+
+    try {
+        // Score a short burst of frames and keep the best one that passes the quality gate.
+        let best: { pixels: RgbaPixels; image: GrayImage; extraction: IrisExtraction; quality: QualityReport } | null = null;
+        let rejection = "No usable frame captured. Please try again.";
+        for (let i = 0; i < candidateFrames; i++) {
+            // Also lets a UI paint its 'capturing' state before the CPU-bound extraction runs.
+            await wait(candidateIntervalMs);
+
+            const frame = grab();
+            if (!frame) throw new IrisExtractionError("No video frame available yet.");
+            try {
+                const extraction = extractIrisTemplate(frame.image);
+                held.push(extraction.strip.values);
+                const quality = assessCaptureQuality(frame.image, extraction);
+                if (quality.reason) {
+                    rejection = quality.reason;
+                } else if (!best || quality.score > best.quality.score) {
+                    best = { ...frame, extraction, quality };
+                }
+            } catch (e) {
+                if (!(e instanceof IrisExtractionError)) throw e;
+                rejection = e.message;
+            }
+        }
+
+        if (!best) throw new IrisExtractionError(rejection);
+
+        // Presentation-attack check before the template is released. The source hears about the
+        // flash too, so a simulated eye can respond to it.
+        const liveness = skipLiveness
+            ? SIMULATED_LIVENESS
+            : await runLivenessCheck(
+                {
+                    grabFrame: () => grab()?.image ?? null,
+                    setFlash: on => {
+                        setFlash(on);
+                        source.setFlash?.(on);
+                    },
+                    prompt,
+                },
+                best,
+                challenge,
+            );
+
+        const { pixels, image, extraction, quality } = best;
+        const probes = [
+            extraction.template,
+            ...TEMPLATE_ALGORITHMS.filter(a => a.version !== extraction.template.version).map(a => encodeIrisAs(image, extraction.segmentation, a)),
+        ];
+        const thumbnail = redactIrisThumbnail(pixels, extraction.segmentation);
+        return { template: extraction.template, probes, thumbnail, quality, liveness };
+    } finally {
+        discardPixels(held);
+    }
+};
@@ -0,0 +1,139 @@
+// --- CAPTURE QUALITY ASSESSMENT ---
+//
+// Scores a candidate frame before its template is accepted, so blurry, half-closed or
+// glare-covered eyes are turned away with a concrete instruction instead of being enrolled
+// or falsely rejected later.
+
+import { GLARE_LEVEL } from './irisTemplate.ts';
+import type { GrayImage, IrisExtraction } from './irisTemplate.ts';
+
+/** The first problem found with a frame, in the order they are checked. */
+export type QualityIssue = 'too-far' | 'too-close' | 'off-axis' | 'blurry' | 'occluded' | 'glare';
+
+/** Per-frame quality measurements. */
+export interface QualityReport {
+    /** Variance of the Laplacian over the iris region; higher is sharper. */
+    sharpness: number;
+    /** Fraction of the unwrapped iris hidden by eyelids or lashes (0..1). */
+    occlusion: number;
+    /** Fraction of iris pixels saturated by specular reflections (0..1). */
+    glare: number;
+    /** Limbus diameter in image pixels. */
+    irisDiameter: number;
+    /** Pupil centre offset from the iris centre, relative to the iris radius (0 = looking straight on). */
+    gazeOffset: number;
+    /** Overall 0..1 score, used to pick the best of several acceptable frames. */
+    score: number;
+    issue: QualityIssue | null;
+    /** User-facing instruction for `issue`, or null when the frame is acceptable. */
+    reason: string | null;
+}
+
+/** Accept limits for `assessCaptureQuality`. */
+export interface QualityThresholds {
+    minSharpness: number;
+    maxOcclusion: number;
+    maxGlare: number;
+    minIrisDiameter: number;
+    /** Largest iris diameter as a fraction of the shorter image side. */
+    maxIrisFill: number;
+    maxGazeOffset: number;
+}
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+    minSharpness: 25,
+    maxOcclusion: 0.45,
+    maxGlare: 0.08,
+    minIrisDiameter: 100,
+    maxIrisFill: 0.95,
+    maxGazeOffset: 0.22,
+};
+
+export const QUALITY_MESSAGES: Record<QualityIssue, string> = {
+    'too-far': 'Move closer to the camera.',
+    'too-close': 'Move back a little so your whole eye is visible.',
+    'off-axis': 'Look straight into the camera.',
+    'blurry': 'Hold still, the image is out of focus.',
+    'occluded': 'Open your eye wider.',
+    'glare': 'Too much glare. Tilt away from bright lights or remove glasses.',
+};
+
+/** Variance of the 4-neighbour Laplacian inside the iris bounding box. */
+const laplacianVariance = (image: GrayImage, extraction: IrisExtraction): number => {
+    const { iris } = extraction.segmentation;
+    const x0 = Math.max(1, Math.floor(iris.x - iris.r));
+    const x1 = Math.min(image.width - 2, Math.ceil(iris.x + iris.r));
+    const y0 = Math.max(1, Math.floor(iris.y - iris.r));
+    const y1 = Math.min(image.height - 2, Math.ceil(iris.y + iris.r));
+    const { width, data } = image;
+    let sum = 0;
+    let sumSq = 0;
+    let n = 0;
+    for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+            const i = y * width + x;
+            const lap = data[i - 1] + data[i + 1] + data[i - width] + data[i + width] - 4 * data[i];
+            sum += lap;
+            sumSq += lap * lap;
+            n++;
+        }
+    }
+    if (n === 0) return 0;
+    const mean = sum / n;
+    return sumSq / n - mean * mean;
+};
+
+/** Share of pixels in the pupil-to-limbus annulus at or above the glare level. */
+const glareFraction = (image: GrayImage, extraction: IrisExtraction): number => {
+    const { pupil, iris } = extraction.segmentation;
+    let bright = 0;
+    let n = 0;
+    for (let y = Math.max(0, Math.floor(iris.y - iris.r)); y <= Math.min(image.height - 1, iris.y + iris.r); y++) {
+        for (let x = Math.max(0, Math.floor(iris.x - iris.r)); x <= Math.min(image.width - 1, iris.x + iris.r); x++) {
+            if (Math.hypot(x - iris.x, y - iris.y) > iris.r || Math.hypot(x - pupil.x, y - pupil.y) < pupil.r) continue;
+            n++;
+            if (image.data[y * image.width + x] >= GLARE_LEVEL) bright++;
+        }
+    }
+    return n > 0 ? bright / n : 0;
+};
+
+/** Fraction of normalized samples masked out for reasons other than glare (eyelids, lashes, frame edge). */
+const occlusionFraction = (extraction: IrisExtraction): number => {
+    const { values, valid } = extraction.strip;
+    let hidden = 0;
+    for (let i = 0; i < valid.length; i++) {
+        if (!valid[i] && values[i] < GLARE_LEVEL) hidden++;
+    }
+    return hidden / valid.length;
+};
+
+/** Measures one segmented frame against the thresholds and reports the first failing check. */
+export const assessCaptureQuality = (
+    image: GrayImage,
+    extraction: IrisExtraction,
+    thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS,
+): QualityReport => {
+    const { pupil, iris } = extraction.segmentation;
+    const irisDiameter = iris.r * 2;
+    const gazeOffset = Math.hypot(pupil.x - iris.x, pupil.y - iris.y) / iris.r;
+    const sharpness = laplacianVariance(image, extraction);
+    const occlusion = occlusionFraction(extraction);
+    const glare = glareFraction(image, extraction);
+
+    let issue: QualityIssue | null = null;
+    if (irisDiameter < thresholds.minIrisDiameter) issue = 'too-far';
+    else if (irisDiameter > Math.min(image.width, image.height) * thresholds.maxIrisFill) issue = 'too-close';
+    else if (gazeOffset > thresholds.maxGazeOffset) issue = 'off-axis';
+    else if (sharpness < thresholds.minSharpness) issue = 'blurry';
+    else if (occlusion > thresholds.maxOcclusion) issue = 'occluded';
+    else if (glare > thresholds.maxGlare) issue = 'glare';
+
+    const score =
+        Math.min(1, sharpness / (thresholds.minSharpness * 4)) * 0.4 +
+        (1 - Math.min(1, occlusion / thresholds.maxOcclusion)) * 0.3 +
+        (1 - Math.min(1, glare / thresholds.maxGlare)) * 0.15 +
+        (1 - Math.min(1, gazeOffset / thresholds.maxGazeOffset)) * 0.15;
+
+    return { sharpness, occlusion, glare, irisDiameter, gazeOffset, score, issue, reason: issue ? QUALITY_MESSAGES[issue] : null };
+};
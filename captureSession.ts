@@ -0,0 +1,350 @@
+// --- CAPTURE SESSION ---
+//
+// The capture lifecycle as one typed state machine, shared by the capture UI and the page that
+// acts on its result:
+//
+//   initializing -> aligning -> capturing -> processing -> verified
+//                      ^           |            |
+//                      |           v            v
+//                      +------ rejected ---> locked (too many failed attempts)
+//
+// The UI attaches a frame source and triggers captures; the page subscribes to the event stream,
+// acts on each captured template and answers with `verify()` or `reject()`. Each state can have
+// a timeout, failed attempts count towards a temporary lockout, and the source can be restarted
+// in place without touching the rest of the app.
+
+import { IrisExtractionError } from './irisTemplate.ts';
+import { captureIris } from './captureEngine.ts';
+import type { CaptureOptions, CaptureResult } from './captureEngine.ts';
+import { FrameSourceError } from './frameSource.ts';
+import type { FrameSource } from './frameSource.ts';
+import type { EyeRegion } from './eyeLocator.ts';
+import type { EyeSide } from './dualEye.ts';
+
+export type CaptureState = 'initializing' | 'aligning' | 'capturing' | 'processing' | 'verified' | 'rejected' | 'locked';
+
+/** Everything a UI needs to render the session; replaced (never mutated) on every change. */
+export interface CaptureSnapshot {
+    state: CaptureState;
+    /** Failed attempts since the last lockout. */
+    failedAttempts: number;
+    maxAttempts: number;
+    /** Why the session was rejected or locked; null in every other state. */
+    reason: string | null;
+    /** When the lockout ends (ms since epoch); null unless locked. */
+    lockedUntil: number | null;
+    /** The eye the person is asked to present; null when either eye will do. */
+    eye: EyeSide | null;
+}
+
+export type CaptureEvent =
+    | { type: 'state'; from: CaptureState; snapshot: CaptureSnapshot }
+    /**
+     * A live capture passed the quality gate and liveness; the page must now verify or reject it.
+     * `eye` is the side the eye locator found, else the side that was asked for.
+     */
+    | { type: 'captured'; result: CaptureResult; eye: EyeSide | null }
+    /** The attached source could not start (or did not start in time). */
+    | { type: 'source-failed'; source: FrameSource; error: unknown }
+    /** Liveness instruction for the person; null clears it. */
+    | { type: 'prompt'; message: string | null }
+    /** Full-screen light stimulus on or off. */
+    | { type: 'flash'; on: boolean }
+    /** The user started over; pages drop any partial progress (e.g. enrollment samples). */
+    | { type: 'reset' };
+
+export interface CaptureSessionOptions {
+    /** Failed attempts allowed before the session locks. */
+    maxAttempts: number;
+    /**
+     * How long each state may last, in milliseconds (null = no limit). The `locked` entry is the
+     * lockout length, after which the attempt count starts over.
+     */
+    timeouts: Record<CaptureState, number | null>;
+    /** Passed through to `captureIris`, e.g. a fixed liveness challenge. */
+    capture: Partial<Omit<CaptureOptions, 'region' | 'prompt' | 'setFlash'>>;
+}
+
+export const DEFAULT_CAPTURE_SESSION_OPTIONS: CaptureSessionOptions = {
+    maxAttempts: 3,
+    timeouts: {
+        // Long enough for the person to answer the browser's camera permission prompt.
+        initializing: 30_000,
+        aligning: 120_000,
+        capturing: 20_000,
+        processing: 15_000,
+        verified: null,
+        rejected: null,
+        locked: 30_000,
+    },
+    capture: {},
+};
+
+const TRANSITIONS: Record<CaptureState, CaptureState[]> = {
+    initializing: ['aligning', 'rejected'],
+    aligning: ['initializing', 'capturing', 'rejected'],
+    capturing: ['initializing', 'processing', 'rejected', 'locked'],
+    processing: ['initializing', 'aligning', 'verified', 'rejected', 'locked'],
+    verified: ['initializing', 'aligning'],
+    rejected: ['initializing', 'aligning'],
+    locked: ['initializing', 'aligning'],
+};
+
+/** Thrown on a transition the lifecycle does not allow; indicates a bug, not a user error. */
+export class CaptureSessionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CaptureSessionError';
+    }
+}
+
+/**
+ * One capture lifecycle. Methods that only make sense in a particular state (`capture`,
+ * `verify`, `reject`, ...) return false and do nothing when called in another one, so late
+ * answers after a timeout or a double click are harmless.
+ */
+export class CaptureSession {
+    private readonly options: CaptureSessionOptions;
+    private readonly listeners = new Set<(event: CaptureEvent) => void>();
+    private current: CaptureSnapshot;
+    private source: FrameSource | null = null;
+    private sourceReady = false;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private flashOn = false;
+    // Bumped whenever a pending source start or capture has to be ignored when it settles.
+    private sourceToken = 0;
+    private captureToken = 0;
+
+    constructor(options: Partial<CaptureSessionOptions> = {}) {
+        this.options = {
+            ...DEFAULT_CAPTURE_SESSION_OPTIONS,
+            ...options,
+            timeouts: { ...DEFAULT_CAPTURE_SESSION_OPTIONS.timeouts, ...options.timeouts },
+        };
+        this.current = { state: 'initializing', failedAttempts: 0, maxAttempts: this.options.maxAttempts, reason: null, lockedUntil: null, eye: null };
+    }
+
+    get snapshot(): CaptureSnapshot {
+        return this.current;
+    }
+
+    /** Receives every event until the returned function is called. */
+    subscribe(listener: (event: CaptureEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /** Stops the previous source, if any, and starts `source`. */
+    attachSource(source: FrameSource): void {
+        if (this.source && this.source !== source) this.source.stop();
+        this.source = source;
+        void this.startSource();
+    }
+
+    /** Stops the source and any pending capture; the session waits for the next source. */
+    detachSource(): void {
+        this.sourceToken++;
+        this.captureToken++;
+        this.source?.stop();
+        this.source = null;
+        this.sourceReady = false;
+        if (this.current.state !== 'locked' && this.current.state !== 'initializing') this.enter('initializing');
+    }
+
+    /** Stops and restarts the current source, e.g. to recover a camera, without reloading the page. */
+    restart(): boolean {
+        if (!this.source || this.current.state === 'capturing' || this.current.state === 'processing') return false;
+        this.sourceToken++;
+        this.source.stop();
+        void this.startSource();
+        return true;
+    }
+
+    /** Asks for `eye` (null = either eye) from the next capture on; the UI guides the person accordingly. */
+    requestEye(eye: EyeSide | null): void {
+        if (this.current.eye === eye) return;
+        this.current = { ...this.current, eye };
+        this.emit({ type: 'state', from: this.current.state, snapshot: this.current });
+    }
+
+    /** Runs a capture on the current source, cropped to `region` when given. Only while aligning. */
+    async capture(region: EyeRegion | null = null): Promise<boolean> {
+        const source = this.source;
+        if (this.current.state !== 'aligning' || !source) return false;
+        const token = ++this.captureToken;
+        const active = () => token === this.captureToken && this.current.state === 'capturing';
+        this.enter('capturing');
+
+        let result: CaptureResult;
+        try {
+            result = await captureIris(source, {
+                ...this.options.capture,
+                region,
+                prompt: message => {
+                    if (active()) this.emit({ type: 'prompt', message });
+                },
+                setFlash: on => {
+                    if (active()) this.setFlash(on);
+                },
+            });
+        } catch (e) {
+            if (active()) this.fail(e instanceof IrisExtractionError ? e.message : "Iris template extraction failed.", true);
+            return false;
+        }
+        if (!active()) return false;
+        if (!result.liveness.live) {
+            this.fail(result.liveness.reason || "Liveness check failed. Please rescan.", true);
+            return false;
+        }
+        this.enter('processing');
+        this.emit({ type: 'captured', result, eye: region?.side ?? this.current.eye });
+        return true;
+    }
+
+    /** Accepts the capture being processed. */
+    verify(): boolean {
+        if (this.current.state !== 'processing') return false;
+        this.enter('verified');
+        return true;
+    }
+
+    /**
+     * Rejects the capture being processed with a user-facing `reason`. `countsAsAttempt` is false
+     * for failures that say nothing about the person (missing payment details, service errors),
+     * so they do not bring the lockout closer.
+     */
+    reject(reason: string, countsAsAttempt = true): boolean {
+        if (this.current.state !== 'processing') return false;
+        this.fail(reason, countsAsAttempt);
+        return true;
+    }
+
+    /** Goes back to aligning for another capture, e.g. the next enrollment sample or a retry. */
+    recapture(): boolean {
+        const { state } = this.current;
+        if (state !== 'processing' && state !== 'verified' && state !== 'rejected') return false;
+        this.resume();
+        return true;
+    }
+
+    /** Starts over: pages drop partial progress. Failed attempts are kept, so this cannot skip a lockout. */
+    reset(): boolean {
+        if (this.current.state === 'locked' || this.current.state === 'capturing') return false;
+        this.captureToken++;
+        this.emit({ type: 'reset' });
+        if (this.current.state !== 'initializing' && this.current.state !== 'aligning') this.resume();
+        return true;
+    }
+
+    private async startSource(): Promise<void> {
+        const source = this.source;
+        if (!source) return;
+        const token = ++this.sourceToken;
+        this.sourceReady = false;
+        if (this.current.state !== 'locked' && this.current.state !== 'initializing') this.enter('initializing');
+        else if (this.current.state === 'initializing') this.armTimer('initializing');
+        try {
+            await source.start();
+        } catch (error) {
+            if (token === this.sourceToken) this.sourceFailed(source, error);
+            return;
+        }
+        if (token !== this.sourceToken) return;
+        this.sourceReady = true;
+        if (this.current.state === 'initializing') this.enter('aligning');
+    }
+
+    private sourceFailed(source: FrameSource, error: unknown) {
+        this.sourceToken++;
+        source.stop();
+        if (this.current.state !== 'locked') {
+            this.enter('rejected', error instanceof FrameSourceError ? error.message : "The selected source could not be started.");
+        }
+        this.emit({ type: 'source-failed', source, error });
+    }
+
+    /** Back to aligning when the source is running, otherwise restart it first. */
+    private resume() {
+        if (this.sourceReady) {
+            this.enter('aligning');
+            return;
+        }
+        this.enter('initializing');
+        void this.startSource();
+    }
+
+    private fail(reason: string, countsAsAttempt: boolean) {
+        const failedAttempts = this.current.failedAttempts + (countsAsAttempt ? 1 : 0);
+        this.current = { ...this.current, failedAttempts };
+        if (failedAttempts >= this.options.maxAttempts) {
+            const lockout = this.options.timeouts.locked;
+            this.enter('locked', lockout
+                ? `Too many failed attempts. Try again in ${Math.ceil(lockout / 1000)} seconds.`
+                : "Too many failed attempts.");
+        } else {
+            this.enter('rejected', reason);
+        }
+    }
+
+    private timedOut(state: CaptureState) {
+        switch (state) {
+            case 'initializing':
+                if (this.source) this.sourceFailed(this.source, new FrameSourceError('unavailable', "The camera did not start in time."));
+                break;
+            case 'aligning':
+                this.enter('rejected', "No eye was captured in time. Try again when you are ready.");
+                break;
+            case 'capturing':
+                this.captureToken++;
+                this.fail("Capture timed out. Please try again.", true);
+                break;
+            case 'processing':
+                this.fail("Verification timed out. Please try again.", false);
+                break;
+            case 'locked':
+                this.current = { ...this.current, failedAttempts: 0 };
+                this.resume();
+                break;
+        }
+    }
+
+    private setFlash(on: boolean) {
+        if (on === this.flashOn) return;
+        this.flashOn = on;
+        this.emit({ type: 'flash', on });
+    }
+
+    private armTimer(state: CaptureState) {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        const timeout = this.options.timeouts[state];
+        if (timeout !== null) this.timer = setTimeout(() => this.timedOut(state), timeout);
+    }
+
+    private enter(state: CaptureState, reason: string | null = null) {
+        const from = this.current.state;
+        if (from !== state && !TRANSITIONS[from].includes(state)) {
+            throw new CaptureSessionError(`Invalid capture transition ${from} -> ${state}.`);
+        }
+        if (from === 'capturing' && state !== 'capturing') {
+            // A capture cut short must not leave the light stimulus or an instruction behind.
+            this.setFlash(false);
+            this.emit({ type: 'prompt', message: null });
+        }
+        const lockout = this.options.timeouts.locked;
+        this.current = {
+            ...this.current,
+            state,
+            reason: state === 'rejected' || state === 'locked' ? reason : null,
+            lockedUntil: state === 'locked' && lockout !== null ? Date.now() + lockout : null,
+        };
+        this.armTimer(state);
+        this.emit({ type: 'state', from, snapshot: this.current });
+    }
+
+    private emit(event: CaptureEvent) {
+        for (const listener of [...this.listeners]) listener(event);
+    }
+}
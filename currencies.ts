@@ -0,0 +1,27 @@
+// --- CURRENCIES ---
+//
+// The currencies wallets can hold, with their ISO 4217 minor units: how many decimals an amount
+// in the currency may have (two for the dollar, none for the yen), which is the unit a `Money`
+// counts in and rounds to (money.ts). Shared by the app and the server, so amounts are
+// validated, compared and shown the same way on both sides.
+
+/** ISO 4217 minor-unit digits of every supported currency. */
+const MINOR_UNITS = {
+    USD: 2,
+    EUR: 2,
+    GBP: 2,
+    CHF: 2,
+    JPY: 0,
+} as const;
+
+export type CurrencyCode = keyof typeof MINOR_UNITS;
+
+export const SUPPORTED_CURRENCIES = Object.keys(MINOR_UNITS) as CurrencyCode[];
+
+/** Home currency of a wallet opened without one. */
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export const isSupportedCurrency = (value: string): value is CurrencyCode => Object.prototype.hasOwnProperty.call(MINOR_UNITS, value);
+
+/** Decimals an amount in `currency` may have; two for a currency this table does not know. */
+export const minorUnits = (currency: string): number => isSupportedCurrency(currency) ? MINOR_UNITS[currency] : 2;
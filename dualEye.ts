@@ -0,0 +1,136 @@
+// --- DUAL-EYE VERIFICATION ---
+//
+// Accounts enroll the left and right iris as separate templates. Verification decides from one
+// or both of them under one of three policies:
+//   'either-eye' - whichever enrolled eye is presented must match on its own
+//   'both-eyes'  - both eyes are captured, each must match, and their distances are fused into
+//                  a single, stricter score; used for high-value payments
+//   'fallback'   - the primary eye is asked for first, and the other eye only when the first
+//                  one is occluded or cannot be captured
+// The functions here are pure: the page captures, compares each capture against the template
+// of the same side, and asks `nextVerificationStep` what to do next.
+
+import type { MatchResult } from './irisMatcher.ts';
+import { type Money, compare, fromMajor } from './money.ts';
+
+/** Which of the subject's eyes a template or region belongs to. */
+export type EyeSide = 'left' | 'right';
+
+export type VerificationPolicy = 'either-eye' | 'both-eyes' | 'fallback';
+
+export const EYE_SIDES: EyeSide[] = ['left', 'right'];
+
+export const otherEye = (side: EyeSide): EyeSide => (side === 'left' ? 'right' : 'left');
+
+/** One capture compared against the enrolled template of the same eye. */
+export interface EyeComparison {
+    side: EyeSide;
+    result: MatchResult;
+}
+
+/** Tunables for dual-eye decisions. */
+export interface DualEyeOptions {
+    /** Eye requested first under 'both-eyes' and 'fallback'. */
+    primaryEye: EyeSide;
+    /**
+     * Accept threshold for the fused distance of both eyes. Averaging two independent
+     * comparisons narrows both distributions, so it can sit below the single-eye threshold.
+     */
+    fusedThreshold: number;
+    /**
+     * Payments of at least this amount, in major units of their currency, require both eyes; one
+     * threshold per currency, of roughly the same value. A currency without one always does.
+     */
+    highValueAmounts: Partial<Record<string, number>>;
+}
+
+export const DEFAULT_DUAL_EYE_OPTIONS: DualEyeOptions = {
+    primaryEye: 'left',
+    fusedThreshold: 0.3,
+    highValueAmounts: { USD: 50, EUR: 50, GBP: 40, CHF: 45, JPY: 7_500 },
+};
+
+export type VerificationStep =
+    | { status: 'accepted'; distance: number }
+    | { status: 'rejected'; distance: number; reason: string }
+    /** Capture `eye` next; `reason` tells the person why. */
+    | { status: 'next-eye'; eye: EyeSide; reason: string };
+
+/** True when too little of the iris was visible to compare at all (lids, lashes, glare). */
+export const isOccluded = (result: MatchResult): boolean => result.overlapBits === 0;
+
+/**
+ * Policy for a payment of `amount`: both eyes for high-value payments, judged by the threshold
+ * of its own currency, and the fallback flow otherwise.
+ */
+export const policyForAmount = (amount: Money, options: Partial<DualEyeOptions> = {}): VerificationPolicy => {
+    const threshold = { ...DEFAULT_DUAL_EYE_OPTIONS, ...options }.highValueAmounts[amount.currency];
+    if (threshold === undefined) return 'both-eyes';
+    return compare(amount, fromMajor(threshold, amount.currency)) >= 0 ? 'both-eyes' : 'fallback';
+};
+
+/**
+ * The eye to ask for first, or null for "either eye". `enrolled` lists the sides the account
+ * has templates for.
+ */
+export const firstEyeFor = (policy: VerificationPolicy, enrolled: EyeSide[], options: Partial<DualEyeOptions> = {}): EyeSide | null => {
+    const { primaryEye } = { ...DEFAULT_DUAL_EYE_OPTIONS, ...options };
+    if (policy === 'either-eye' || enrolled.length === 0) return null;
+    return enrolled.includes(primaryEye) ? primaryEye : enrolled[0];
+};
+
+/**
+ * Score fusion: the mean of the per-eye distances weighted by how many bits each comparison
+ * used, so a partly occluded eye counts for less.
+ */
+export const fuseEyeDistances = (comparisons: EyeComparison[]): number => {
+    const bits = comparisons.reduce((sum, c) => sum + c.result.overlapBits, 0);
+    if (bits === 0) return 1;
+    return comparisons.reduce((sum, c) => sum + c.result.distance * c.result.overlapBits, 0) / bits;
+};
+
+/**
+ * Decides after each compared capture. `comparisons` holds every capture of this attempt in
+ * order, the latest last. Under 'both-eyes' each eye must match on its own and their fused
+ * distance must pass the stricter threshold; an account with only one enrolled eye is verified
+ * on that eye alone.
+ */
+export const nextVerificationStep = (
+    policy: VerificationPolicy,
+    comparisons: EyeComparison[],
+    enrolled: EyeSide[],
+    options: Partial<DualEyeOptions> = {},
+): VerificationStep => {
+    const { fusedThreshold } = { ...DEFAULT_DUAL_EYE_OPTIONS, ...options };
+    const latest = comparisons[comparisons.length - 1];
+    if (!latest) throw new RangeError('A verification step needs at least one comparison.');
+    const { distance } = latest.result;
+    const tried = new Set(comparisons.map(c => c.side));
+    const untried = enrolled.find(side => !tried.has(side));
+
+    if (policy === 'both-eyes' && enrolled.length > 1) {
+        if (isOccluded(latest.result)) {
+            return { status: 'rejected', distance, reason: `Your ${latest.side} eye was covered. Open both eyes wide and rescan.` };
+        }
+        if (untried) return { status: 'next-eye', eye: untried, reason: `Now present your ${untried} eye.` };
+        const latestPerEye = EYE_SIDES.flatMap(side => comparisons.filter(c => c.side === side).slice(-1));
+        const fused = fuseEyeDistances(latestPerEye);
+        // Fusion alone would let one strong eye carry someone else's other eye.
+        const unmatched = latestPerEye.find(c => !c.result.accepted);
+        if (unmatched) {
+            return { status: 'rejected', distance: fused, reason: `Iris verification failed on your ${unmatched.side} eye (distance ${unmatched.result.distance.toFixed(2)}). Please rescan.` };
+        }
+        return fused <= fusedThreshold
+            ? { status: 'accepted', distance: fused }
+            : { status: 'rejected', distance: fused, reason: `Iris verification failed on both eyes (distance ${fused.toFixed(2)}). Please rescan.` };
+    }
+
+    if (latest.result.accepted) return { status: 'accepted', distance };
+    if (isOccluded(latest.result)) {
+        if (policy === 'fallback' && untried) {
+            return { status: 'next-eye', eye: untried, reason: `Your ${latest.side} eye was covered. Present your ${untried} eye instead.` };
+        }
+        return { status: 'rejected', distance, reason: `Your ${latest.side} eye was covered. Open your eye wide and rescan.` };
+    }
+    return { status: 'rejected', distance, reason: `Iris verification failed (distance ${distance.toFixed(2)}). Please rescan.` };
+};
@@ -0,0 +1,104 @@
+// --- MULTI-SAMPLE ENROLLMENT ---
+//
+// A single capture makes a poor lifetime reference, so enrollment collects several samples,
+// checks that they agree with each other, and stores a fused template: every sample is
+// rotated into alignment with the most central one, each bit is decided by majority vote,
+// and bits the samples disagree on ("fragile bits") are masked out.
+
+import { matchTemplates, rotateTemplate } from './irisMatcher.ts';
+import type { IrisTemplate } from './irisTemplate.ts';
+
+/** Tunables for `fuseEnrollmentSamples`. */
+export interface EnrollmentOptions {
+    /** Number of samples an enrollment session collects. */
+    requiredSamples: number;
+    /** Largest Hamming distance allowed between any sample and the most central one. */
+    maxSampleDistance: number;
+    /** A bit is kept only if at least this share of the samples that see it agree on its value. */
+    minBitAgreement: number;
+    /** Fall back to the medoid sample if fewer than this many bits survive fusion. */
+    minFusedBits: number;
+}
+
+export const DEFAULT_ENROLLMENT_OPTIONS: EnrollmentOptions = {
+    requiredSamples: 3,
+    maxSampleDistance: 0.3,
+    minBitAgreement: 0.75,
+    minFusedBits: 1024,
+};
+
+/** The reference template chosen for a new enrollment, plus how well the samples agreed. */
+export interface EnrollmentResult {
+    template: IrisTemplate;
+    /** 'fused' when the majority-vote template was kept, 'medoid' when the single most central sample was. */
+    strategy: 'fused' | 'medoid';
+    /** Mean and worst distance from each sample to the medoid. */
+    meanDistance: number;
+    maxDistance: number;
+    /** Share of bits masked out as fragile during fusion (0..1). */
+    fragileBits: number;
+}
+
+/** Thrown when enrollment samples are missing or disagree; the message is user-facing guidance. */
+export class EnrollmentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EnrollmentError';
+    }
+}
+
+/** Builds the enrollment reference from a completed set of samples. */
+export const fuseEnrollmentSamples = (samples: IrisTemplate[], options: Partial<EnrollmentOptions> = {}): EnrollmentResult => {
+    const { requiredSamples, maxSampleDistance, minBitAgreement, minFusedBits } = { ...DEFAULT_ENROLLMENT_OPTIONS, ...options };
+    if (samples.length < requiredSamples) {
+        throw new EnrollmentError(`Only ${samples.length} of ${requiredSamples} samples captured. Please keep scanning.`);
+    }
+
+    // Pairwise comparison, loose threshold: we want the distances, not a decision.
+    const pair = samples.map(a => samples.map(b => (a === b ? null : matchTemplates(a, b, { threshold: 1 }))));
+    const meanTo = samples.map((_, i) => {
+        const others = pair[i].filter((m): m is NonNullable<typeof m> => m !== null);
+        return others.reduce((sum, m) => sum + m.distance, 0) / others.length;
+    });
+    const medoid = meanTo.indexOf(Math.min(...meanTo));
+
+    const toMedoid = samples.map((_, i) => (i === medoid ? 0 : pair[i][medoid]!.distance));
+    const maxDistance = Math.max(...toMedoid);
+    const meanDistance = toMedoid.reduce((sum, d) => sum + d, 0) / (samples.length - 1);
+    if (maxDistance > maxSampleDistance) {
+        throw new EnrollmentError('Your scans did not match each other. Keep your eye open and still, look straight at the camera, and start the enrollment again.');
+    }
+
+    // Align every sample to the medoid and vote bit by bit.
+    const reference = samples[medoid];
+    const aligned = samples.map((s, i) => (i === medoid ? s : rotateTemplate(s, pair[i][medoid]!.shift)));
+    const bits = reference.code.length;
+    const code = new Uint8Array(bits);
+    const mask = new Uint8Array(bits);
+    let kept = 0;
+    let seen = 0;
+    for (let b = 0; b < bits; b++) {
+        let voters = 0;
+        let ones = 0;
+        for (const t of aligned) {
+            if (!t.mask[b]) continue;
+            voters++;
+            ones += t.code[b];
+        }
+        if (voters === 0) continue;
+        seen++;
+        const majority = ones * 2 >= voters ? 1 : 0;
+        const agreement = (majority ? ones : voters - ones) / voters;
+        code[b] = majority;
+        // Require a real majority of the session, not one lone sample, and consistent values.
+        if (voters * 2 > aligned.length && agreement >= minBitAgreement) {
+            mask[b] = 1;
+            kept++;
+        }
+    }
+
+    const fragileBits = seen > 0 ? 1 - kept / seen : 1;
+    const stats = { meanDistance, maxDistance, fragileBits };
+    if (kept < minFusedBits) return { template: reference, strategy: 'medoid', ...stats };
+    return { template: { version: reference.version, radialBins: reference.radialBins, angularBins: reference.angularBins, code, mask }, strategy: 'fused', ...stats };
+};
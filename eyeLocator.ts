@@ -0,0 +1,184 @@
+// --- EYE LOCALIZATION (face-api) ---
+//
+// Finds the eyes on the live video with face-api's tiny face detector + 68-point landmark
+// model, turns the landmarks into alignment guidance (too far, off-centre, tilted, moving)
+// and decides when an eye has been centred and steady long enough to capture on its own.
+// Only the square around the chosen eye is ever handed on for iris processing.
+
+import { DEFAULT_QUALITY_THRESHOLDS } from './captureQuality.ts';
+import { elementSize } from './frameSource.ts';
+import type { FrameElement } from './frameSource.ts';
+import type { EyeSide } from './dualEye.ts';
+
+/** Where the detector weights are served from; override with `VITE_FACE_API_MODEL_URL`. */
+const MODEL_URL: string = import.meta.env.VITE_FACE_API_MODEL_URL || 'https://cdn.jsdelivr.net/npm/@vladmandic/face-api/model/';
+
+/** A square crop around one eye, in video pixel coordinates. */
+export interface EyeRegion {
+    side: EyeSide;
+    x: number;
+    y: number;
+    size: number;
+    /** Corner-to-corner width of the eye opening, in pixels. */
+    eyeWidth: number;
+}
+
+export type AlignmentIssue = 'no-face' | 'too-far' | 'too-close' | 'off-center' | 'tilted' | 'moving';
+
+/** The detector's view of one video frame. */
+export interface EyeAlignment {
+    /** The eye chosen for capture, or null when no face was found. */
+    eye: EyeRegion | null;
+    /** Head roll from the line between the eyes, in degrees. */
+    roll: number;
+    issue: AlignmentIssue | null;
+    /** User-facing guidance for `issue`, or a go-ahead when aligned. */
+    message: string;
+    frameWidth: number;
+    frameHeight: number;
+}
+
+export const ALIGNMENT_MESSAGES: Record<AlignmentIssue, string> = {
+    'no-face': 'Looking for your eye...',
+    'too-far': 'Too far. Move closer to the camera.',
+    'too-close': 'Too close. Move back a little.',
+    'off-center': 'Move your eye into the centre of the circle.',
+    'tilted': 'Keep your head level.',
+    'moving': 'Hold still...',
+};
+
+// The iris spans roughly 40% of the corner-to-corner eye width, so this is the smallest eye
+// that can still satisfy the capture quality gate's minimum iris diameter.
+const IRIS_TO_EYE_WIDTH = 0.4;
+const MIN_EYE_WIDTH = DEFAULT_QUALITY_THRESHOLDS.minIrisDiameter / IRIS_TO_EYE_WIDTH;
+// Crop side relative to eye width: leaves room for lids and brows around the iris.
+const CROP_TO_EYE_WIDTH = 1.6;
+const MAX_CENTER_OFFSET = 0.18;
+const MAX_ROLL_DEGREES = 10;
+// Auto-capture fires after this many consecutive aligned detections that moved less than
+// `MAX_STEADY_DRIFT` (as a fraction of the eye width) between frames.
+const STEADY_FRAMES = 5;
+const MAX_STEADY_DRIFT = 0.08;
+
+type FaceApi = typeof import('@vladmandic/face-api');
+let faceApiPromise: Promise<FaceApi> | null = null;
+
+/** Loads face-api and its models once; later calls share the same promise. */
+export const loadEyeLocator = (): Promise<FaceApi> => {
+    if (!faceApiPromise) {
+        faceApiPromise = import('@vladmandic/face-api').then(async faceapi => {
+            await Promise.all([
+                faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
+                faceapi.nets.faceLandmark68TinyNet.loadFromUri(MODEL_URL),
+            ]);
+            return faceapi;
+        });
+        // Allow a retry after a failed load (e.g. offline).
+        faceApiPromise.catch(() => { faceApiPromise = null; });
+    }
+    return faceApiPromise;
+};
+
+const centreOf = (points: { x: number; y: number }[]) => ({
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+/**
+ * Detects the face in the element's current frame and reports where the eye to capture is.
+ * With no `preferredSide`, the eye nearest the frame centre is used.
+ */
+export const locateEye = async (element: FrameElement, preferredSide?: EyeSide): Promise<EyeAlignment> => {
+    const faceapi = await loadEyeLocator();
+    const { width: frameWidth, height: frameHeight } = elementSize(element);
+    const result = await faceapi
+        .detectSingleFace(element, new faceapi.TinyFaceDetectorOptions({ inputSize: 320, scoreThreshold: 0.5 }))
+        .withFaceLandmarks(true);
+    if (!result) {
+        return { eye: null, roll: 0, issue: 'no-face', message: ALIGNMENT_MESSAGES['no-face'], frameWidth, frameHeight };
+    }
+
+    // face-api's "left eye" is the one on the left of the image, i.e. the subject's right eye.
+    const eyes: Record<EyeSide, { x: number; y: number }[]> = {
+        left: result.landmarks.getRightEye(),
+        right: result.landmarks.getLeftEye(),
+    };
+    const left = centreOf(eyes.left);
+    const right = centreOf(eyes.right);
+    const roll = (Math.atan2(left.y - right.y, left.x - right.x) * 180) / Math.PI;
+
+    const frameCentre = { x: frameWidth / 2, y: frameHeight / 2 };
+    const side: EyeSide = preferredSide
+        ?? (Math.hypot(left.x - frameCentre.x, left.y - frameCentre.y) < Math.hypot(right.x - frameCentre.x, right.y - frameCentre.y) ? 'left' : 'right');
+    const points = eyes[side];
+    const centre = centreOf(points);
+    // Landmarks 0 and 3 of each eye are its outer and inner corners.
+    const eyeWidth = Math.hypot(points[3].x - points[0].x, points[3].y - points[0].y);
+    const size = Math.round(eyeWidth * CROP_TO_EYE_WIDTH);
+    const eye: EyeRegion = { side, x: Math.round(centre.x - size / 2), y: Math.round(centre.y - size / 2), size, eyeWidth };
+
+    let issue: AlignmentIssue | null = null;
+    if (eyeWidth < MIN_EYE_WIDTH) issue = 'too-far';
+    else if (eye.x < 0 || eye.y < 0 || eye.x + size > frameWidth || eye.y + size > frameHeight) issue = 'too-close';
+    else if (Math.abs(centre.x - frameCentre.x) > frameWidth * MAX_CENTER_OFFSET || Math.abs(centre.y - frameCentre.y) > frameHeight * MAX_CENTER_OFFSET) issue = 'off-center';
+    else if (Math.abs(roll) > MAX_ROLL_DEGREES) issue = 'tilted';
+
+    return { eye, roll, issue, message: issue ? ALIGNMENT_MESSAGES[issue] : 'Eye aligned. Hold still...', frameWidth, frameHeight };
+};
+
+/** Tracks consecutive aligned detections and says when an eye has been steady long enough. */
+export class AutoCaptureTracker {
+    private steadyFrames = 0;
+    private last: EyeRegion | null = null;
+
+    /** Feeds one detection; returns the alignment with `moving` applied, and whether to capture now. */
+    push(alignment: EyeAlignment): { alignment: EyeAlignment; ready: boolean } {
+        const { eye } = alignment;
+        if (!eye || alignment.issue) {
+            this.reset();
+            return { alignment, ready: false };
+        }
+        const drift = this.last && this.last.side === eye.side
+            ? Math.hypot(eye.x - this.last.x, eye.y - this.last.y) / eye.eyeWidth
+            : Infinity;
+        this.last = eye;
+        if (drift > MAX_STEADY_DRIFT) {
+            this.steadyFrames = 1;
+            return { alignment: { ...alignment, issue: 'moving', message: ALIGNMENT_MESSAGES['moving'] }, ready: false };
+        }
+        this.steadyFrames++;
+        return { alignment, ready: this.steadyFrames >= STEADY_FRAMES };
+    }
+
+    reset(): void {
+        this.steadyFrames = 0;
+        this.last = null;
+    }
+}
+
+/** Draws the detected eye box and the target area onto an overlay canvas sized to the video. */
+export const drawAlignmentOverlay = (canvas: HTMLCanvasElement, alignment: EyeAlignment): void => {
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    canvas.width = alignment.frameWidth;
+    canvas.height = alignment.frameHeight;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+
+    // Target: where the eye centre has to be.
+    context.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    context.setLineDash([6, 6]);
+    context.lineWidth = 2;
+    context.strokeRect(
+        canvas.width * (0.5 - MAX_CENTER_OFFSET),
+        canvas.height * (0.5 - MAX_CENTER_OFFSET),
+        canvas.width * MAX_CENTER_OFFSET * 2,
+        canvas.height * MAX_CENTER_OFFSET * 2,
+    );
+
+    if (!alignment.eye) return;
+    const { x, y, size } = alignment.eye;
+    context.setLineDash([]);
+    context.lineWidth = 3;
+    context.strokeStyle = alignment.issue ? '#f59e0b' : '#22c55e';
+    context.strokeRect(x, y, size, size);
+};
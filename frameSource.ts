@@ -0,0 +1,413 @@
+// --- FRAME SOURCES ---
+//
+// Everything the capture engine reads frames from sits behind one small interface, so the
+// same pipeline (eye localization, quality gate, liveness, encoding) runs on a live webcam,
+// an uploaded photo, a recorded video or a synthetic eye. Pixel-backed sources (stills and
+// the synthetic eye) need no DOM and can be replayed deterministically under Node.
+
+import type { RgbaPixels } from './irisTemplate.ts';
+import type { EyeRegion } from './eyeLocator.ts';
+import type { EyeSide } from './dualEye.ts';
+import { syntheticEyeSeed, createSyntheticIris, renderSyntheticEye, DEFAULT_EYE_STATE, SYNTHETIC_FRAME_WIDTH, SYNTHETIC_FRAME_HEIGHT } from './syntheticIris.ts';
+import type { SyntheticEyeState } from './syntheticIris.ts';
+import { listCameras, chooseCamera, cameraRank, openCamera, setTorch, watchCameras, loadCameraChoice, DEFAULT_CAMERA_PREFERENCES, TERMINAL_CAMERA_CONFIG } from './cameraManager.ts';
+import type { CameraDevice, CameraPreferences } from './cameraManager.ts';
+
+export type FrameSourceKind = 'webcam' | 'image' | 'video' | 'synthetic';
+
+/** Elements a source can show its frames in; face detection and cropping work on either. */
+export type FrameElement = HTMLVideoElement | HTMLCanvasElement;
+
+export interface FrameSource {
+    readonly kind: FrameSourceKind;
+    /** Short user-facing description, e.g. the file name. */
+    readonly label: string;
+    /**
+     * 'face' frames show a whole face and need eye localization before capture; 'eye' frames
+     * are already an eye close-up and are processed whole.
+     */
+    readonly framing: 'face' | 'eye';
+    /** The element showing live frames, for preview and face detection; null when headless. */
+    readonly element: FrameElement | null;
+    /** True when the preview should be mirrored (front-facing camera). */
+    readonly mirrored: boolean;
+    /** Starts producing frames. Rejects with a `FrameSourceError`. */
+    start(): Promise<void>;
+    /** Releases the camera, decoders and timers. Safe to call more than once. */
+    stop(): void;
+    /**
+     * The current frame, cropped to `region` when given, or null if none is ready yet. The pixels
+     * are a fresh copy the caller owns; the capture engine wipes them once it is done.
+     */
+    readFrame(region?: EyeRegion | null): RgbaPixels | null;
+    /** Light stimulus notification; sources that simulate an eye constrict the pupil. */
+    setFlash?(on: boolean): void;
+}
+
+export type FrameSourceFailure = 'permission-denied' | 'unavailable' | 'unreadable';
+
+/** Thrown when a source cannot start; the message is user-facing. */
+export class FrameSourceError extends Error {
+    readonly failure: FrameSourceFailure;
+
+    constructor(failure: FrameSourceFailure, message: string) {
+        super(message);
+        this.name = 'FrameSourceError';
+        this.failure = failure;
+    }
+}
+
+/** Intrinsic pixel size of a frame element, or 0x0 while it has no frame to show. */
+export const elementSize = (element: FrameElement): { width: number; height: number } => {
+    if (element instanceof HTMLVideoElement) {
+        return element.readyState >= 2 ? { width: element.videoWidth, height: element.videoHeight } : { width: 0, height: 0 };
+    }
+    return { width: element.width, height: element.height };
+};
+
+/** Copies the `region` square out of `pixels`, filling anything outside the frame with black. */
+export const cropPixels = (pixels: RgbaPixels, region: EyeRegion): RgbaPixels => {
+    const { size } = region;
+    const data = new Uint8ClampedArray(size * size * 4);
+    for (let y = 0; y < size; y++) {
+        const sy = region.y + y;
+        if (sy < 0 || sy >= pixels.height) continue;
+        for (let x = 0; x < size; x++) {
+            const sx = region.x + x;
+            if (sx < 0 || sx >= pixels.width) continue;
+            const from = (sy * pixels.width + sx) * 4;
+            const to = (y * size + x) * 4;
+            data[to] = pixels.data[from];
+            data[to + 1] = pixels.data[from + 1];
+            data[to + 2] = pixels.data[from + 2];
+            data[to + 3] = 255;
+        }
+    }
+    return { width: size, height: size, data };
+};
+
+const hasDocument = () => typeof document !== 'undefined';
+
+/** Reads the current frame of a DOM element through an off-screen canvas. */
+const readElement = (element: FrameElement, canvas: HTMLCanvasElement, region?: EyeRegion | null): RgbaPixels | null => {
+    const { width, height } = elementSize(element);
+    if (width === 0 || height === 0) return null;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+    if (region) {
+        // Only the eye square is drawn, so the rest of the face never reaches the iris pipeline.
+        canvas.width = region.size;
+        canvas.height = region.size;
+        context.drawImage(element, region.x, region.y, region.size, region.size, 0, 0, region.size, region.size);
+    } else {
+        canvas.width = width;
+        canvas.height = height;
+        context.drawImage(element, 0, 0, width, height);
+    }
+    return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/** Draws `pixels` onto `canvas`, resizing it to match. */
+export const paintPixels = (canvas: HTMLCanvasElement, pixels: RgbaPixels) => {
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+    context.putImageData(new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height), 0, 0);
+};
+
+const createVideoElement = (): HTMLVideoElement => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.autoplay = true;
+    return video;
+};
+
+export interface WebcamSourceOptions {
+    /** Overrides the terminal config and the remembered choice, e.g. a camera picked just now. */
+    preferences: Partial<CameraPreferences>;
+    /** Called whenever the source moves to another camera, or with null once none is left. */
+    onCameraChange: (camera: CameraDevice | null) => void;
+}
+
+/**
+ * A live camera chosen by the camera manager. When cameras are plugged in or removed the
+ * source re-picks on its own: it moves off a camera that disappeared and back onto the
+ * preferred one when it returns, keeping the same preview element throughout.
+ */
+export const createWebcamSource = (options: Partial<WebcamSourceOptions> = {}): FrameSource => {
+    const preferences = { ...DEFAULT_CAMERA_PREFERENCES, ...TERMINAL_CAMERA_CONFIG, ...loadCameraChoice(), ...options.preferences };
+    const video = hasDocument() ? createVideoElement() : null;
+    const buffer = hasDocument() ? document.createElement('canvas') : null;
+    let stream: MediaStream | null = null;
+    let camera: CameraDevice | null = null;
+    let stopped = true;
+    let unwatch: (() => void) | null = null;
+    // Device events can arrive in bursts; switches run one after another.
+    let switching = Promise.resolve();
+
+    const track = () => stream?.getVideoTracks()[0] ?? null;
+
+    const release = () => {
+        stream?.getTracks().forEach(t => t.stop());
+        stream = null;
+        if (video) video.srcObject = null;
+    };
+
+    const attach = async (device: CameraDevice | null) => {
+        release();
+        const opened = await openCamera(device, preferences.torch);
+        if (stopped) {
+            opened.getTracks().forEach(t => t.stop());
+            return;
+        }
+        stream = opened;
+        // Labels, and which device "any camera" turned out to be, are only known after permission.
+        const openedId = track()?.getSettings().deviceId;
+        camera = (await listCameras()).find(c => c.deviceId === openedId) ?? device;
+        track()?.addEventListener('ended', () => reconsider());
+        video!.srcObject = stream;
+        await video!.play();
+        options.onCameraChange?.(camera);
+    };
+
+    /** Switches camera when ours is gone or dead, or a better-ranked one is attached. */
+    const reconsider = (cameras?: CameraDevice[]) => {
+        switching = switching.then(async () => {
+            if (stopped) return;
+            const available = cameras ?? await listCameras();
+            const target = chooseCamera(available, preferences);
+            const current = camera && available.find(c => c.deviceId === camera!.deviceId);
+            const healthy = current && track()?.readyState === 'live';
+            if (healthy && (!target || cameraRank(target, preferences) <= cameraRank(current, preferences))) return;
+            if (!target) {
+                release();
+                camera = null;
+                options.onCameraChange?.(null);
+                return;
+            }
+            try {
+                await attach(target);
+            } catch (err) {
+                console.error("Camera switch failed:", err);
+            }
+        });
+    };
+
+    return {
+        kind: 'webcam',
+        get label() {
+            return camera?.label || 'Camera';
+        },
+        framing: 'face',
+        element: video,
+        mirrored: true,
+        async start() {
+            if (!video || !navigator.mediaDevices?.getUserMedia) {
+                throw new FrameSourceError('unavailable', 'No camera is available in this browser.');
+            }
+            stopped = false;
+            try {
+                await attach(chooseCamera(await listCameras(), preferences));
+            } catch (err) {
+                const name = (err as Error).name;
+                if (name === 'NotAllowedError' || name === 'PermissionDeniedError') {
+                    throw new FrameSourceError('permission-denied', 'Camera access was denied.');
+                }
+                throw new FrameSourceError('unavailable', 'No usable camera was found.');
+            }
+            unwatch = watchCameras(reconsider);
+            // Before permission the labels were blank, so a remembered or configured camera may
+            // only be recognisable now.
+            reconsider();
+            await switching;
+        },
+        stop() {
+            stopped = true;
+            unwatch?.();
+            unwatch = null;
+            release();
+        },
+        readFrame: region => (video && buffer ? readElement(video, buffer, region) : null),
+        setFlash(on) {
+            // A camera torch makes a stronger light stimulus than the white screen alone.
+            const current = track();
+            if (current) void setTorch(current, on || preferences.torch);
+        },
+    };
+};
+
+/** A recorded video file, played on a loop. Treated as a face recording unless `framing` says otherwise. */
+export const createVideoFileSource = (file: Blob & { name?: string }, framing: 'face' | 'eye' = 'face'): FrameSource => {
+    const video = createVideoElement();
+    video.loop = true;
+    const buffer = document.createElement('canvas');
+    let url: string | null = null;
+
+    return {
+        kind: 'video',
+        label: file.name || 'Recorded video',
+        framing,
+        element: video,
+        mirrored: false,
+        async start() {
+            url = URL.createObjectURL(file);
+            video.src = url;
+            try {
+                await video.play();
+            } catch {
+                throw new FrameSourceError('unreadable', 'This video file could not be played.');
+            }
+        },
+        stop() {
+            video.pause();
+            video.removeAttribute('src');
+            video.load();
+            if (url) URL.revokeObjectURL(url);
+            url = null;
+        },
+        readFrame: region => readElement(video, buffer, region),
+    };
+};
+
+/**
+ * Replays fixed frames in order, looping at the end. Each `readFrame` advances one frame, so a
+ * capture session sees the same sequence every run. Works without a DOM.
+ */
+export const createStillSource = (frames: RgbaPixels[], label: string, framing: 'face' | 'eye' = 'eye'): FrameSource => {
+    const canvas = hasDocument() ? document.createElement('canvas') : null;
+    let index = 0;
+
+    return {
+        kind: 'image',
+        label,
+        framing,
+        element: canvas,
+        mirrored: false,
+        async start() {
+            if (frames.length === 0) throw new FrameSourceError('unreadable', 'No frames to replay.');
+            index = 0;
+            if (canvas) paintPixels(canvas, frames[0]);
+        },
+        stop() {},
+        readFrame(region) {
+            if (frames.length === 0) return null;
+            const frame = frames[index];
+            index = (index + 1) % frames.length;
+            return region ? cropPixels(frame, region) : { ...frame, data: frame.data.slice() };
+        },
+    };
+};
+
+/** An uploaded photo, decoded once and then served as a still. */
+export const createImageFileSource = async (file: Blob & { name?: string }, framing: 'face' | 'eye' = 'eye'): Promise<FrameSource> => {
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(file);
+    } catch {
+        throw new FrameSourceError('unreadable', 'This image file could not be read.');
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new FrameSourceError('unreadable', 'This image file could not be read.');
+    context.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return createStillSource([context.getImageData(0, 0, canvas.width, canvas.height)], file.name || 'Uploaded image', framing);
+};
+
+/** Tunables for `createSyntheticSource`. */
+export interface SyntheticSourceOptions {
+    /** Identity of the synthetic person. */
+    seed: string;
+    /** Which of their eyes is shown. */
+    eye: EyeSide;
+    width: number;
+    height: number;
+    /** Time source in milliseconds; inject a fake clock for deterministic replay. */
+    clock: () => number;
+    /**
+     * Resting capture conditions (e.g. blur, noise, a drooping lid). Blinks, tremor and the
+     * pupil reflex are animated on top of them.
+     */
+    conditions: Partial<SyntheticEyeState>;
+}
+
+// Light-adapted pupil size relative to the resting one, reflex latency and time constant.
+const CONSTRICTION_RATIO = 0.7;
+const REFLEX_LATENCY_MS = 250;
+const REFLEX_TIME_CONSTANT_MS = 300;
+// One blink every BLINK_PERIOD_MS; the lids stay shut for the middle 60% of BLINK_DURATION_MS.
+const BLINK_PERIOD_MS = 1500;
+const BLINK_DURATION_MS = 400;
+// Fixational tremor amplitude in pixels.
+const TREMOR_PX = 1.5;
+const SYNTHETIC_PAINT_INTERVAL_MS = 100;
+
+/**
+ * A rendered eye that behaves like a live one: it blinks periodically, drifts slightly and
+ * constricts its pupil while the light stimulus is on, so liveness checks run for real.
+ */
+export const createSyntheticSource = (options: Partial<SyntheticSourceOptions> = {}): FrameSource => {
+    const { seed = 'synthetic', eye = 'left', width = SYNTHETIC_FRAME_WIDTH, height = SYNTHETIC_FRAME_HEIGHT, clock = () => Date.now(), conditions = {} } = options;
+    const resting = { ...DEFAULT_EYE_STATE, ...conditions };
+    const iris = createSyntheticIris(syntheticEyeSeed(seed, eye));
+    const canvas = hasDocument() ? document.createElement('canvas') : null;
+    let startedAt = 0;
+    let flashChangedAt = -Infinity;
+    let flashOn = false;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let frameCount = 0;
+
+    const stateAt = (now: number): SyntheticEyeState => {
+        const t = now - startedAt;
+        const sinceFlash = now - flashChangedAt - REFLEX_LATENCY_MS;
+        const response = sinceFlash > 0 ? 1 - Math.exp(-sinceFlash / REFLEX_TIME_CONSTANT_MS) : 0;
+        const constricted = resting.dilation * CONSTRICTION_RATIO;
+        const [from, to] = flashOn ? [resting.dilation, constricted] : [constricted, resting.dilation];
+        const dilation = from + (to - from) * response;
+        const phase = (t % BLINK_PERIOD_MS) - (BLINK_PERIOD_MS - BLINK_DURATION_MS);
+        // The eye keeps staring into the light stimulus rather than blinking through it.
+        const blink = !flashOn && phase > 0 ? Math.min(1, (1 - Math.abs(phase / BLINK_DURATION_MS - 0.5) * 2) * 2.5) : 0;
+        return {
+            ...resting,
+            dilation,
+            occlusion: Math.max(resting.occlusion, blink),
+            offsetX: resting.offsetX + TREMOR_PX * Math.sin(t / 97),
+            offsetY: resting.offsetY + TREMOR_PX * Math.sin(t / 151),
+            // Fresh sensor noise on every frame, still reproducible from the frame number.
+            noiseSeed: `${resting.noiseSeed}#${frameCount++}`,
+        };
+    };
+    const render = () => renderSyntheticEye(iris, stateAt(clock()), width, height);
+
+    return {
+        kind: 'synthetic',
+        label: `Synthetic ${eye} eye "${seed}"`,
+        framing: 'eye',
+        element: canvas,
+        mirrored: false,
+        async start() {
+            startedAt = clock();
+            if (canvas) {
+                paintPixels(canvas, render());
+                timer = setInterval(() => paintPixels(canvas, render()), SYNTHETIC_PAINT_INTERVAL_MS);
+            }
+        },
+        stop() {
+            if (timer) clearInterval(timer);
+            timer = null;
+        },
+        readFrame(region) {
+            const frame = render();
+            return region ? cropPixels(frame, region) : frame;
+        },
+        setFlash(on) {
+            if (on === flashOn) return;
+            flashOn = on;
+            flashChangedAt = clock();
+        },
+    };
+};
@@ -0,0 +1,135 @@
+// --- IRIS TEMPLATE MATCHING ---
+//
+// Two captures of the same eye never produce identical IrisCodes, so templates are compared by
+// masked fractional Hamming distance: the share of disagreeing bits among the bits both
+// templates consider usable. Head tilt shows up as a circular shift along the angular axis,
+// so the comparison is repeated over a window of shifts and the best one is kept. Templates of
+// different algorithm versions put different bits in the same places, so comparing them is
+// refused outright rather than reported as a non-match.
+
+import type { IrisTemplate } from './irisTemplate.ts';
+
+/** Tunables for `matchTemplates`. */
+export interface MatchOptions {
+    /** Accept when the best distance is at or below this value (0..1). */
+    threshold: number;
+    /** Largest angular shift tried in each direction, in angular bins. */
+    maxShift: number;
+    /** Reject outright when fewer bits than this are usable in both templates. */
+    minOverlapBits: number;
+}
+
+/** Outcome of comparing a probe template against a reference. */
+export interface MatchResult {
+    /** Best masked fractional Hamming distance found (0 = identical, ~0.5 = unrelated). */
+    distance: number;
+    /** Angular shift (in bins) at which `distance` was found. */
+    shift: number;
+    /** Number of bits compared at that shift. */
+    overlapBits: number;
+    accepted: boolean;
+}
+
+// Unrelated irises cluster tightly around 0.45-0.5 once shifts are searched; genuine pairs
+// typically fall below 0.3. The threshold leaves margin on the impostor side.
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = {
+    threshold: 0.32,
+    maxShift: 8,
+    minOverlapBits: 512,
+};
+
+/** Thrown when two templates of different algorithm versions are compared. */
+export class TemplateVersionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateVersionError';
+    }
+}
+
+/** Throws `TemplateVersionError` unless `probe` and `reference` come from the same algorithm version. */
+export const assertSameVersion = (probe: { version: number }, reference: { version: number }) => {
+    if (probe.version !== reference.version) {
+        throw new TemplateVersionError(`Cannot compare a version ${probe.version} template with a version ${reference.version} one.`);
+    }
+};
+
+const NO_MATCH: MatchResult = { distance: 1, shift: 0, overlapBits: 0, accepted: false };
+
+/**
+ * Masked fractional Hamming distance between two templates, with `probe` rotated by `shift`
+ * angular bins relative to `reference`.
+ */
+export const hammingDistance = (probe: IrisTemplate, reference: IrisTemplate, shift: number): { distance: number; overlapBits: number } => {
+    const { radialBins, angularBins } = reference;
+    let differing = 0;
+    let overlap = 0;
+    for (let r = 0; r < radialBins; r++) {
+        const row = r * angularBins;
+        for (let a = 0; a < angularBins; a++) {
+            const p = (row + ((a + shift + angularBins) % angularBins)) * 2;
+            const q = (row + a) * 2;
+            for (let c = 0; c < 2; c++) {
+                if (!probe.mask[p + c] || !reference.mask[q + c]) continue;
+                overlap++;
+                if (probe.code[p + c] !== reference.code[q + c]) differing++;
+            }
+        }
+    }
+    return { distance: overlap > 0 ? differing / overlap : 1, overlapBits: overlap };
+};
+
+/** Compares two templates over the allowed rotation window and applies the accept threshold. */
+export const matchTemplates = (probe: IrisTemplate, reference: IrisTemplate, options: Partial<MatchOptions> = {}): MatchResult => {
+    const { threshold, maxShift, minOverlapBits } = { ...DEFAULT_MATCH_OPTIONS, ...options };
+    assertSameVersion(probe, reference);
+    if (probe.radialBins !== reference.radialBins || probe.angularBins !== reference.angularBins) return NO_MATCH;
+
+    let best = NO_MATCH;
+    for (let shift = -maxShift; shift <= maxShift; shift++) {
+        const { distance, overlapBits } = hammingDistance(probe, reference, shift);
+        if (overlapBits < minOverlapBits) continue;
+        if (distance < best.distance) best = { distance, shift, overlapBits, accepted: false };
+    }
+    return { ...best, accepted: best.overlapBits > 0 && best.distance <= threshold };
+};
+
+/**
+ * 1:N identification: returns the candidate whose template matches `probe` most closely,
+ * or null if none is accepted.
+ */
+export const findBestMatch = <T>(
+    probe: IrisTemplate,
+    candidates: T[],
+    getTemplate: (candidate: T) => IrisTemplate,
+    options: Partial<MatchOptions> = {},
+): { candidate: T; result: MatchResult } | null => {
+    let best: { candidate: T; result: MatchResult } | null = null;
+    for (const candidate of candidates) {
+        const result = matchTemplates(probe, getTemplate(candidate), options);
+        if (result.accepted && (!best || result.distance < best.result.distance)) best = { candidate, result };
+    }
+    return best;
+};
+
+/**
+ * Returns a copy of `template` rotated by `shift` angular bins, so that bin `a` of the result
+ * holds bin `a + shift` of the input. Aligning a probe with the shift reported by
+ * `matchTemplates` makes it directly comparable bit-for-bit with the reference.
+ */
+export const rotateTemplate = (template: IrisTemplate, shift: number): IrisTemplate => {
+    const { radialBins, angularBins } = template;
+    const code = new Uint8Array(template.code.length);
+    const mask = new Uint8Array(template.mask.length);
+    for (let r = 0; r < radialBins; r++) {
+        const row = r * angularBins;
+        for (let a = 0; a < angularBins; a++) {
+            const from = (row + ((((a + shift) % angularBins) + angularBins) % angularBins)) * 2;
+            const to = (row + a) * 2;
+            code[to] = template.code[from];
+            code[to + 1] = template.code[from + 1];
+            mask[to] = template.mask[from];
+            mask[to + 1] = template.mask[from + 1];
+        }
+    }
+    return { version: template.version, radialBins, angularBins, code, mask };
+};
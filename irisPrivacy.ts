@@ -0,0 +1,77 @@
+// --- ON-DEVICE PRIVACY ---
+//
+// A captured frame shows much more than an iris: lids, skin, lashes, sometimes a reflection of
+// the room. None of that leaves the capture engine. What it releases is the template and a
+// small thumbnail cropped to the iris with everything outside the limbus blacked out; every
+// raw buffer read during the attempt is overwritten once the template has been extracted.
+
+import type { IrisSegmentation, RgbaPixels } from './irisTemplate.ts';
+
+/** Tunables for `redactIrisThumbnail`. */
+export interface RedactionOptions {
+    /** Side of the square thumbnail, in pixels. */
+    thumbnailSize: number;
+    /** Crop side as a multiple of the iris diameter; the ring outside the limbus stays black. */
+    cropScale: number;
+}
+
+export const DEFAULT_REDACTION_OPTIONS: RedactionOptions = {
+    thumbnailSize: 96,
+    cropScale: 1.15,
+};
+
+// Samples averaged per thumbnail pixel along each axis.
+const SUPERSAMPLING = 3;
+
+/**
+ * A thumbnail of the iris alone: the square around the limbus, downscaled, with every pixel
+ * outside the iris circle painted black. Safe to show, log or keep; it carries none of the face
+ * around the eye and too few pixels to re-enroll from.
+ */
+export const redactIrisThumbnail = (pixels: RgbaPixels, segmentation: IrisSegmentation, options: Partial<RedactionOptions> = {}): RgbaPixels => {
+    const { thumbnailSize: size, cropScale } = { ...DEFAULT_REDACTION_OPTIONS, ...options };
+    const { iris } = segmentation;
+    const side = iris.r * 2 * cropScale;
+    const left = iris.x - side / 2;
+    const top = iris.y - side / 2;
+    const step = side / size;
+    const data = new Uint8ClampedArray(size * size * 4);
+
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const to = (y * size + x) * 4;
+            data[to + 3] = 255;
+            const cx = left + (x + 0.5) * step;
+            const cy = top + (y + 0.5) * step;
+            if (Math.hypot(cx - iris.x, cy - iris.y) > iris.r) continue;
+
+            let r = 0;
+            let g = 0;
+            let b = 0;
+            let n = 0;
+            for (let sy = 0; sy < SUPERSAMPLING; sy++) {
+                const py = Math.floor(top + (y + (sy + 0.5) / SUPERSAMPLING) * step);
+                if (py < 0 || py >= pixels.height) continue;
+                for (let sx = 0; sx < SUPERSAMPLING; sx++) {
+                    const px = Math.floor(left + (x + (sx + 0.5) / SUPERSAMPLING) * step);
+                    if (px < 0 || px >= pixels.width) continue;
+                    const from = (py * pixels.width + px) * 4;
+                    r += pixels.data[from];
+                    g += pixels.data[from + 1];
+                    b += pixels.data[from + 2];
+                    n++;
+                }
+            }
+            if (n === 0) continue;
+            data[to] = r / n;
+            data[to + 1] = g / n;
+            data[to + 2] = b / n;
+        }
+    }
+    return { width: size, height: size, data };
+};
+
+/** Overwrites raw image buffers with zeros, so no copy of the frame outlives the capture. */
+export const discardPixels = (buffers: Iterable<Uint8ClampedArray | Uint8Array | Float32Array>) => {
+    for (const buffer of buffers) buffer.fill(0);
+};
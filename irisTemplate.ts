@@ -0,0 +1,504 @@
+// --- IRIS TEMPLATE EXTRACTION ---
+//
+// Turns a single eye image into a fixed-length binary IrisCode:
+//   1. segmentation   - locate the pupil and limbus boundaries (integro-differential search)
+//   2. normalization  - unwrap the annulus between them into a polar "rubber-sheet" strip
+//   3. encoding       - quantize the phase of a 1D Gabor filter response to two bits per sample
+//
+// Everything here works on plain typed arrays so the same code runs in the browser
+// (fed from a canvas) and under Node (fed from decoded image files).
+
+/** A single-channel luminance image, values in the 0..255 range. */
+export interface GrayImage {
+    width: number;
+    height: number;
+    data: Float32Array;
+}
+
+/** Structural subset of the DOM `ImageData` so callers outside the browser can supply pixels too. */
+export interface RgbaPixels {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray | Uint8Array;
+}
+
+/** A circle in image pixel coordinates. */
+export interface Circle {
+    x: number;
+    y: number;
+    r: number;
+}
+
+/** The located pupil (inner) and limbus (outer) iris boundaries. */
+export interface IrisSegmentation {
+    pupil: Circle;
+    iris: Circle;
+}
+
+/**
+ * A binary IrisCode. `code` and `mask` hold one bit per byte (0 or 1), laid out row-major as
+ * [radial][angular][real, imaginary]. A mask bit of 1 means the matching code bit is usable;
+ * 0 marks bits that fell on eyelids, lashes, glare or outside the frame.
+ */
+export interface IrisTemplate {
+    /** `TemplateAlgorithm.version` that produced the code; only equal versions are comparable. */
+    version: number;
+    radialBins: number;
+    angularBins: number;
+    code: Uint8Array;
+    mask: Uint8Array;
+}
+
+/** Full result of running the pipeline on one frame. */
+export interface IrisExtraction {
+    template: IrisTemplate;
+    segmentation: IrisSegmentation;
+    /** The unwrapped iris the template was encoded from. */
+    strip: NormalizedIris;
+    /** Fraction of code bits that survived masking (0..1). */
+    usableBits: number;
+}
+
+/** Thrown when no plausible pupil/iris pair can be found in the supplied image. */
+export class IrisExtractionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'IrisExtractionError';
+    }
+}
+
+export const RADIAL_BINS = 16;
+export const ANGULAR_BINS = 128;
+/** Number of code bits produced by `extractIrisTemplate`. */
+export const TEMPLATE_BITS = RADIAL_BINS * ANGULAR_BINS * 2;
+
+// Segmentation runs on a downscaled copy whose longest side is at most this many pixels.
+const WORKING_SIZE = 240;
+// Gabor wavelength along the angular axis, in samples.
+const GABOR_WAVELENGTH = 16;
+
+/**
+ * Everything that decides which bit ends up where in an IrisCode. Any change that makes new codes
+ * disagree with stored ones (strip geometry, filter, bit order) gets a new version; tuning that
+ * leaves the bits alone, such as the accept threshold, does not.
+ */
+export interface TemplateAlgorithm {
+    version: number;
+    radialBins: number;
+    angularBins: number;
+    /** Gabor wavelength along the angular axis, in samples. */
+    gaborWavelength: number;
+}
+
+/**
+ * Every algorithm version the system can still extract. Stored templates of a version listed
+ * here can be verified and then migrated; a version dropped from the list needs a fresh
+ * enrollment.
+ */
+export const TEMPLATE_ALGORITHMS: TemplateAlgorithm[] = [
+    { version: 1, radialBins: RADIAL_BINS, angularBins: ANGULAR_BINS, gaborWavelength: GABOR_WAVELENGTH },
+];
+
+/** The version new enrollments are stored under. */
+export const CURRENT_TEMPLATE_ALGORITHM: TemplateAlgorithm = TEMPLATE_ALGORITHMS[TEMPLATE_ALGORITHMS.length - 1];
+
+/** The registered algorithm for `version`, or null when it can no longer be extracted. */
+export const templateAlgorithm = (version: number): TemplateAlgorithm | null =>
+    TEMPLATE_ALGORITHMS.find(a => a.version === version) ?? null;
+
+/** Pixels brighter than this inside the iris are treated as specular reflections. */
+export const GLARE_LEVEL = 235;
+
+// --- IMAGE HELPERS ---
+
+/** Converts RGBA pixels (e.g. from `CanvasRenderingContext2D.getImageData`) to luminance. */
+export const toGrayImage = (pixels: RgbaPixels): GrayImage => {
+    const { width, height, data } = pixels;
+    const out = new Float32Array(width * height);
+    for (let i = 0, p = 0; i < out.length; i++, p += 4) {
+        out[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    }
+    return { width, height, data: out };
+};
+
+/** Separable box blur with the given radius (in pixels). */
+export const boxBlur = (img: GrayImage, radius: number): GrayImage => {
+    if (radius < 1) return img;
+    const { width, height } = img;
+    const tmp = new Float32Array(width * height);
+    const out = new Float32Array(width * height);
+    const span = radius * 2 + 1;
+    for (let y = 0; y < height; y++) {
+        const row = y * width;
+        let acc = 0;
+        for (let k = -radius; k <= radius; k++) acc += img.data[row + clamp(k, 0, width - 1)];
+        for (let x = 0; x < width; x++) {
+            tmp[row + x] = acc / span;
+            acc += img.data[row + clamp(x + radius + 1, 0, width - 1)] - img.data[row + clamp(x - radius, 0, width - 1)];
+        }
+    }
+    for (let x = 0; x < width; x++) {
+        let acc = 0;
+        for (let k = -radius; k <= radius; k++) acc += tmp[clamp(k, 0, height - 1) * width + x];
+        for (let y = 0; y < height; y++) {
+            out[y * width + x] = acc / span;
+            acc += tmp[clamp(y + radius + 1, 0, height - 1) * width + x] - tmp[clamp(y - radius, 0, height - 1) * width + x];
+        }
+    }
+    return { width, height, data: out };
+};
+
+/** Area-averaging downscale by an integer factor. */
+export const downscale = (img: GrayImage, factor: number): GrayImage => {
+    if (factor <= 1) return img;
+    const width = Math.floor(img.width / factor);
+    const height = Math.floor(img.height / factor);
+    const out = new Float32Array(width * height);
+    const area = factor * factor;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let acc = 0;
+            for (let dy = 0; dy < factor; dy++) {
+                const row = (y * factor + dy) * img.width + x * factor;
+                for (let dx = 0; dx < factor; dx++) acc += img.data[row + dx];
+            }
+            out[y * width + x] = acc / area;
+        }
+    }
+    return { width, height, data: out };
+};
+
+/** Bilinear sample; returns NaN outside the image. */
+export const sampleBilinear = (img: GrayImage, x: number, y: number): number => {
+    if (x < 0 || y < 0 || x > img.width - 1 || y > img.height - 1) return NaN;
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const x1 = Math.min(x0 + 1, img.width - 1);
+    const y1 = Math.min(y0 + 1, img.height - 1);
+    const fx = x - x0;
+    const fy = y - y0;
+    const top = img.data[y0 * img.width + x0] * (1 - fx) + img.data[y0 * img.width + x1] * fx;
+    const bottom = img.data[y1 * img.width + x0] * (1 - fx) + img.data[y1 * img.width + x1] * fx;
+    return top * (1 - fy) + bottom * fy;
+};
+
+const clamp = (v: number, lo: number, hi: number): number => (v < lo ? lo : v > hi ? hi : v);
+
+const percentile = (values: Float32Array, p: number): number => {
+    const sorted = Float32Array.from(values).sort();
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+};
+
+// --- SEGMENTATION ---
+
+// Angular ranges (radians) sampled for each boundary. The limbus is only probed on the
+// lateral sides because the upper and lower edges are usually covered by eyelids.
+const FULL_CIRCLE: [number, number][] = [[0, Math.PI * 2]];
+const LATERAL_ARCS: [number, number][] = [[-Math.PI / 4, Math.PI / 4], [Math.PI * 3 / 4, Math.PI * 5 / 4]];
+
+/** Mean intensity along a circle (restricted to `arcs`); NaN if most of it lies outside the image. */
+const circleMean = (img: GrayImage, cx: number, cy: number, r: number, arcs: [number, number][], samples: number): number => {
+    let sum = 0;
+    let count = 0;
+    for (const [from, to] of arcs) {
+        const step = (to - from) / samples;
+        for (let i = 0; i < samples; i++) {
+            const a = from + step * (i + 0.5);
+            const x = Math.round(cx + r * Math.cos(a));
+            const y = Math.round(cy + r * Math.sin(a));
+            if (x < 0 || y < 0 || x >= img.width || y >= img.height) continue;
+            sum += img.data[y * img.width + x];
+            count++;
+        }
+    }
+    return count * 2 > samples * arcs.length ? sum / count : NaN;
+};
+
+/**
+ * Integro-differential operator: for a fixed centre, finds the radius at which the mean
+ * intensity along the circle jumps up the most (dark inside, bright outside). With
+ * `darkInterior` the jump is weighted by how dark the disc is, so the pupil wins over the
+ * iris/sclera edge, which can have a similar contrast.
+ */
+const bestRadius = (img: GrayImage, cx: number, cy: number, rMin: number, rMax: number, arcs: [number, number][], samples: number, darkInterior: boolean): { r: number; score: number } => {
+    let best = { r: rMin, score: -Infinity };
+    let prev = circleMean(img, cx, cy, rMin - 1, arcs, samples);
+    let cur = circleMean(img, cx, cy, rMin, arcs, samples);
+    for (let r = rMin; r <= rMax; r++) {
+        const next = circleMean(img, cx, cy, r + 1, arcs, samples);
+        let score = next - prev;
+        if (darkInterior && score > best.score) score *= (255 - circleMean(img, cx, cy, r * 0.5, FULL_CIRCLE, 16)) / 255;
+        if (score > best.score) best = { r, score };
+        prev = cur;
+        cur = next;
+    }
+    return best;
+};
+
+/** Searches a square grid of centres for the strongest circular boundary. */
+const searchCircle = (
+    img: GrayImage,
+    centres: { x: number; y: number }[],
+    rMin: number,
+    rMax: number,
+    arcs: [number, number][],
+    samples: number,
+    darkInterior = false,
+): Circle & { score: number } => {
+    let best = { x: 0, y: 0, r: 0, score: -Infinity };
+    for (const c of centres) {
+        const { r, score } = bestRadius(img, c.x, c.y, rMin, rMax, arcs, samples, darkInterior);
+        if (score > best.score) best = { x: c.x, y: c.y, r, score };
+    }
+    return best;
+};
+
+const gridAround = (cx: number, cy: number, radius: number, step: number): { x: number; y: number }[] => {
+    const pts: { x: number; y: number }[] = [];
+    for (let dy = -radius; dy <= radius; dy += step) {
+        for (let dx = -radius; dx <= radius; dx += step) pts.push({ x: cx + dx, y: cy + dy });
+    }
+    return pts;
+};
+
+/** Locates the pupil and limbus circles in an eye image. */
+export const segmentIris = (image: GrayImage): IrisSegmentation => {
+    const factor = Math.max(1, Math.floor(Math.max(image.width, image.height) / WORKING_SIZE));
+    const small = boxBlur(downscale(image, factor), 1);
+    const minDim = Math.min(small.width, small.height);
+
+    // Pupil candidates: only the darkest pixels are worth testing as centres.
+    const darkLevel = percentile(small.data, 0.04) + 8;
+    const candidates: { x: number; y: number }[] = [];
+    const margin = Math.max(4, Math.round(minDim * 0.05));
+    for (let y = margin; y < small.height - margin; y += 2) {
+        for (let x = margin; x < small.width - margin; x += 2) {
+            if (small.data[y * small.width + x] <= darkLevel) candidates.push({ x, y });
+        }
+    }
+    if (candidates.length === 0) throw new IrisExtractionError('No pupil-like dark region found.');
+    const stride = Math.max(1, Math.floor(candidates.length / 1500));
+    const sparse = candidates.filter((_, i) => i % stride === 0);
+
+    const pRMin = Math.max(3, Math.round(minDim * 0.03));
+    const pRMax = Math.max(pRMin + 2, Math.round(minDim * 0.25));
+    const coarsePupil = searchCircle(small, sparse, pRMin, pRMax, FULL_CIRCLE, 32, true);
+    if (!(coarsePupil.score > 10)) throw new IrisExtractionError('Pupil boundary not found. Hold the eye steady and in focus.');
+    const pupilSmall = searchCircle(small, gridAround(coarsePupil.x, coarsePupil.y, 2, 1), Math.max(2, coarsePupil.r - 2), coarsePupil.r + 2, FULL_CIRCLE, 48, true);
+
+    const iRMin = Math.round(pupilSmall.r * 1.5);
+    const iRMax = Math.round(Math.min(pupilSmall.r * 5, minDim * 0.6));
+    if (iRMax <= iRMin) throw new IrisExtractionError('Eye is too close to the frame edge.');
+    const offset = Math.max(1, Math.round(pupilSmall.r * 0.25));
+    const irisSmall = searchCircle(small, gridAround(pupilSmall.x, pupilSmall.y, offset, 1), iRMin, iRMax, LATERAL_ARCS, 24);
+    if (!(irisSmall.score > 4)) throw new IrisExtractionError('Iris boundary not found. Move closer to the camera.');
+
+    // Refine both circles at full resolution around the coarse estimates.
+    const full = factor > 1 ? boxBlur(image, 1) : small;
+    const refine = (c: Circle, arcs: [number, number][], samples: number, darkInterior: boolean): Circle => {
+        if (factor === 1) return { x: c.x, y: c.y, r: c.r };
+        const cx = c.x * factor + (factor - 1) / 2;
+        const cy = c.y * factor + (factor - 1) / 2;
+        const r = c.r * factor;
+        const step = Math.max(1, Math.floor(factor / 2));
+        const fine = searchCircle(full, gridAround(Math.round(cx), Math.round(cy), factor, step), Math.max(2, Math.round(r - factor)), Math.round(r + factor), arcs, samples, darkInterior);
+        return { x: fine.x, y: fine.y, r: fine.r };
+    };
+    const pupil = refine(pupilSmall, FULL_CIRCLE, 64, true);
+    const iris = refine(irisSmall, LATERAL_ARCS, 48, false);
+
+    const ratio = pupil.r / iris.r;
+    if (ratio < 0.12 || ratio > 0.8) throw new IrisExtractionError('Implausible pupil/iris proportions. Please rescan.');
+    return { pupil, iris };
+};
+
+// --- NORMALIZATION ---
+
+/** A normalized iris strip: `radialBins` rows from pupil to limbus, `angularBins` columns around. */
+export interface NormalizedIris {
+    radialBins: number;
+    angularBins: number;
+    values: Float32Array;
+    /** 1 where the sample is usable iris texture, 0 where it is outside the frame, glare or occlusion. */
+    valid: Uint8Array;
+}
+
+/**
+ * Daugman rubber-sheet model: each angle maps linearly from the pupil boundary to the limbus,
+ * which absorbs pupil dilation and the two circles not sharing a centre.
+ */
+export const normalizeIris = (image: GrayImage, seg: IrisSegmentation, radialBins = RADIAL_BINS, angularBins = ANGULAR_BINS): NormalizedIris => {
+    const values = new Float32Array(radialBins * angularBins);
+    const valid = new Uint8Array(radialBins * angularBins);
+    const { pupil, iris } = seg;
+    for (let a = 0; a < angularBins; a++) {
+        const theta = (a / angularBins) * Math.PI * 2;
+        const cos = Math.cos(theta);
+        const sin = Math.sin(theta);
+        const px = pupil.x + pupil.r * cos;
+        const py = pupil.y + pupil.r * sin;
+        const ix = iris.x + iris.r * cos;
+        const iy = iris.y + iris.r * sin;
+        for (let r = 0; r < radialBins; r++) {
+            // Skip the outermost and innermost slivers where boundary error bleeds in.
+            const rho = 0.05 + 0.9 * ((r + 0.5) / radialBins);
+            const v = sampleBilinear(image, px + (ix - px) * rho, py + (iy - py) * rho);
+            const i = r * angularBins + a;
+            values[i] = Number.isNaN(v) ? 0 : v;
+            valid[i] = Number.isNaN(v) ? 0 : 1;
+        }
+    }
+
+    // Occlusion: eyelids/skin and lashes show up as outliers against the iris texture, glare as saturation.
+    const usable = values.filter((_, i) => valid[i] === 1);
+    if (usable.length > 0) {
+        const median = percentile(usable, 0.5);
+        const mad = percentile(usable.map(v => Math.abs(v - median)), 0.5) || 1;
+        for (let i = 0; i < values.length; i++) {
+            if (valid[i] && (values[i] >= GLARE_LEVEL || Math.abs(values[i] - median) > mad * 4)) valid[i] = 0;
+        }
+    }
+    return { radialBins, angularBins, values, valid };
+};
+
+// --- ENCODING ---
+
+const buildGaborKernel = (wavelength: number): { re: Float32Array; im: Float32Array; half: number } => {
+    const sigma = wavelength / 2;
+    const half = Math.ceil(sigma * 2);
+    const re = new Float32Array(half * 2 + 1);
+    const im = new Float32Array(half * 2 + 1);
+    let mean = 0;
+    let weight = 0;
+    for (let k = -half; k <= half; k++) {
+        const g = Math.exp(-(k * k) / (2 * sigma * sigma));
+        re[k + half] = g * Math.cos((2 * Math.PI * k) / wavelength);
+        im[k + half] = g * Math.sin((2 * Math.PI * k) / wavelength);
+        mean += re[k + half];
+        weight += g;
+    }
+    // Remove the DC response so absolute brightness does not leak into the real-part bits.
+    for (let k = -half; k <= half; k++) re[k + half] -= (mean / weight) * Math.exp(-(k * k) / (2 * sigma * sigma));
+    return { re, im, half };
+};
+
+/**
+ * Encodes a normalized strip into an IrisCode by convolving each ring (circularly) with a complex
+ * Gabor filter and keeping the sign of the real and imaginary responses. Bits whose response is
+ * near zero, or whose support overlaps occluded samples, are masked out as unreliable.
+ */
+export const encodeIris = (strip: NormalizedIris, algorithm: TemplateAlgorithm = CURRENT_TEMPLATE_ALGORITHM): IrisTemplate => {
+    const { radialBins, angularBins, values, valid } = strip;
+    const { re: kRe, im: kIm, half } = buildGaborKernel(algorithm.gaborWavelength);
+    const code = new Uint8Array(radialBins * angularBins * 2);
+    const mask = new Uint8Array(radialBins * angularBins * 2);
+    const core = Math.max(1, Math.floor(half / 2));
+
+    for (let r = 0; r < radialBins; r++) {
+        const row = r * angularBins;
+        // Average with the neighbouring rings to suppress sampling noise along the radius.
+        const ring = new Float32Array(angularBins);
+        for (let a = 0; a < angularBins; a++) {
+            let acc = 0;
+            let n = 0;
+            for (let dr = -1; dr <= 1; dr++) {
+                const rr = r + dr;
+                if (rr < 0 || rr >= radialBins || !valid[rr * angularBins + a]) continue;
+                acc += values[rr * angularBins + a];
+                n++;
+            }
+            ring[a] = n > 0 ? acc / n : values[row + a];
+        }
+
+        const re = new Float32Array(angularBins);
+        const im = new Float32Array(angularBins);
+        let energy = 0;
+        for (let a = 0; a < angularBins; a++) {
+            let sRe = 0;
+            let sIm = 0;
+            for (let k = -half; k <= half; k++) {
+                const v = ring[(a + k + angularBins) % angularBins];
+                sRe += v * kRe[k + half];
+                sIm += v * kIm[k + half];
+            }
+            re[a] = sRe;
+            im[a] = sIm;
+            energy += Math.hypot(sRe, sIm);
+        }
+        const floor = (energy / angularBins) * 0.1;
+
+        for (let a = 0; a < angularBins; a++) {
+            let clear = true;
+            for (let k = -core; k <= core && clear; k++) clear = valid[row + ((a + k + angularBins) % angularBins)] === 1;
+            const bit = (row + a) * 2;
+            code[bit] = re[a] >= 0 ? 1 : 0;
+            code[bit + 1] = im[a] >= 0 ? 1 : 0;
+            mask[bit] = clear && Math.abs(re[a]) > floor ? 1 : 0;
+            mask[bit + 1] = clear && Math.abs(im[a]) > floor ? 1 : 0;
+        }
+    }
+    return { version: algorithm.version, radialBins, angularBins, code, mask };
+};
+
+// --- PIPELINE ---
+
+/** Runs segmentation, normalization and encoding on one eye image, under `algorithm`. */
+export const extractIrisTemplate = (image: GrayImage, algorithm: TemplateAlgorithm = CURRENT_TEMPLATE_ALGORITHM): IrisExtraction => {
+    const segmentation = segmentIris(image);
+    const strip = normalizeIris(image, segmentation, algorithm.radialBins, algorithm.angularBins);
+    const template = encodeIris(strip, algorithm);
+    const usableBits = template.mask.reduce((sum, b) => sum + b, 0) / template.mask.length;
+    if (usableBits < 0.25) throw new IrisExtractionError('Too much of the iris is hidden. Open your eye wider and avoid glare.');
+    return { template, segmentation, strip, usableBits };
+};
+
+/**
+ * Encodes an already segmented image under another algorithm version, so one capture can also
+ * be compared with references stored under older versions.
+ */
+export const encodeIrisAs = (image: GrayImage, segmentation: IrisSegmentation, algorithm: TemplateAlgorithm): IrisTemplate =>
+    encodeIris(normalizeIris(image, segmentation, algorithm.radialBins, algorithm.angularBins), algorithm);
+
+// --- SERIALIZATION ---
+
+/** Packs a one-bit-per-byte array into base64. */
+export const packBits = (bits: Uint8Array): string => {
+    const bytes = new Uint8Array(Math.ceil(bits.length / 8));
+    for (let i = 0; i < bits.length; i++) if (bits[i]) bytes[i >> 3] |= 0x80 >> (i & 7);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+    return btoa(binary);
+};
+
+/** Inverse of `packBits`. */
+export const unpackBits = (encoded: string, length: number): Uint8Array => {
+    const binary = atob(encoded);
+    const bits = new Uint8Array(length);
+    for (let i = 0; i < length; i++) bits[i] = (binary.charCodeAt(i >> 3) >> (7 - (i & 7))) & 1;
+    return bits;
+};
+
+/** Compact string form of a template (`iris:v<version>:<radial>x<angular>:<code>:<mask>`) for storage. */
+export const serializeTemplate = (t: IrisTemplate): string =>
+    `iris:v${t.version}:${t.radialBins}x${t.angularBins}:${packBits(t.code)}:${packBits(t.mask)}`;
+
+/**
+ * Inverse of `serializeTemplate`. Strings stored before templates were versioned have no
+ * `v<version>` part and were produced by version 1. Only templates of a registered algorithm,
+ * with its bin counts, are accepted; the counts are checked before any bits are unpacked, so an
+ * untrusted string cannot size the allocation.
+ */
+export const deserializeTemplate = (s: string): IrisTemplate => {
+    const match = /^iris:(?:v(\d+):)?(\d+)x(\d+):([A-Za-z0-9+/=]*):([A-Za-z0-9+/=]*)$/.exec(s);
+    if (!match) throw new IrisExtractionError('Malformed iris template.');
+    const version = Number(match[1] ?? 1);
+    const radialBins = Number(match[2]);
+    const angularBins = Number(match[3]);
+    const algorithm = templateAlgorithm(version);
+    if (!algorithm) throw new IrisExtractionError(`Iris template version ${version} is not supported.`);
+    if (radialBins !== algorithm.radialBins || angularBins !== algorithm.angularBins) {
+        throw new IrisExtractionError(`Iris template version ${version} has ${algorithm.radialBins}x${algorithm.angularBins} bins, not ${radialBins}x${angularBins}.`);
+    }
+    const length = radialBins * angularBins * 2;
+    return { version, radialBins, angularBins, code: unpackBits(match[4], length), mask: unpackBits(match[5], length) };
+};
@@ -0,0 +1,259 @@
+// --- PRESENTATION-ATTACK (LIVENESS) DETECTION ---
+//
+// Runs after a good frame has been found and before its template is handed on. Combines:
+//   - an active challenge the person has to respond to (blink, or pupil constriction to a screen flash)
+//   - frame-to-frame micro-motion, which a print or screen on a stand does not have
+//   - texture cues: printed or displayed eyes lack a saturated corneal reflection and carry
+//     halftone / pixel-grid energy at the highest spatial frequencies
+// The passive checks are heuristics, so a capture is only rejected on them when both agree.
+//
+// The verdict travels to the server with the capture, which judges it again from its
+// measurements (`livenessProblem`). That catches a skipped or hand-edited verdict, not a client
+// built to report made-up measurements: the session runs on the person's device, so liveness is
+// only as trustworthy as the app that ran it.
+
+import { segmentIris, sampleBilinear, GLARE_LEVEL } from './irisTemplate.ts';
+import type { GrayImage, IrisExtraction, IrisSegmentation } from './irisTemplate.ts';
+
+export type LivenessChallenge = 'blink' | 'light-reflex';
+
+/** Individual liveness measurements behind a verdict. */
+export interface LivenessChecks {
+    challenge: {
+        type: LivenessChallenge;
+        passed: boolean;
+        /** Blink: lowest eye openness seen (0..1). Light reflex: relative pupil constriction. */
+        measurement: number;
+    };
+    microMotion: {
+        passed: boolean;
+        /** Mean frame-to-frame movement of the segmented boundaries, in pixels. */
+        measurement: number;
+    };
+    texture: {
+        passed: boolean;
+        cornealReflection: boolean;
+        /** Laplacian energy relative to gradient energy in the iris region. */
+        highFrequencyRatio: number;
+    };
+}
+
+/** Outcome of a liveness session, reported alongside the captured template. */
+export interface LivenessVerdict {
+    live: boolean;
+    checks: LivenessChecks | null;
+    /** User-facing explanation when `live` is false. */
+    reason: string | null;
+    /** True when no liveness session was run (offline evaluation) and the verdict is a stand-in. */
+    simulated: boolean;
+}
+
+/** Hooks the capture UI provides so the session can drive the camera and the screen. */
+export interface LivenessIO {
+    /** Returns the current camera frame, or null if none is available. */
+    grabFrame: () => GrayImage | null;
+    /** Turns the full-screen light stimulus on or off. */
+    setFlash: (on: boolean) => void;
+    /** Shows an instruction to the person (null clears it). */
+    prompt: (message: string | null) => void;
+}
+
+export const SIMULATED_LIVENESS: LivenessVerdict = { live: true, checks: null, reason: null, simulated: true };
+
+const BASELINE_FRAMES = 4;
+const FRAME_INTERVAL_MS = 100;
+const BLINK_WINDOW_FRAMES = 18;
+// Pupil constriction typically starts ~250ms after a light onset and peaks around 1s later.
+const REFLEX_LATENCY_MS = 600;
+const REFLEX_FRAMES = 3;
+
+const MIN_CONSTRICTION = 0.04;
+const BLINK_CLOSED = 0.45;
+const BLINK_REOPENED = 0.75;
+const MIN_MICRO_MOTION = 0.2;
+const MAX_HIGH_FREQUENCY_RATIO = 3.5;
+
+const NO_BLINK = 'No blink detected. Please blink once when asked.';
+const NO_LIGHT_REFLEX = 'No pupil response to light detected. Please rescan.';
+const NOT_AN_EYE = 'This looks like a photo or screen. Present your eye to the camera.';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Picks a challenge at random so a replayed recording cannot anticipate it. */
+export const pickChallenge = (): LivenessChallenge => (Math.random() < 0.5 ? 'blink' : 'light-reflex');
+
+const collectFrames = async (io: LivenessIO, count: number, intervalMs: number): Promise<GrayImage[]> => {
+    const frames: GrayImage[] = [];
+    for (let i = 0; i < count; i++) {
+        await wait(intervalMs);
+        const frame = io.grabFrame();
+        if (frame) frames.push(frame);
+    }
+    return frames;
+};
+
+const trySegment = (image: GrayImage): IrisSegmentation | null => {
+    try {
+        return segmentIris(image);
+    } catch {
+        return null;
+    }
+};
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+};
+
+/** Mean intensity over a disc (or ring, with `inner` > 0) sampled on a polar grid. */
+const ringMean = (image: GrayImage, x: number, y: number, inner: number, outer: number): number => {
+    let sum = 0;
+    let n = 0;
+    for (let k = 0; k < 4; k++) {
+        const r = inner + ((outer - inner) * (k + 0.5)) / 4;
+        for (let a = 0; a < 24; a++) {
+            const v = sampleBilinear(image, x + r * Math.cos((a / 24) * Math.PI * 2), y + r * Math.sin((a / 24) * Math.PI * 2));
+            if (Number.isNaN(v)) continue;
+            sum += v;
+            n++;
+        }
+    }
+    return n > 0 ? sum / n : NaN;
+};
+
+/** Contrast between the iris ring and the pupil at a fixed location; drops towards 0 as the lid closes. */
+const eyeContrast = (image: GrayImage, seg: IrisSegmentation): number =>
+    ringMean(image, seg.iris.x, seg.iris.y, seg.pupil.r * 1.2, seg.iris.r * 0.9) - ringMean(image, seg.pupil.x, seg.pupil.y, 0, seg.pupil.r * 0.7);
+
+/** Mean frame-to-frame movement of the pupil and limbus circles across a burst. */
+export const measureMicroMotion = (segmentations: IrisSegmentation[]): number => {
+    if (segmentations.length < 2) return 0;
+    let total = 0;
+    for (let i = 1; i < segmentations.length; i++) {
+        const a = segmentations[i - 1];
+        const b = segmentations[i];
+        total += Math.hypot(a.pupil.x - b.pupil.x, a.pupil.y - b.pupil.y) + Math.abs(a.pupil.r - b.pupil.r)
+            + Math.hypot(a.iris.x - b.iris.x, a.iris.y - b.iris.y);
+    }
+    return total / (segmentations.length - 1);
+};
+
+/** Passive texture cues on a single frame. */
+export const analyzeTexture = (image: GrayImage, seg: IrisSegmentation): LivenessChecks['texture'] => {
+    const { pupil, iris } = seg;
+
+    // A live cornea reflects ambient light sources as a small saturated spot near the pupil.
+    let cornealReflection = false;
+    const reach = pupil.r * 1.5;
+    for (let y = Math.max(0, Math.floor(pupil.y - reach)); y <= Math.min(image.height - 1, pupil.y + reach) && !cornealReflection; y++) {
+        for (let x = Math.max(0, Math.floor(pupil.x - reach)); x <= Math.min(image.width - 1, pupil.x + reach); x++) {
+            if (image.data[y * image.width + x] >= GLARE_LEVEL) {
+                cornealReflection = true;
+                break;
+            }
+        }
+    }
+
+    // Halftone dots and display pixel grids add energy at the Nyquist end of the spectrum.
+    let lapEnergy = 0;
+    let gradEnergy = 0;
+    const x0 = Math.max(1, Math.floor(iris.x - iris.r));
+    const x1 = Math.min(image.width - 2, Math.ceil(iris.x + iris.r));
+    const y0 = Math.max(1, Math.floor(iris.y - iris.r));
+    const y1 = Math.min(image.height - 2, Math.ceil(iris.y + iris.r));
+    for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+            const d = Math.hypot(x - pupil.x, y - pupil.y);
+            if (d < pupil.r * 1.2 || Math.hypot(x - iris.x, y - iris.y) > iris.r * 0.9) continue;
+            const i = y * image.width + x;
+            const lap = image.data[i - 1] + image.data[i + 1] + image.data[i - image.width] + image.data[i + image.width] - 4 * image.data[i];
+            const gx = image.data[i + 1] - image.data[i];
+            const gy = image.data[i + image.width] - image.data[i];
+            lapEnergy += lap * lap;
+            gradEnergy += gx * gx + gy * gy;
+        }
+    }
+    const highFrequencyRatio = gradEnergy > 0 ? lapEnergy / gradEnergy : 0;
+    return { passed: cornealReflection && highFrequencyRatio <= MAX_HIGH_FREQUENCY_RATIO, cornealReflection, highFrequencyRatio };
+};
+
+const runBlinkChallenge = async (io: LivenessIO, reference: IrisSegmentation, openContrast: number): Promise<LivenessChecks['challenge']> => {
+    io.prompt('Blink once now.');
+    const frames = await collectFrames(io, BLINK_WINDOW_FRAMES, FRAME_INTERVAL_MS);
+    const openness = frames.map(f => Math.max(0, eyeContrast(f, reference) / openContrast));
+    let lowest = 1;
+    let closedAt = -1;
+    openness.forEach((o, i) => {
+        if (o < lowest) lowest = o;
+        if (closedAt < 0 && o < BLINK_CLOSED) closedAt = i;
+    });
+    const reopened = closedAt >= 0 && openness.slice(closedAt + 1).some(o => o > BLINK_REOPENED);
+    return { type: 'blink', passed: reopened, measurement: lowest };
+};
+
+const runLightReflexChallenge = async (io: LivenessIO, baseline: IrisSegmentation[]): Promise<LivenessChecks['challenge']> => {
+    const before = median(baseline.map(s => s.pupil.r / s.iris.r));
+    io.prompt('Keep looking at the camera.');
+    io.setFlash(true);
+    let frames: GrayImage[];
+    try {
+        await wait(REFLEX_LATENCY_MS);
+        frames = await collectFrames(io, REFLEX_FRAMES, FRAME_INTERVAL_MS);
+    } finally {
+        io.setFlash(false);
+    }
+    const after = frames.map(trySegment).filter((s): s is IrisSegmentation => s !== null);
+    if (after.length === 0) return { type: 'light-reflex', passed: false, measurement: 0 };
+    const constriction = 1 - median(after.map(s => s.pupil.r / s.iris.r)) / before;
+    return { type: 'light-reflex', passed: constriction >= MIN_CONSTRICTION, measurement: constriction };
+};
+
+/**
+ * Runs one liveness session against the frame that passed the quality gate. Resolves with a
+ * verdict; only throws if the supplied IO hooks do.
+ */
+export const runLivenessCheck = async (
+    io: LivenessIO,
+    reference: { image: GrayImage; extraction: IrisExtraction },
+    challenge: LivenessChallenge = pickChallenge(),
+): Promise<LivenessVerdict> => {
+    try {
+        io.prompt('Hold still...');
+        const baselineFrames = await collectFrames(io, BASELINE_FRAMES, FRAME_INTERVAL_MS);
+        const baseline = [reference.extraction.segmentation, ...baselineFrames.map(trySegment).filter((s): s is IrisSegmentation => s !== null)];
+        const motion = measureMicroMotion(baseline);
+        const microMotion = { passed: motion >= MIN_MICRO_MOTION, measurement: motion };
+        const texture = analyzeTexture(reference.image, reference.extraction.segmentation);
+
+        const openContrast = Math.max(1, eyeContrast(reference.image, reference.extraction.segmentation));
+        const challengeResult = challenge === 'blink'
+            ? await runBlinkChallenge(io, reference.extraction.segmentation, openContrast)
+            : await runLightReflexChallenge(io, baseline);
+
+        const checks: LivenessChecks = { challenge: challengeResult, microMotion, texture };
+        if (!challengeResult.passed) {
+            return { live: false, checks, reason: challenge === 'blink' ? NO_BLINK : NO_LIGHT_REFLEX, simulated: false };
+        }
+        if (!microMotion.passed && !texture.passed) {
+            return { live: false, checks, reason: NOT_AN_EYE, simulated: false };
+        }
+        return { live: true, checks, reason: null, simulated: false };
+    } finally {
+        io.prompt(null);
+    }
+};
+
+/**
+ * Why `verdict` does not show a live eye, or null when it does. Judged from the measurements
+ * against this module's thresholds rather than from the `passed` and `live` flags, and a
+ * simulated verdict never passes; for the server, which only sees the verdict the app reports.
+ */
+export const livenessProblem = (verdict: LivenessVerdict): string | null => {
+    if (verdict.simulated || !verdict.checks) return 'No liveness check was run on this capture. Please rescan.';
+    const { challenge, microMotion, texture } = verdict.checks;
+    const responded = challenge.type === 'blink' ? challenge.measurement < BLINK_CLOSED : challenge.measurement >= MIN_CONSTRICTION;
+    if (!challenge.passed || !responded) return challenge.type === 'blink' ? NO_BLINK : NO_LIGHT_REFLEX;
+    const moved = microMotion.passed && microMotion.measurement >= MIN_MICRO_MOTION;
+    const textured = texture.passed && texture.cornealReflection && texture.highFrequencyRatio <= MAX_HIGH_FREQUENCY_RATIO;
+    return moved || textured ? null : NOT_AN_EYE;
+};
@@ -0,0 +1,110 @@
+// --- MATCHING ACCURACY EVALUATION ---
+//
+// Error-rate arithmetic for a set of scored comparisons: genuine pairs (two samples of the same
+// eye) and impostor pairs (samples of different eyes). A comparison is accepted when its
+// Hamming distance is at or below the threshold, exactly as `matchTemplates` decides, so
+//   FAR(t) = share of impostor pairs with distance <= t   (false accepts)
+//   FRR(t) = share of genuine pairs with distance > t     (false rejects)
+// The equal error rate (EER) is where the two curves cross.
+
+/** One compared pair. */
+export interface ScoredComparison {
+    genuine: boolean;
+    /** Best masked Hamming distance over the shift window (0..1). */
+    distance: number;
+}
+
+/** Error rates at one threshold; `far` against `frr` is the DET curve, `far` against `1 - frr` the ROC. */
+export interface ErrorRatePoint {
+    threshold: number;
+    far: number;
+    frr: number;
+}
+
+export interface EqualErrorRate {
+    eer: number;
+    /** Threshold at which FAR and FRR are (interpolated to be) equal. */
+    threshold: number;
+}
+
+/** Inclusive list of thresholds from `from` to `to` in `step` increments, rounded to avoid float drift. */
+export const thresholdRange = (from: number, to: number, step: number): number[] => {
+    if (!(step > 0) || to < from) throw new RangeError('Threshold range must have from <= to and a positive step.');
+    const thresholds: number[] = [];
+    const count = Math.round((to - from) / step);
+    for (let i = 0; i <= count; i++) thresholds.push(Number((from + i * step).toFixed(6)));
+    return thresholds;
+};
+
+/** Number of values in ascending `sorted` that are <= `limit`. */
+const countAtOrBelow = (sorted: number[], limit: number): number => {
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (sorted[mid] <= limit) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+};
+
+const split = (comparisons: ScoredComparison[]) => {
+    const genuine = comparisons.filter(c => c.genuine).map(c => c.distance).sort((a, b) => a - b);
+    const impostor = comparisons.filter(c => !c.genuine).map(c => c.distance).sort((a, b) => a - b);
+    if (genuine.length === 0 || impostor.length === 0) {
+        throw new RangeError('Error rates need at least one genuine and one impostor comparison.');
+    }
+    return { genuine, impostor };
+};
+
+const ratesAt = (genuine: number[], impostor: number[], threshold: number): ErrorRatePoint => ({
+    threshold,
+    far: countAtOrBelow(impostor, threshold) / impostor.length,
+    frr: 1 - countAtOrBelow(genuine, threshold) / genuine.length,
+});
+
+/** FAR and FRR at each of `thresholds`. */
+export const errorRateCurve = (comparisons: ScoredComparison[], thresholds: number[]): ErrorRatePoint[] => {
+    const { genuine, impostor } = split(comparisons);
+    return thresholds.map(t => ratesAt(genuine, impostor, t));
+};
+
+/**
+ * Equal error rate over every distinct score. When the classes separate perfectly the EER is 0
+ * and the threshold is the midpoint of the gap between them; otherwise the crossing is
+ * interpolated between the two thresholds on either side of it.
+ */
+export const equalErrorRate = (comparisons: ScoredComparison[]): EqualErrorRate => {
+    const { genuine, impostor } = split(comparisons);
+    const worstGenuine = genuine[genuine.length - 1];
+    const bestImpostor = impostor[0];
+    if (worstGenuine < bestImpostor) return { eer: 0, threshold: (worstGenuine + bestImpostor) / 2 };
+
+    const candidates = [...new Set([...genuine, ...impostor])].sort((a, b) => a - b);
+    let previous = ratesAt(genuine, impostor, -Infinity);
+    for (const t of candidates) {
+        const point = ratesAt(genuine, impostor, t);
+        if (point.far >= point.frr) {
+            // FAR - FRR moved from negative to non-negative between `previous` and `point`.
+            const before = previous.far - previous.frr;
+            const after = point.far - point.frr;
+            const w = after === before ? 0 : -before / (after - before);
+            const lower = Number.isFinite(previous.threshold) ? previous.threshold : t;
+            return {
+                eer: previous.frr + (point.frr - previous.frr) * w,
+                threshold: lower + (t - lower) * w,
+            };
+        }
+        previous = point;
+    }
+    return { eer: 1, threshold: candidates[candidates.length - 1] };
+};
+
+/** Mean and standard deviation of one class's distances, for the report's score summary. */
+export const distanceStatistics = (comparisons: ScoredComparison[], genuine: boolean): { count: number; mean: number; std: number } => {
+    const values = comparisons.filter(c => c.genuine === genuine).map(c => c.distance);
+    if (values.length === 0) return { count: 0, mean: NaN, std: NaN };
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    return { count: values.length, mean, std: Math.sqrt(variance) };
+};
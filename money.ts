@@ -0,0 +1,155 @@
+// --- MONEY ---
+//
+// Amounts of money as a whole number of minor units of their currency (cents, pence, yen), so
+// sums never drift the way binary fractions do (0.1 + 0.2). Every amount in the API, the ledger
+// and the app is a `Money`, and it travels as such in JSON. Arithmetic only combines amounts of
+// one currency and throws `MoneyError` otherwise. Whatever can produce a fraction of a minor unit
+// (a percentage, a conversion) rounds to the currency's minor unit (currencies.ts) with an
+// explicit `Rounding`; typed input is parsed from its decimal text, never through a float.
+// Splitting an amount uses `allocate`, whose parts always add up to the whole.
+
+import { minorUnits } from './currencies.ts';
+
+export interface Money {
+    /** Whole minor units of `currency`, e.g. 1250 for $12.50 or for ¥1,250. */
+    readonly units: number;
+    /** ISO 4217 code. */
+    readonly currency: string;
+}
+
+/**
+ * How a fraction of a minor unit is rounded: to the nearest unit with ties to even (the default,
+ * unbiased over many amounts) or away from zero, or always up or down.
+ */
+export type Rounding = 'half-even' | 'half-up' | 'up' | 'down';
+
+/** Thrown for an amount that is not whole minor units, or for mixing currencies. */
+export class MoneyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MoneyError';
+    }
+}
+
+export const money = (units: number, currency: string): Money => {
+    if (!Number.isSafeInteger(units)) throw new MoneyError(`${units} is not a whole number of ${currency} minor units.`);
+    return { units, currency };
+};
+
+export const zero = (currency: string): Money => money(0, currency);
+
+/** Whether `value` has the shape of a `Money`, e.g. in a request body. */
+export const isMoney = (value: unknown): value is Money =>
+    typeof value === 'object' && value !== null
+    && Number.isSafeInteger((value as Money).units) && typeof (value as Money).currency === 'string';
+
+// Products of floats land a hair off the exact value (0.29 * 100 is 28.999999999999996), which
+// must not decide rounding. Differences below this many units count as none.
+const TOLERANCE = 1e-9;
+
+const roundUnits = (units: number, rounding: Rounding): number => {
+    const floor = Math.floor(units + TOLERANCE);
+    const fraction = units - floor;
+    if (Math.abs(fraction) < TOLERANCE) return floor;
+    switch (rounding) {
+        case 'up': return floor + 1;
+        case 'down': return floor;
+        case 'half-up': return fraction >= 0.5 - TOLERANCE ? floor + 1 : floor;
+        case 'half-even':
+            if (Math.abs(fraction - 0.5) < TOLERANCE) return floor % 2 === 0 ? floor : floor + 1;
+            return fraction > 0.5 ? floor + 1 : floor;
+    }
+};
+
+/** An amount given in major units (dollars, euros), e.g. from configuration, rounded to a minor unit. */
+export const fromMajor = (amount: number, currency: string, rounding: Rounding = 'half-even'): Money =>
+    money(roundUnits(amount * 10 ** minorUnits(currency), rounding), currency);
+
+/** The amount in major units, for display and thresholds only; never compute with it. */
+export const toMajor = ({ units, currency }: Money): number => units / 10 ** minorUnits(currency);
+
+/**
+ * Parses typed decimal text such as "12.5" or "1250" into `currency`, or null when it is not a
+ * plain non-negative amount with at most the currency's number of decimals.
+ */
+export const parseMoney = (text: string, currency: string): Money | null => {
+    const digits = minorUnits(currency);
+    const match = /^(\d+)(?:\.(\d*))?$/.exec(text.trim());
+    if (!match || (match[2] ?? '').length > digits) return null;
+    const units = Number(match[1] + (match[2] ?? '').padEnd(digits, '0'));
+    return Number.isSafeInteger(units) ? money(units, currency) : null;
+};
+
+/** The amount as plain decimal text with the currency's decimals, e.g. "12.50" or "1250". */
+export const toDecimalString = ({ units, currency }: Money): string => {
+    const digits = minorUnits(currency);
+    const sign = units < 0 ? '-' : '';
+    const text = String(Math.abs(units)).padStart(digits + 1, '0');
+    return digits === 0 ? sign + text : `${sign}${text.slice(0, -digits)}.${text.slice(-digits)}`;
+};
+
+/** The amount for display in the user's locale, e.g. "$12.50", "€12.50" or "¥1,250". */
+export const formatMoney = (amount: Money): string => {
+    const digits = minorUnits(amount.currency);
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: amount.currency, minimumFractionDigits: digits, maximumFractionDigits: digits })
+        .format(toMajor(amount));
+};
+
+const assertSameCurrency = (a: Money, b: Money): void => {
+    if (a.currency !== b.currency) throw new MoneyError(`Cannot combine ${a.currency} with ${b.currency}.`);
+};
+
+export const add = (a: Money, b: Money): Money => {
+    assertSameCurrency(a, b);
+    return money(a.units + b.units, a.currency);
+};
+
+export const subtract = (a: Money, b: Money): Money => {
+    assertSameCurrency(a, b);
+    return money(a.units - b.units, a.currency);
+};
+
+/** The total of `amounts`, all in `currency`; zero when there are none. */
+export const sum = (amounts: Money[], currency: string): Money => amounts.reduce(add, zero(currency));
+
+/** Negative, zero or positive as `a` is less than, equal to or greater than `b`. */
+export const compare = (a: Money, b: Money): number => {
+    assertSameCurrency(a, b);
+    return Math.sign(a.units - b.units);
+};
+
+/** Whether both are the same amount in the same currency; unlike `compare`, never throws. */
+export const equals = (a: Money, b: Money): boolean => a.currency === b.currency && a.units === b.units;
+
+export const isPositive = (amount: Money): boolean => amount.units > 0;
+
+/** `amount` times `factor`, e.g. a percentage, rounded to a minor unit. */
+export const multiply = (amount: Money, factor: number, rounding: Rounding = 'half-even'): Money =>
+    money(roundUnits(amount.units * factor, rounding), amount.currency);
+
+/**
+ * `amount` in `currency` at `rate` (units of `currency` per unit of `amount.currency`), rounded
+ * to a minor unit of `currency`.
+ */
+export const convert = (amount: Money, rate: number, currency: string, rounding: Rounding = 'half-even'): Money =>
+    money(roundUnits(amount.units * rate * 10 ** (minorUnits(currency) - minorUnits(amount.currency)), rounding), currency);
+
+/**
+ * Splits `amount` in proportion to `ratios` (at least one, none negative, not all zero). Each part
+ * is rounded down and the units left over go one each to the parts that lost the most to
+ * rounding, so the parts always add up to `amount`.
+ */
+export const allocate = (amount: Money, ratios: number[]): Money[] => {
+    const total = ratios.reduce((a, b) => a + b, 0);
+    if (ratios.length === 0 || ratios.some(r => r < 0) || !(total > 0)) throw new MoneyError('Cannot allocate by these ratios.');
+    const exact = ratios.map(ratio => amount.units * ratio / total);
+    const parts = exact.map(share => roundUnits(share, 'down'));
+    let left = amount.units - parts.reduce((a, b) => a + b, 0);
+    const byRemainder = exact.map((share, i) => ({ i, remainder: share - parts[i] })).sort((a, b) => b.remainder - a.remainder || a.i - b.i);
+    for (const { i } of byRemainder) {
+        if (left <= 0) break;
+        parts[i] += 1;
+        left -= 1;
+    }
+    return parts.map(units => money(units, amount.currency));
+};
@@ -0,0 +1,160 @@
+// --- PAYMENT CODES ---
+//
+// What a merchant's QR code carries. The payload is versioned text, so older scanners can refuse
+// codes they do not understand instead of misreading them:
+//
+//   irispay:pay?v=2&r=<request id>&m=<merchant id>&a=<amount>&c=<currency>&e=<expiry, Unix seconds>&s=<signature>
+//
+// The amount is decimal text with exactly the currency's number of decimals ("12.50", "1250" for
+// yen), read back into minor units without going through a float.
+//
+// Everything before `&s=` is the signed message: the server signs it with the merchant's key
+// (ECDSA P-256 with SHA-256, base64url) when the request is created, so editing the amount, the
+// merchant or the expiry breaks the signature. Version 1 codes were unsigned and are refused.
+// Both the scanner and the server check the signature with the merchant's public key before
+// any iris verification starts, and the request on the server stays authoritative: a code whose
+// details disagree with it is refused. Rendering uses `qrcode`, decoding uses `jsqr` on plain
+// RGBA pixels, so any frame source (camera, uploaded image) can feed it.
+
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+import type { PaymentRequest } from './apiTypes.ts';
+import type { RgbaPixels } from './irisTemplate.ts';
+import { type Money, equals, parseMoney, toDecimalString } from './money.ts';
+
+export const PAYMENT_CODE_VERSION = 2;
+
+const PAYMENT_CODE_PREFIX = 'irispay:pay?';
+
+/** The signature algorithm of merchant signing keys, as WebCrypto names it. */
+const SIGNATURE_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' } as const;
+
+/** The fields of a payment code, as decoded. */
+export interface PaymentCodePayload {
+    version: number;
+    requestId: string;
+    merchantId: string;
+    amount: Money;
+    /** ISO timestamp, to the second. */
+    expiresAt: string;
+    /** The merchant's signature over `paymentCodeMessage`, base64url. */
+    signature: string;
+}
+
+export type PaymentCodeProblem = 'malformed' | 'unsigned' | 'unsupported-version' | 'expired' | 'forged' | 'mismatch';
+
+/** Thrown when a scanned code cannot be used; the message is user-facing. */
+export class PaymentCodeError extends Error {
+    readonly problem: PaymentCodeProblem;
+
+    constructor(problem: PaymentCodeProblem, message: string) {
+        super(message);
+        this.name = 'PaymentCodeError';
+        this.problem = problem;
+    }
+}
+
+export const toBase64Url = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const fromBase64Url = (encoded: string): Uint8Array => {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+/** Expiry as the whole Unix seconds a code carries. */
+const expirySeconds = (expiresAt: string): number => Math.floor(Date.parse(expiresAt) / 1000);
+
+/** The part of a code the merchant signs: every field but the signature, in a fixed order. */
+export const paymentCodeMessage = (fields: Pick<PaymentRequest, 'id' | 'merchantId' | 'amount' | 'expiresAt'>): string =>
+    PAYMENT_CODE_PREFIX + new URLSearchParams({
+        v: String(PAYMENT_CODE_VERSION),
+        r: fields.id,
+        m: fields.merchantId,
+        a: toDecimalString(fields.amount),
+        c: fields.amount.currency,
+        e: String(expirySeconds(fields.expiresAt)),
+    }).toString();
+
+/** The text a request's QR code encodes. */
+export const encodePaymentCode = (request: PaymentRequest): string =>
+    `${paymentCodeMessage(request)}&s=${request.signature}`;
+
+/**
+ * Reads a scanned code. Throws `PaymentCodeError` when it is not an IrisPay payment code, is
+ * unsigned, comes from a newer version of the app, or has expired at `now`. The signature itself
+ * is checked by `verifyPaymentCodeSignature`.
+ */
+export const parsePaymentCode = (text: string, now = Date.now()): PaymentCodePayload => {
+    const malformed = new PaymentCodeError('malformed', 'This is not an IrisPay payment code.');
+    const trimmed = text.trim();
+    if (!trimmed.startsWith(PAYMENT_CODE_PREFIX)) throw malformed;
+    const params = new URLSearchParams(trimmed.slice(PAYMENT_CODE_PREFIX.length));
+
+    const version = Number(params.get('v'));
+    if (!Number.isInteger(version) || version < 1) throw malformed;
+    if (version < PAYMENT_CODE_VERSION) {
+        throw new PaymentCodeError('unsigned', 'This payment code is not signed by the merchant. Please ask the merchant for a new one.');
+    }
+    if (version > PAYMENT_CODE_VERSION) {
+        throw new PaymentCodeError('unsupported-version', 'This payment code needs a newer version of IrisPay.');
+    }
+
+    const requestId = params.get('r') ?? '';
+    const merchantId = params.get('m') ?? '';
+    const currency = params.get('c') ?? '';
+    const amount = /^[A-Z]{3}$/.test(currency) ? parseMoney(params.get('a') ?? '', currency) : null;
+    const expiry = Number(params.get('e'));
+    const signature = params.get('s') ?? '';
+    if (!requestId || !merchantId || !amount || !(amount.units > 0) || !Number.isInteger(expiry) || !/^[\w-]+$/.test(signature)) {
+        throw malformed;
+    }
+    if (expiry * 1000 <= now) {
+        throw new PaymentCodeError('expired', 'This payment code has expired. Please ask the merchant for a new one.');
+    }
+    return { version, requestId, merchantId, amount, expiresAt: new Date(expiry * 1000).toISOString(), signature };
+};
+
+/**
+ * Throws `PaymentCodeError` unless `code` carries a valid signature by the holder of
+ * `publicKey` (the merchant's SPKI key, base64url). Runs on WebCrypto, in the browser and on
+ * the server alike.
+ */
+export const verifyPaymentCodeSignature = async (code: PaymentCodePayload, publicKey: string): Promise<void> => {
+    const message = paymentCodeMessage({ id: code.requestId, merchantId: code.merchantId, amount: code.amount, expiresAt: code.expiresAt });
+    let valid = false;
+    try {
+        const key = await crypto.subtle.importKey('spki', fromBase64Url(publicKey), SIGNATURE_ALGORITHM, false, ['verify']);
+        valid = await crypto.subtle.verify(SIGNATURE_ALGORITHM, key, fromBase64Url(code.signature), new TextEncoder().encode(message));
+    } catch {
+        valid = false;
+    }
+    if (!valid) {
+        throw new PaymentCodeError('forged', 'This payment code was altered or not issued by this merchant. Do not pay it.');
+    }
+};
+
+/** Throws `PaymentCodeError` unless the code describes `request` as the server knows it. */
+export const assertCodeMatchesRequest = (code: PaymentCodePayload, request: PaymentRequest): void => {
+    const matches = code.requestId === request.id
+        && code.merchantId === request.merchantId
+        && equals(code.amount, request.amount)
+        && code.expiresAt === new Date(expirySeconds(request.expiresAt) * 1000).toISOString()
+        && code.signature === request.signature;
+    if (!matches) {
+        throw new PaymentCodeError('mismatch', "This payment code does not match the merchant's request. Please ask the merchant for a new one.");
+    }
+};
+
+/** A PNG data URL of the request's QR code, for an `<img>`. */
+export const renderPaymentCode = (request: PaymentRequest): Promise<string> =>
+    QRCode.toDataURL(encodePaymentCode(request), { errorCorrectionLevel: 'M', margin: 2, width: 256 });
+
+/** The text of the first QR code found in `pixels`, or null when there is none. */
+export const scanQrCode = ({ width, height, data }: RgbaPixels): string | null => {
+    const clamped = data instanceof Uint8ClampedArray ? data : new Uint8ClampedArray(data.buffer, data.byteOffset, data.byteLength);
+    return jsQR(clamped, width, height, { inversionAttempts: 'attemptBoth' })?.data ?? null;
+};
@@ -1,20 +0,0 @@
-import express from "express";
-import mongoose from "mongoose";
-import cors from "cors";
-import authRoutes from "./routes/auth.js";
-
-const app = express();
-app.use(cors());
-app.use(express.json());
-
-// MongoDB connection
-mongoose.connect("mongodb://127.0.0.1:27017/irispay", {
-  useNewUrlParser: true,
-  useUnifiedTopology: true,
-}).then(() => console.log("✅ MongoDB connected"))
-  .catch(err => console.error("❌ MongoDB error:", err));
-
-// Routes
-app.use("/api/auth", authRoutes);
-
-app.listen(5000, () => console.log("🚀 Server running on port 5000"));
@@ -0,0 +1,173 @@
+// --- ACCOUNT STORE ---
+//
+// Accounts and their enrolled irises, on top of the user and protection-key repositories.
+// Stored iris templates are protected (see templateProtection.ts) and their keys live in a
+// repository of their own, so the user records alone cannot be matched against, and a revoked
+// key is dropped. All biometric comparisons run here, on the server; the app only ever sends
+// fresh captures.
+
+import { randomUUID } from 'node:crypto';
+import type { IrisTemplate } from '../irisTemplate.ts';
+import { EYE_SIDES, nextVerificationStep } from '../dualEye.ts';
+import type { EyeComparison, EyeSide, VerificationPolicy, VerificationStep } from '../dualEye.ts';
+import { issueProtectionKey, protectTemplate, reissueProtectedTemplate, matchProtectedTemplate, findBestProtectedMatch, serializeProtectedTemplate, deserializeProtectedTemplate } from '../templateProtection.ts';
+import type { ProtectedTemplate, ProtectionKey } from '../templateProtection.ts';
+import { migrateProtectedTemplate, needsMigration, probeForVersion, templateVersionReport } from '../templateMigration.ts';
+import type { TemplateVersionCount } from '../templateMigration.ts';
+import type { PublicUser } from '../apiTypes.ts';
+import { DEFAULT_CURRENCY } from '../currencies.ts';
+import { storage } from './storage.ts';
+import type { UserRecord } from './repositories/types.ts';
+
+/** Profile fields supplied at registration. */
+export type AccountProfile = Pick<UserRecord, 'name' | 'email' | 'userType' | 'merchantName'>;
+
+/**
+ * Protects each eye's template under one freshly issued key, stored in the key repository, and
+ * returns the form stored on the account.
+ */
+export const protectForStorage = async (templates: Partial<Record<EyeSide, IrisTemplate>>): Promise<Partial<Record<EyeSide, string>>> => {
+    const key = await storage().protectionKeys.insert(issueProtectionKey());
+    const stored: Partial<Record<EyeSide, string>> = {};
+    for (const side of EYE_SIDES) {
+        const template = templates[side];
+        if (template) stored[side] = serializeProtectedTemplate(protectTemplate(template, key));
+    }
+    return stored;
+};
+
+/** Sides the account has an enrolled template for. */
+const enrolledEyes = (account: UserRecord): EyeSide[] => EYE_SIDES.filter(side => account.irisTemplates[side]);
+
+/** The account's stored protected templates, one per enrolled eye. */
+const storedTemplates = (account: UserRecord): ProtectedTemplate[] =>
+    enrolledEyes(account).map(side => deserializeProtectedTemplate(account.irisTemplates[side]!));
+
+type ProtectedReference = { template: ProtectedTemplate; key: ProtectionKey };
+
+/** Looks up one eye's protected reference and its key; null if not enrolled or the key has been revoked. */
+const resolveProtectedReference = async (account: UserRecord, side: EyeSide): Promise<ProtectedReference | null> => {
+    const stored = account.irisTemplates[side];
+    if (!stored) return null;
+    const template = deserializeProtectedTemplate(stored);
+    const key = await storage().protectionKeys.findById(template.keyId);
+    return key ? { template, key } : null;
+};
+
+/**
+ * Every enrolled eye of every account with its resolved reference, for 1:N search; `eye` limits
+ * it to one side.
+ */
+const enrolledEyeCandidates = async (eye: EyeSide | null = null): Promise<{ account: UserRecord; side: EyeSide; reference: ProtectedReference | null }[]> => {
+    const accounts = await storage().users.list();
+    const eyes = accounts.flatMap(account => enrolledEyes(account).filter(side => !eye || side === eye).map(side => ({ account, side })));
+    return Promise.all(eyes.map(async c => ({ ...c, reference: await resolveProtectedReference(c.account, c.side) })));
+};
+
+/** The account as the API shows it: profile plus a summary of the enrollment, no templates. */
+export const toPublicUser = (account: UserRecord): PublicUser => {
+    const { id, name, email, walletId, bankLinked, userType, merchantName } = account;
+    const stored = storedTemplates(account);
+    return {
+        id,
+        name,
+        email,
+        walletId,
+        bankLinked,
+        userType,
+        ...(merchantName !== undefined && { merchantName }),
+        iris: {
+            eyes: enrolledEyes(account),
+            keyId: stored[0]?.keyId ?? null,
+            versions: [...new Set(stored.map(t => t.version))],
+            migrationPending: stored.some(t => needsMigration(t.version)),
+        },
+    };
+};
+
+export const findAccountById = (id: string): Promise<UserRecord | null> => storage().users.findById(id);
+
+export const findAccountByEmail = (email: string): Promise<UserRecord | null> => storage().users.findByEmail(email);
+
+export const listMerchants = (): Promise<UserRecord[]> => storage().users.list({ userType: 'merchant' });
+
+/** Whether any enrolled eye of any account matches `template`, e.g. an iris enrolling a second time. */
+export const isIrisEnrolled = async (template: IrisTemplate): Promise<boolean> =>
+    findBestProtectedMatch(template, await enrolledEyeCandidates(), c => c.reference) !== null;
+
+/**
+ * Creates an account and its empty wallet in `currency`, with the given enrollment templates
+ * protected under a new key.
+ */
+export const createAccount = async (profile: AccountProfile, templates: Partial<Record<EyeSide, IrisTemplate>>, currency: string = DEFAULT_CURRENCY): Promise<UserRecord> => {
+    const { users, wallets } = storage();
+    const account = await users.insert({
+        id: `${profile.userType}-${randomUUID()}`,
+        ...profile,
+        walletId: `w-${randomUUID()}`,
+        bankLinked: true,
+        irisTemplates: await protectForStorage(templates),
+    });
+    await wallets.insert({ id: account.walletId, ownerId: account.id, currency });
+    return account;
+};
+
+/**
+ * 1:N identification of a capture, given as its per-version probes, among the enrolled eyes of
+ * side `eye` (or both sides when null). A matched eye stored under an older template version
+ * is silently re-enrolled under the current one.
+ */
+export const identifyAccount = async (probes: IrisTemplate[], eye: EyeSide | null): Promise<UserRecord | null> => {
+    const match = findBestProtectedMatch(probes, await enrolledEyeCandidates(eye), c => c.reference);
+    if (!match) return null;
+    const { account, side, reference } = match.candidate;
+    const migrated = migrateProtectedTemplate(reference!.template, reference!.key, probes);
+    if (!migrated) return account;
+    const updated = { ...account, irisTemplates: { ...account.irisTemplates, [side]: serializeProtectedTemplate(migrated) } };
+    return (await storage().users.update(updated)) ?? account;
+};
+
+/**
+ * Compares a capture of `side` against the account's template for that eye; null if the template
+ * cannot be resolved or its version can no longer be extracted.
+ */
+export const compareWithEnrolledEye = async (account: UserRecord, probes: IrisTemplate[], side: EyeSide): Promise<EyeComparison | null> => {
+    const reference = await resolveProtectedReference(account, side);
+    const probe = reference && probeForVersion(probes, reference.template.version);
+    return reference && probe && { side, result: matchProtectedTemplate(probe, reference.template, reference.key) };
+};
+
+/**
+ * Verifies the account from captures of one or both eyes, in the order they were taken, under
+ * `policy`, exactly as the app decides (`nextVerificationStep`). 'next-eye' means an eye the
+ * policy needs is missing. Null if a template cannot be resolved.
+ */
+export const verifyEnrolledEyes = async (account: UserRecord, captures: { probes: IrisTemplate[]; eye: EyeSide }[], policy: VerificationPolicy): Promise<VerificationStep | null> => {
+    const comparisons: EyeComparison[] = [];
+    for (const { probes, eye } of captures) {
+        const comparison = await compareWithEnrolledEye(account, probes, eye);
+        if (!comparison) return null;
+        comparisons.push(comparison);
+    }
+    return nextVerificationStep(policy, comparisons, enrolledEyes(account));
+};
+
+/** Re-keys the account's stored templates and revokes the old key; no new scan is needed. Null if already revoked. */
+export const revokeIrisKey = async (account: UserRecord): Promise<UserRecord | null> => {
+    const { users, protectionKeys } = storage();
+    const references = await Promise.all(enrolledEyes(account).map(async side => ({ side, reference: await resolveProtectedReference(account, side) })));
+    const oldKey = references[0]?.reference?.key;
+    if (!oldKey || references.some(r => !r.reference)) return null;
+    const newKey = await protectionKeys.insert(issueProtectionKey());
+    const irisTemplates: Partial<Record<EyeSide, string>> = {};
+    for (const { side, reference } of references) {
+        irisTemplates[side] = serializeProtectedTemplate(reissueProtectedTemplate(reference!.template, reference!.key, newKey));
+    }
+    const updated = await users.update({ ...account, irisTemplates });
+    await protectionKeys.remove(oldKey.id);
+    return updated;
+};
+
+/** Accounts still on each template version; see `templateVersionReport`. */
+export const templateVersionCounts = async (): Promise<TemplateVersionCount[]> =>
+    templateVersionReport((await storage().users.list()).map(storedTemplates));
@@ -0,0 +1,46 @@
+// --- AUTH TOKENS ---
+//
+// Sessions are stateless bearer JWTs whose subject is the account id. `requireAuth` guards the
+// endpoints that act on the signed-in account and hands that account to the handler through
+// `res.locals.account`.
+
+import { randomBytes } from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import type { RequestHandler, Response } from 'express';
+import { findAccountById } from './accountStore.ts';
+import type { UserRecord } from './repositories/types.ts';
+import { HttpError } from './httpError.ts';
+
+/**
+ * Signing secret from `JWT_SECRET`. Without one a random secret is generated, which is fine for
+ * development but signs everyone out on every restart.
+ */
+const JWT_SECRET = process.env.JWT_SECRET || (() => {
+    console.warn('JWT_SECRET is not set; using a random secret for this process.');
+    return randomBytes(32).toString('hex');
+})();
+
+/** Token lifetime in seconds, from `JWT_TTL_SECONDS`. */
+const TOKEN_TTL_SECONDS = Number(process.env.JWT_TTL_SECONDS) || 60 * 60;
+
+export const issueToken = (account: UserRecord): string =>
+    jwt.sign({}, JWT_SECRET, { subject: account.id, expiresIn: TOKEN_TTL_SECONDS });
+
+/** The account `requireAuth` authenticated for this request. */
+export const authenticatedAccount = (res: Response): UserRecord => res.locals.account as UserRecord;
+
+/** Rejects the request with 401 unless it carries a valid `Authorization: Bearer` token of an existing account. */
+export const requireAuth: RequestHandler = async (req, res, next) => {
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+    if (scheme !== 'Bearer' || !token) throw new HttpError(401, 'Please log in.');
+    let subject: string | undefined;
+    try {
+        subject = jwt.verify(token, JWT_SECRET).sub as string | undefined;
+    } catch {
+        throw new HttpError(401, 'Your session has expired. Please log in again.');
+    }
+    const account = subject ? await findAccountById(subject) : null;
+    if (!account) throw new HttpError(401, 'Your session has expired. Please log in again.');
+    res.locals.account = account;
+    next();
+};
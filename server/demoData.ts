@@ -0,0 +1,59 @@
+// --- DEMO DATA ---
+//
+// Seeds an empty store with a few accounts, funded wallets and past transactions, all posted to
+// the ledger like real ones. Coffee Corner takes euros, and Alice holds some to pay it with. The
+// demo accounts are enrolled from synthetic people, so choosing the synthetic source with an
+// account's name as seed signs in as that account.
+
+import { extractIrisTemplate, toGrayImage } from '../irisTemplate.ts';
+import type { IrisTemplate } from '../irisTemplate.ts';
+import { createSyntheticIris, renderSyntheticEye, syntheticEyeSeed } from '../syntheticIris.ts';
+import type { EyeSide } from '../dualEye.ts';
+import { protectForStorage } from './accountStore.ts';
+import { postTopUp } from './ledger.ts';
+import { transactionEntries } from './payments.ts';
+import { storage } from './storage.ts';
+import { type Money, money } from '../money.ts';
+import type { TransactionRecord, UserRecord, WalletRecord } from './repositories/types.ts';
+
+const enrollSyntheticEye = (seed: string, eye: EyeSide): IrisTemplate =>
+    extractIrisTemplate(toGrayImage(renderSyntheticEye(createSyntheticIris(syntheticEyeSeed(seed, eye))))).template;
+
+const enrollSyntheticPerson = (seed: string): Record<EyeSide, IrisTemplate> => ({
+    left: enrollSyntheticEye(seed, 'left'),
+    right: enrollSyntheticEye(seed, 'right'),
+});
+
+/** Demo accounts with their wallet's home currency and the top-ups it starts from. */
+const DEMO_ACCOUNTS: (Omit<UserRecord, 'irisTemplates'> & { currency: string; topUps: Money[] })[] = [
+    { id: 'client-001', name: 'Alice Smith', email: 'alice@client.com', walletId: 'w-001', bankLinked: true, userType: 'client', currency: 'USD', topUps: [money(500_00, 'USD'), money(100_00, 'EUR')] },
+    { id: 'client-002', name: 'Bob Johnson', email: 'bob@client.com', walletId: 'w-002', bankLinked: true, userType: 'client', currency: 'USD', topUps: [money(500_00, 'USD')] },
+    { id: 'merchant-001', name: 'Charlie Merchant', email: 'charlie@merchant.com', walletId: 'w-m01', bankLinked: true, userType: 'merchant', merchantName: 'Groovy Groceries', currency: 'USD', topUps: [] },
+    { id: 'merchant-002', name: 'Dana Barista', email: 'dana@merchant.com', walletId: 'w-m02', bankLinked: true, userType: 'merchant', merchantName: 'Coffee Corner', currency: 'EUR', topUps: [] },
+];
+
+const DEMO_TOP_UP_TIME = '2025-09-27T09:00:00Z';
+
+const DEMO_TRANSACTIONS: TransactionRecord[] = [
+    { id: 'tx-001', amount: money(45_99, 'USD'), status: 'completed', timestamp: '2025-09-28T10:00:00Z', merchantId: 'merchant-001', merchantName: 'Groovy Groceries', clientId: 'client-001', clientName: 'Alice Smith' },
+    { id: 'tx-002', amount: money(11_50, 'EUR'), status: 'completed', timestamp: '2025-09-28T11:30:00Z', merchantId: 'merchant-002', merchantName: 'Coffee Corner', clientId: 'client-001', clientName: 'Alice Smith' },
+    { id: 'tx-003', amount: money(88_00, 'USD'), status: 'completed', timestamp: '2025-09-27T15:45:00Z', merchantId: 'merchant-001', merchantName: 'Groovy Groceries', clientId: 'client-002', clientName: 'Bob Johnson' },
+];
+
+/** Seeds the demo data unless the store already holds accounts. Returns whether it did. */
+export const seedDemoData = async (): Promise<boolean> => {
+    const { users, wallets, payments } = storage();
+    if (await users.count() > 0) return false;
+    const walletsByOwner = new Map<string, WalletRecord>();
+    for (const { currency, topUps, ...demo } of DEMO_ACCOUNTS) {
+        await users.insert({ ...demo, irisTemplates: await protectForStorage(enrollSyntheticPerson(demo.name)) });
+        const wallet = await wallets.insert({ id: demo.walletId, ownerId: demo.id, currency });
+        walletsByOwner.set(demo.id, wallet);
+        for (const topUp of topUps) await postTopUp(wallet, topUp, DEMO_TOP_UP_TIME);
+    }
+    for (const transaction of DEMO_TRANSACTIONS) {
+        const journal = transactionEntries(walletsByOwner.get(transaction.clientId!)!, walletsByOwner.get(transaction.merchantId!)!, transaction);
+        await payments.commit({ journal, transaction });
+    }
+    return true;
+};
@@ -0,0 +1,55 @@
+// --- EXCHANGE RATES ---
+//
+// Payments from a balance in another currency than the request's are converted at a locally
+// configured rate table: what one US dollar is worth in each supported currency, read from the
+// JSON file at `FX_RATES_FILE` (e.g. {"EUR": 0.92, "JPY": 149.5}) or the defaults below. The
+// service keeps a spread on the mid rate, `FX_SPREAD` (default 1%), and rounds the amount taken
+// from the payer up to their currency's minor unit, so a conversion never costs the service.
+// Quotes are deterministic for a given table, and the client confirms the quoted rate when paying.
+
+import { readFileSync } from 'node:fs';
+import type { CurrencyConversion } from '../apiTypes.ts';
+import { SUPPORTED_CURRENCIES } from '../currencies.ts';
+import { type Money, convert } from '../money.ts';
+
+const DEFAULT_USD_RATES: Record<string, number> = {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    CHF: 0.88,
+    JPY: 149.5,
+};
+
+/** Share of the mid rate kept on each conversion, from `FX_SPREAD` (default 1%). */
+const FX_SPREAD = Number(process.env.FX_SPREAD ?? 0.01);
+
+/** Rates are quoted to six significant digits. */
+const RATE_PRECISION = 6;
+
+const loadRates = (): Record<string, number> => {
+    const file = process.env.FX_RATES_FILE;
+    const rates: Record<string, unknown> = file ? { USD: 1, ...JSON.parse(readFileSync(file, 'utf8')) } : DEFAULT_USD_RATES;
+    const usable: Record<string, number> = {};
+    for (const currency of SUPPORTED_CURRENCIES) {
+        const rate = rates[currency];
+        if (typeof rate === 'number' && rate > 0) usable[currency] = rate;
+    }
+    return usable;
+};
+
+const USD_RATES = loadRates();
+
+const roundRate = (rate: number): number => Number(rate.toPrecision(RATE_PRECISION));
+
+/**
+ * What it costs in `from` to pay `amount` in its currency, or null when the table has no rate for
+ * one of them. The mid rate and the rate applied are units of `amount`'s currency per unit of `from`.
+ */
+export const quoteConversion = (from: string, amount: Money): CurrencyConversion | null => {
+    const fromRate = USD_RATES[from];
+    const toRate = USD_RATES[amount.currency];
+    if (!fromRate || !toRate) return null;
+    const midRate = roundRate(toRate / fromRate);
+    const rate = roundRate(midRate * (1 - FX_SPREAD));
+    return { from: convert(amount, 1 / rate, from, 'up'), to: amount, midRate, rate, spread: FX_SPREAD };
+};
@@ -0,0 +1,33 @@
+// --- HTTP ERRORS ---
+//
+// Route handlers throw `HttpError` with a user-facing message; the error handler turns it into
+// a JSON `{ error }` body with the given status. Anything else is logged and reported as a 500
+// without details.
+
+import type { ErrorRequestHandler } from 'express';
+import type { ApiErrorResponse } from '../apiTypes.ts';
+
+export class HttpError extends Error {
+    readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+    }
+}
+
+export const errorHandler: ErrorRequestHandler = (err, _req, res, next) => {
+    if (res.headersSent) return next(err);
+    if (err instanceof HttpError) {
+        res.status(err.status).json({ error: err.message } satisfies ApiErrorResponse);
+        return;
+    }
+    // express.json() rejects unparsable bodies with a 4xx `status` of its own.
+    if (typeof err?.status === 'number' && err.status >= 400 && err.status < 500) {
+        res.status(err.status).json({ error: 'Malformed request.' } satisfies ApiErrorResponse);
+        return;
+    }
+    console.error('Unhandled API error:', err);
+    res.status(500).json({ error: 'Service unavailable. Please try again.' } satisfies ApiErrorResponse);
+};
@@ -0,0 +1,46 @@
+// --- API SERVER ---
+//
+// Express app behind the web client: account registration, biometric login, the signed-in
+// account's biometric operations, wallets, payments and payment requests. Configuration comes
+// from the environment (or a `.env` file): `PORT` (default 5000), `CORS_ORIGIN` (default: any
+// origin), `JWT_SECRET`, `JWT_TTL_SECONDS`, `MERCHANT_FEE_RATE`, `PAYMENT_REQUEST_TTL_SECONDS`,
+// `IRIS_MAX_FAILURES` and `IRIS_LOCKOUT_SECONDS` (see irisAttempts.ts), and `MONGODB_URI` or
+// `DATA_FILE` (see storage.ts).
+
+import 'dotenv/config';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from './routes/auth.ts';
+import merchantRoutes from './routes/merchants.ts';
+import walletRoutes from './routes/wallet.ts';
+import paymentRequestRoutes from './routes/paymentRequests.ts';
+import { errorHandler } from './httpError.ts';
+import { closeStorage, openStorage } from './storage.ts';
+import { seedDemoData } from './demoData.ts';
+import { checkLedger } from './ledger.ts';
+
+const PORT = Number(process.env.PORT) || 5000;
+
+const app = express();
+app.use(cors(process.env.CORS_ORIGIN ? { origin: process.env.CORS_ORIGIN } : undefined));
+// A capture's probes are a few kilobytes each.
+app.use(express.json({ limit: '256kb' }));
+
+app.use('/api/auth', authRoutes);
+app.use('/api/merchants', merchantRoutes);
+app.use('/api/wallet', walletRoutes);
+app.use('/api/payment-requests', paymentRequestRoutes);
+app.use(errorHandler);
+
+const store = await openStorage();
+console.log(`Storage: ${store}`);
+if (await seedDemoData()) console.log('Seeded the demo accounts.');
+const ledger = await checkLedger();
+if (!ledger.balanced) console.error(`The ledger does not balance:\n${ledger.problems.join('\n')}`);
+
+const server = app.listen(PORT, () => console.log(`API listening on http://localhost:${PORT}/api`));
+
+// Let pending writes finish before exiting.
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => server.close(() => void closeStorage().finally(() => process.exit(0))));
+}
@@ -0,0 +1,46 @@
+// --- IRIS ATTEMPT LIMITS ---
+//
+// The server's own count of failed iris scans, so the lockout does not rest on the app's
+// (captureSession.ts), which a modified client can skip. Scans of the signed-in account (verify,
+// pay, refund) count against the account; logins, which name no account, against the client's
+// address. After `IRIS_MAX_FAILURES` (default 5) failures within `IRIS_LOCKOUT_SECONDS` (default
+// 900), further scans are refused until the oldest of them is that old; a successful scan
+// starts the count over. Counts are kept in memory, per server process.
+
+import { HttpError } from './httpError.ts';
+import type { UserRecord } from './repositories/types.ts';
+
+const MAX_FAILURES = Number(process.env.IRIS_MAX_FAILURES) || 5;
+
+const WINDOW_MS = (Number(process.env.IRIS_LOCKOUT_SECONDS) || 15 * 60) * 1000;
+
+// Times of the recent failures under each key, oldest first.
+const failures = new Map<string, number[]>();
+
+const recentFailures = (key: string, now: number): number[] => {
+    const recent = (failures.get(key) ?? []).filter(at => now - at < WINDOW_MS);
+    if (recent.length > 0) failures.set(key, recent);
+    else failures.delete(key);
+    return recent;
+};
+
+/** Counts the scans of a signed-in account. */
+export const accountAttempts = (account: UserRecord): string => `account:${account.id}`;
+
+/** Counts the logins from one client address. */
+export const addressAttempts = (address: string | undefined): string => `address:${address ?? 'unknown'}`;
+
+/** Throws a 429 `HttpError` while `key` has too many recent failures. */
+export const assertIrisAttemptsLeft = (key: string): void => {
+    const now = Date.now();
+    const recent = recentFailures(key, now);
+    if (recent.length < MAX_FAILURES) return;
+    const minutes = Math.ceil((recent[0] + WINDOW_MS - now) / 60_000);
+    throw new HttpError(429, `Too many failed iris scans. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+};
+
+/** Records the outcome of a scan counted under `key`. */
+export const recordIrisAttempt = (key: string, matched: boolean): void => {
+    if (matched) failures.delete(key);
+    else failures.set(key, [...recentFailures(key, Date.now()), Date.now()]);
+};
@@ -0,0 +1,79 @@
+// --- DOUBLE-ENTRY LEDGER: TESTS ---
+//
+// Entries, balances and the books check on the embedded store, kept in memory. Run with
+// `npm test`.
+
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { money } from '../money.ts';
+import { createAccount } from './accountStore.ts';
+import { SYSTEM_ACCOUNTS, accountBalance, checkLedger, journalProblems, walletBalance } from './ledger.ts';
+import { createPaymentRequest } from './paymentRequests.ts';
+import { executePayment, fundWallet } from './payments.ts';
+import type { UserRecord, WalletRecord } from './repositories/types.ts';
+import { closeStorage, openStorage, storage } from './storage.ts';
+
+const usd = (units: number) => money(units, 'USD');
+
+const balanceOf = async (account: UserRecord): Promise<number> =>
+    (await walletBalance((await storage().wallets.findById(account.walletId)) as WalletRecord, 'USD')).units;
+
+describe('journalProblems', () => {
+    it('accepts a balanced entry', () => {
+        assert.deepEqual(journalProblems({ id: 'top-up', lines: [
+            { account: SYSTEM_ACCOUNTS.bankClearing, direction: 'debit', amount: usd(500) },
+            { account: 'wallet-1', direction: 'credit', amount: usd(500) },
+        ] }), []);
+    });
+
+    it('reports an entry out of balance, with a single line or a non-positive amount', () => {
+        assert.equal(journalProblems({ id: 'uneven', lines: [
+            { account: SYSTEM_ACCOUNTS.bankClearing, direction: 'debit', amount: usd(500) },
+            { account: 'wallet-1', direction: 'credit', amount: usd(499) },
+        ] }).length, 1);
+        assert.equal(journalProblems({ id: 'single', lines: [{ account: 'wallet-1', direction: 'credit', amount: usd(500) }] }).length, 2);
+        assert.equal(journalProblems({ id: 'negative', lines: [
+            { account: SYSTEM_ACCOUNTS.bankClearing, direction: 'debit', amount: usd(-5) },
+            { account: 'wallet-1', direction: 'credit', amount: usd(-5) },
+        ] }).length, 2);
+    });
+});
+
+describe('wallet ledger', () => {
+    let client: UserRecord;
+    let merchant: UserRecord;
+
+    before(async () => {
+        process.env.DATA_FILE = ':memory:';
+        await openStorage();
+    });
+
+    after(closeStorage);
+
+    beforeEach(async () => {
+        client = await createAccount({ name: 'Test Client', email: `client-${randomUUID()}@example.com`, userType: 'client' }, {});
+        merchant = await createAccount({ name: 'Test Merchant', email: `merchant-${randomUUID()}@example.com`, userType: 'merchant', merchantName: 'Test Shop' }, {});
+        await fundWallet(client, usd(10_000));
+    });
+
+    it('derives each wallet balance from its entries', async () => {
+        const feeRevenueBefore = accountBalance(await storage().journal.list(), SYSTEM_ACCOUNTS.feeRevenue, 'USD').units;
+        await executePayment(client, merchant, await createPaymentRequest(merchant, usd(1_234)), randomUUID());
+
+        const fee = accountBalance(await storage().journal.list(), SYSTEM_ACCOUNTS.feeRevenue, 'USD').units - feeRevenueBefore;
+        assert.ok(fee > 0);
+        assert.equal(await balanceOf(client), 10_000 - 1_234);
+        assert.equal(await balanceOf(merchant), 1_234 - fee);
+    });
+
+    it('keeps the books balanced', async () => {
+        await executePayment(client, merchant, await createPaymentRequest(merchant, usd(1_234)), randomUUID());
+        await executePayment(client, merchant, await createPaymentRequest(merchant, usd(999)), randomUUID());
+
+        const check = await checkLedger();
+        assert.deepEqual(check.problems, []);
+        assert.equal(check.balanced, true);
+        assert.equal(await balanceOf(client), 10_000 - 1_234 - 999);
+    });
+});
@@ -0,0 +1,196 @@
+// --- DOUBLE-ENTRY LEDGER ---
+//
+// Every movement of money is a journal entry whose debit and credit lines sum to the same amount
+// in each currency, and every balance is derived from those lines; nothing stores a balance.
+// Each wallet is a ledger account under its wallet id, with a balance in every currency posted
+// to it. Money comes in through the bank clearing account and fees go to the fee revenue account:
+//
+//   top-up    debit bank clearing      credit client wallet
+//   payment   debit client wallet      credit merchant wallet
+//   fee       debit merchant wallet    credit fee revenue
+//   refund    debit merchant wallet    credit client wallet
+//
+// A payment from a balance in another currency than the merchant's goes through the currency
+// conversion account, which holds the service's position in each currency (see exchangeRates.ts):
+//
+//   payment   debit client wallet      credit FX conversion     in the client's currency
+//             debit FX conversion      credit merchant wallet   in the merchant's currency
+//
+// Wallets and fee revenue are credit-normal (what the service owes, or has earned), bank
+// clearing is debit-normal (money held at the bank). Every line is a `Money` in whole minor units
+// of its currency (see money.ts), so sums are exact. `checkLedger` re-derives everything from the
+// journal and reports any entry or balance that breaks these rules.
+//
+// Top-ups are posted on their own. The entries of payments and refunds are only built here and
+// stored together with their transaction (see `PaymentRepository.commit`), so the books never
+// show half a payment.
+
+import { randomUUID } from 'node:crypto';
+import type { Transaction } from '../apiTypes.ts';
+import { isSupportedCurrency } from '../currencies.ts';
+import { type Money, add, isMoney, isPositive, subtract, toDecimalString, zero } from '../money.ts';
+import { storage } from './storage.ts';
+import type { JournalRecord, LedgerLine, WalletRecord } from './repositories/types.ts';
+
+/** Ledger accounts that are not wallets. */
+export const SYSTEM_ACCOUNTS = {
+    bankClearing: 'system:bank-clearing',
+    feeRevenue: 'system:fee-revenue',
+    fxConversion: 'system:fx-conversion',
+} as const;
+
+/** Thrown when an entry to be posted is not balanced or has an invalid line. */
+export class LedgerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LedgerError';
+    }
+}
+
+const isDebitNormal = (account: string): boolean => account === SYSTEM_ACCOUNTS.bankClearing;
+
+/** Problems with a single entry; empty when it is well-formed and balanced. */
+export const journalProblems = (journal: Pick<JournalRecord, 'id' | 'lines'>): string[] => {
+    const problems: string[] = [];
+    if (journal.lines.length < 2) problems.push(`Entry ${journal.id} has fewer than two lines.`);
+    const net = new Map<string, Money>();
+    for (const line of journal.lines) {
+        if (!isMoney(line.amount)) {
+            problems.push(`Entry ${journal.id} posts an amount that is not whole minor units to ${line.account}.`);
+            continue;
+        }
+        if (!isPositive(line.amount)) problems.push(`Entry ${journal.id} has a non-positive amount on ${line.account}.`);
+        const { currency } = line.amount;
+        const before = net.get(currency) ?? zero(currency);
+        net.set(currency, line.direction === 'debit' ? add(before, line.amount) : subtract(before, line.amount));
+    }
+    for (const [currency, amount] of net) {
+        if (amount.units !== 0) problems.push(`Entry ${journal.id} is out of balance by ${toDecimalString(amount)} ${currency}.`);
+    }
+    return problems;
+};
+
+/** Balance of `account` in `currency` from the given entries, on the account's normal side. */
+export const accountBalance = (journals: JournalRecord[], account: string, currency: string): Money => {
+    let balance = zero(currency);
+    for (const line of journals.flatMap(j => j.lines)) {
+        if (line.account !== account || line.amount.currency !== currency) continue;
+        balance = (line.direction === 'debit') === isDebitNormal(account) ? add(balance, line.amount) : subtract(balance, line.amount);
+    }
+    return balance;
+};
+
+/** Builds and validates an entry. Throws `LedgerError` if it does not balance. */
+const entry = (kind: JournalRecord['kind'], lines: LedgerLine[], timestamp: string, transactionId?: string): JournalRecord => {
+    const journal: JournalRecord = {
+        id: `je-${randomUUID()}`,
+        kind,
+        timestamp,
+        ...(transactionId !== undefined && { transactionId }),
+        lines,
+    };
+    const problems = journalProblems(journal);
+    if (problems.length > 0) throw new LedgerError(problems.join(' '));
+    return journal;
+};
+
+const transfer = (from: string, to: string, amount: Money): LedgerLine[] => [
+    { account: from, direction: 'debit', amount },
+    { account: to, direction: 'credit', amount },
+];
+
+// The functions below date the entry now unless given an ISO `timestamp`.
+
+/** Money paid in from the owner's linked bank, to the balance in its currency; stored right away. */
+export const postTopUp = (wallet: WalletRecord, amount: Money, timestamp = new Date().toISOString()): Promise<JournalRecord> =>
+    storage().journal.insert(entry('top-up', transfer(SYSTEM_ACCOUNTS.bankClearing, wallet.id, amount), timestamp));
+
+/**
+ * The entry of a payment, to be committed with its transaction; through the conversion account
+ * when it was paid from a balance in another currency.
+ */
+export const paymentEntry = (from: WalletRecord, to: WalletRecord, payment: Pick<Transaction, 'id' | 'amount' | 'timestamp' | 'conversion'>): JournalRecord => {
+    const { conversion } = payment;
+    const lines = conversion
+        ? [
+            ...transfer(from.id, SYSTEM_ACCOUNTS.fxConversion, conversion.from),
+            ...transfer(SYSTEM_ACCOUNTS.fxConversion, to.id, payment.amount),
+        ]
+        : transfer(from.id, to.id, payment.amount);
+    return entry('payment', lines, payment.timestamp, payment.id);
+};
+
+/** The entry of the service's fee on a payment, charged to the merchant; committed with the payment. */
+export const feeEntry = (merchant: WalletRecord, amount: Money, transactionId: string, timestamp = new Date().toISOString()): JournalRecord =>
+    entry('fee', transfer(merchant.id, SYSTEM_ACCOUNTS.feeRevenue, amount), timestamp, transactionId);
+
+/** The entry of a refund, moving money back from the merchant to the client; committed with the refund. */
+export const refundEntry = (merchant: WalletRecord, client: WalletRecord, amount: Money, transactionId: string, timestamp = new Date().toISOString()): JournalRecord =>
+    entry('refund', transfer(merchant.id, client.id, amount), timestamp, transactionId);
+
+/** The wallet's balance in `currency`, its home currency by default. */
+export const walletBalance = async (wallet: WalletRecord, currency = wallet.currency): Promise<Money> =>
+    accountBalance(await storage().journal.listForAccount(wallet.id), wallet.id, currency);
+
+/** The wallet's balance in every currency it holds, the home currency first and always listed. */
+export const walletBalances = async (wallet: WalletRecord): Promise<Money[]> => {
+    const journals = await storage().journal.listForAccount(wallet.id);
+    const held = new Set(journals.flatMap(j => j.lines).filter(line => line.account === wallet.id).map(line => line.amount.currency));
+    held.delete(wallet.currency);
+    return [wallet.currency, ...[...held].sort()]
+        .map(currency => accountBalance(journals, wallet.id, currency))
+        .filter(balance => balance.currency === wallet.currency || balance.units !== 0);
+};
+
+/** Outcome of `checkLedger`. */
+export interface LedgerCheck {
+    balanced: boolean;
+    entries: number;
+    /** Sums of all debit and all credit lines per currency; equal when the books balance. */
+    totals: { debits: Money; credits: Money }[];
+    problems: string[];
+}
+
+/**
+ * Re-derives the books from the whole journal and proves they balance: every entry balances,
+ * debits equal credits overall, every line is on a known account in a supported currency, and no
+ * wallet is overdrawn in any currency.
+ */
+export const checkLedger = async (): Promise<LedgerCheck> => {
+    const { journal, wallets } = storage();
+    const [journals, allWallets] = await Promise.all([journal.list(), wallets.list()]);
+    const walletsById = new Map(allWallets.map(w => [w.id, w]));
+    const systemAccounts = new Set<string>(Object.values(SYSTEM_ACCOUNTS));
+    const problems = journals.flatMap(journalProblems);
+
+    const totals = new Map<string, { debits: Money; credits: Money }>();
+    for (const j of journals) {
+        for (const line of j.lines) {
+            const wallet = walletsById.get(line.account);
+            if (!wallet && !systemAccounts.has(line.account)) problems.push(`Entry ${j.id} posts to unknown account ${line.account}.`);
+            if (!isMoney(line.amount)) continue;
+            const { currency } = line.amount;
+            if (!isSupportedCurrency(currency)) problems.push(`Entry ${j.id} posts unsupported currency ${currency}.`);
+            const total = totals.get(currency) ?? { debits: zero(currency), credits: zero(currency) };
+            const side = line.direction === 'debit' ? 'debits' : 'credits';
+            total[side] = add(total[side], line.amount);
+            totals.set(currency, total);
+        }
+    }
+    for (const [currency, { debits, credits }] of totals) {
+        if (debits.units !== credits.units) problems.push(`Debits and credits in ${currency} differ by ${toDecimalString(subtract(debits, credits))}.`);
+    }
+    for (const wallet of allWallets) {
+        for (const currency of totals.keys()) {
+            const balance = accountBalance(journals, wallet.id, currency);
+            if (balance.units < 0) problems.push(`Wallet ${wallet.id} is overdrawn: ${toDecimalString(balance)} ${currency}.`);
+        }
+    }
+
+    return {
+        balanced: problems.length === 0,
+        entries: journals.length,
+        totals: [...totals.values()],
+        problems,
+    };
+};
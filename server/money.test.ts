@@ -0,0 +1,92 @@
+// --- MONEY: TESTS ---
+//
+// Minor-unit arithmetic, rounding and parsing in money.ts. Run with `npm test`.
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MoneyError, add, allocate, compare, convert, fromMajor, money, multiply, parseMoney, subtract } from '../money.ts';
+
+const usd = (units: number) => money(units, 'USD');
+const jpy = (units: number) => money(units, 'JPY');
+
+const unitsOf = (amounts: { units: number }[]) => amounts.map(a => a.units);
+
+describe('allocate', () => {
+    it('gives the units left over to the parts that lost the most to rounding', () => {
+        assert.deepEqual(unitsOf(allocate(usd(100), [1, 1, 1])), [34, 33, 33]);
+        assert.deepEqual(unitsOf(allocate(usd(5), [3, 7])), [2, 3]);
+        assert.deepEqual(unitsOf(allocate(usd(1_001), [70, 20, 10])), [701, 200, 100]);
+    });
+
+    it('always adds up to the whole', () => {
+        for (const ratios of [[1, 1, 1], [1, 2, 3, 4], [0.1, 0.2, 0.7], [0, 5]]) {
+            const parts = allocate(usd(9_999), ratios);
+            assert.equal(parts.reduce((a, b) => a + b.units, 0), 9_999);
+            assert.ok(parts.every(p => p.currency === 'USD'));
+        }
+    });
+
+    it('refuses ratios it cannot split by', () => {
+        assert.throws(() => allocate(usd(100), []), MoneyError);
+        assert.throws(() => allocate(usd(100), [0, 0]), MoneyError);
+        assert.throws(() => allocate(usd(100), [2, -1]), MoneyError);
+    });
+});
+
+describe('rounding to a minor unit', () => {
+    it('rounds ties to even by default, or as asked', () => {
+        assert.equal(multiply(usd(25), 0.1).units, 2);
+        assert.equal(multiply(usd(35), 0.1).units, 4);
+        assert.equal(multiply(usd(25), 0.1, 'half-up').units, 3);
+        assert.equal(multiply(usd(21), 0.1, 'up').units, 3);
+        assert.equal(multiply(usd(29), 0.1, 'down').units, 2);
+    });
+
+    it('does not let float error decide the rounding', () => {
+        // 0.29 * 100 is 28.999999999999996 as a float.
+        assert.equal(fromMajor(0.29, 'USD', 'down').units, 29);
+        assert.equal(fromMajor(0.29, 'USD', 'up').units, 29);
+        assert.equal(multiply(usd(100), 0.07, 'up').units, 7);
+    });
+
+    it("rounds to each currency's minor unit", () => {
+        assert.equal(fromMajor(12.345, 'USD').units, 1_234);
+        assert.equal(fromMajor(12.5, 'JPY').units, 12);
+        assert.equal(fromMajor(13.5, 'JPY').units, 14);
+        // $1.00 at 150.255 yen per dollar is ¥150.255, which rounds to ¥150.
+        assert.deepEqual(convert(usd(100), 150.255, 'JPY'), jpy(150));
+        // ¥1 at 0.00665 dollars per yen is $0.00665, which rounds to $0.01.
+        assert.deepEqual(convert(jpy(1), 0.00665, 'USD'), usd(1));
+    });
+});
+
+describe('parseMoney', () => {
+    it('reads decimal text exactly', () => {
+        assert.deepEqual(add(parseMoney('0.1', 'USD')!, parseMoney('0.2', 'USD')!), parseMoney('0.3', 'USD'));
+        assert.deepEqual(parseMoney('12.5', 'USD'), usd(1_250));
+        assert.deepEqual(parseMoney(' 7. ', 'USD'), usd(700));
+        assert.deepEqual(parseMoney('1250', 'JPY'), jpy(1_250));
+    });
+
+    it('refuses more decimals than the currency has', () => {
+        assert.equal(parseMoney('0.001', 'USD'), null);
+        assert.equal(parseMoney('12.5', 'JPY'), null);
+        assert.deepEqual(parseMoney('12.', 'JPY'), jpy(12));
+    });
+
+    it('refuses anything but a plain non-negative amount', () => {
+        for (const text of ['', '-1', '1e3', '1,000', '$5', '.5', '99999999999999999999']) {
+            assert.equal(parseMoney(text, 'USD'), null, text);
+        }
+    });
+});
+
+describe('currencies', () => {
+    it('are never mixed', () => {
+        assert.throws(() => compare(usd(100), jpy(100)), MoneyError);
+        assert.throws(() => subtract(usd(100), jpy(1)), MoneyError);
+        assert.throws(() => add(usd(100), jpy(1)), MoneyError);
+        assert.equal(compare(usd(100), usd(99)), 1);
+        assert.deepEqual(subtract(usd(100), usd(99)), usd(1));
+    });
+});
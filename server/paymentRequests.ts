@@ -0,0 +1,165 @@
+// --- PAYMENT REQUESTS ---
+//
+// A merchant asks for an exact amount and the client pays exactly that: requests are the only
+// way money moves from a client to a merchant. See `PaymentRequestStatus` for the lifecycle.
+// Expiry is applied when a request is read: a pending request past its `expiresAt` is stored as
+// expired before it is returned.
+//
+// Each request is signed with the merchant's key when it is created, and the client pays by
+// presenting the scanned payment code (paymentCode.ts). The code's signature is checked against
+// the merchant's public key, and its details against the stored request, both when the scanner
+// opens it and again when it is paid; every rejected code is logged.
+//
+// Requests are priced in the currency of the merchant's wallet. When the scanner opens one, the
+// client is shown each of their balances that could pay it, with the conversion for those in
+// another currency.
+
+import { randomUUID } from 'node:crypto';
+import type { Money } from '../money.ts';
+import type { MerchantProfile, PayPaymentRequest, PaymentRequest, PaymentRequestStatus, PaymentResponse, VerifiedPaymentCodeResponse } from '../apiTypes.ts';
+import { PaymentCodeError, assertCodeMatchesRequest, paymentCodeMessage, parsePaymentCode, verifyPaymentCodeSignature } from '../paymentCode.ts';
+import { PaymentError, executePayment, fundingOptions, replayedPayment } from './payments.ts';
+import { merchantProfile, signForMerchant } from './signingKeys.ts';
+import { storage } from './storage.ts';
+import { StaleRecordError } from './repositories/types.ts';
+import type { UserRecord } from './repositories/types.ts';
+
+/** How long a request can be paid, from `PAYMENT_REQUEST_TTL_SECONDS` (default 15 minutes). */
+const PAYMENT_REQUEST_TTL_SECONDS = Number(process.env.PAYMENT_REQUEST_TTL_SECONDS) || 15 * 60;
+
+/** Why a request that is no longer pending cannot be acted on. */
+const CLOSED_MESSAGES: Record<Exclude<PaymentRequestStatus, 'pending'>, string> = {
+    approved: 'This payment request has already been paid.',
+    rejected: 'This payment request was declined.',
+    cancelled: 'The merchant cancelled this payment request.',
+    expired: 'This payment request has expired. Please ask the merchant for a new one.',
+};
+
+/** Stores a pending request whose expiry has passed as expired. */
+const applyExpiry = async (request: PaymentRequest, now = Date.now()): Promise<PaymentRequest> => {
+    if (request.status !== 'pending' || Date.parse(request.expiresAt) > now) return request;
+    return (await storage().paymentRequests.update({ ...request, status: 'expired' })) ?? request;
+};
+
+/** Throws `PaymentError` unless the request is still pending. */
+const assertPending = (request: PaymentRequest): void => {
+    if (request.status !== 'pending') throw new PaymentError(CLOSED_MESSAGES[request.status]);
+};
+
+/** Moves a pending request to `status` and stores it. */
+const close = async (request: PaymentRequest, status: PaymentRequestStatus, changes: Partial<PaymentRequest> = {}): Promise<PaymentRequest> => {
+    const closed = await storage().paymentRequests.update({ ...request, ...changes, status });
+    if (!closed) throw new Error(`Payment request ${request.id} is missing.`);
+    return closed;
+};
+
+/** A request for `amount`, in the currency of the merchant's wallet. */
+export const createPaymentRequest = async (merchant: UserRecord, amount: Money): Promise<PaymentRequest> => {
+    const now = Date.now();
+    const fields = {
+        id: `req-${randomUUID()}`,
+        merchantId: merchant.id,
+        merchantName: merchant.merchantName || 'Merchant',
+        amount,
+        status: 'pending' as const,
+        timestamp: new Date(now).toISOString(),
+        expiresAt: new Date(now + PAYMENT_REQUEST_TTL_SECONDS * 1000).toISOString(),
+    };
+    return storage().paymentRequests.insert({ ...fields, signature: await signForMerchant(merchant.id, paymentCodeMessage(fields)) });
+};
+
+/** The merchant's requests, newest first. */
+export const listPaymentRequests = async (merchant: UserRecord): Promise<PaymentRequest[]> => {
+    const now = Date.now();
+    return Promise.all((await storage().paymentRequests.listForMerchant(merchant.id)).map(r => applyExpiry(r, now)));
+};
+
+export const findPaymentRequest = async (id: string): Promise<PaymentRequest | null> => {
+    const request = await storage().paymentRequests.findById(id);
+    return request && applyExpiry(request);
+};
+
+/**
+ * Checks a scanned payment code for `client`: its format and expiry, the merchant's signature
+ * and that it matches the stored request. Throws (and logs) `PaymentCodeError` otherwise.
+ */
+const checkPaymentCode = async (client: UserRecord, text: string): Promise<{ request: PaymentRequest; merchant: MerchantProfile }> => {
+    let requestId: string | null = null;
+    try {
+        const code = parsePaymentCode(text);
+        requestId = code.requestId;
+        const merchant = await storage().users.findById(code.merchantId);
+        if (!merchant || merchant.userType !== 'merchant') {
+            throw new PaymentCodeError('forged', 'This payment code names a merchant IrisPay does not know. Do not pay it.');
+        }
+        const profile = await merchantProfile(merchant);
+        await verifyPaymentCodeSignature(code, profile.signingKey);
+        const request = await findPaymentRequest(code.requestId);
+        if (!request) throw new PaymentCodeError('mismatch', 'This payment request does not exist. Please ask the merchant for a new one.');
+        assertCodeMatchesRequest(code, request);
+        return { request, merchant: profile };
+    } catch (e) {
+        if (e instanceof PaymentCodeError) {
+            console.warn(`Rejected a payment code from ${client.id} for request ${requestId ?? '(unknown)'}: ${e.problem}.`);
+        }
+        throw e;
+    }
+};
+
+/** Checks a scanned payment code like `checkPaymentCode` and lists the client's ways to pay it. */
+export const verifyPaymentCode = async (client: UserRecord, text: string): Promise<VerifiedPaymentCodeResponse> => {
+    const { request, merchant } = await checkPaymentCode(client, text);
+    return { request, merchant, funding: await fundingOptions(client, request) };
+};
+
+/**
+ * Checks a scanned `code` like `checkPaymentCode` and that it is the code of `request`; returns
+ * the request as stored. Throws (and logs) `PaymentCodeError` otherwise.
+ */
+export const checkPaymentCodeOf = async (client: UserRecord, request: PaymentRequest, code: string): Promise<PaymentRequest> => {
+    const { request: scanned } = await checkPaymentCode(client, code);
+    if (scanned.id !== request.id) {
+        console.warn(`Rejected a payment code from ${client.id}: it is for request ${scanned.id}, not ${request.id}.`);
+        throw new PaymentCodeError('mismatch', 'This payment code is for another payment request.');
+    }
+    return scanned;
+};
+
+/**
+ * Pays a pending request in full from the client's wallet, approves it and links the transaction.
+ * `scanned` is the request as `checkPaymentCodeOf` returned it for the code the client scanned;
+ * `funding` picks the balance to pay from (see `executePayment`). A payment already made under
+ * `idempotencyKey` is returned as it was. Throws `PaymentError` when the request is closed or the
+ * payment itself fails.
+ */
+export const payPaymentRequest = async (client: UserRecord, scanned: PaymentRequest, idempotencyKey: string, funding: Pick<PayPaymentRequest, 'payFrom' | 'quotedRate'> = {}): Promise<PaymentResponse> => {
+    const replayed = await replayedPayment(client, scanned.id, idempotencyKey);
+    if (replayed) return replayed;
+    assertPending(scanned);
+    const merchant = await storage().users.findById(scanned.merchantId);
+    if (!merchant) throw new PaymentError('This merchant no longer accepts payments.');
+    try {
+        return await executePayment(client, merchant, scanned, idempotencyKey, funding);
+    } catch (e) {
+        // Paid, declined or cancelled in the meantime: say which.
+        if (e instanceof StaleRecordError) assertPending((await findPaymentRequest(scanned.id)) ?? scanned);
+        throw e;
+    }
+};
+
+/**
+ * The client turns the request down. `code` is the payment code the client scanned, checked as
+ * for a payment, so only someone shown the request can decline it. Throws `PaymentCodeError` for
+ * a bad code and `PaymentError` when the request is closed.
+ */
+export const declinePaymentRequest = async (client: UserRecord, request: PaymentRequest, code: string): Promise<PaymentRequest> => {
+    const scanned = await checkPaymentCodeOf(client, request, code);
+    assertPending(scanned);
+    return close(scanned, 'rejected');
+};
+
+/** The merchant withdraws the request. */
+export const cancelPaymentRequest = async (request: PaymentRequest): Promise<PaymentRequest> => {
+    assertPending(request);
+    return close(request, 'cancelled');
+};
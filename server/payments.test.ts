@@ -0,0 +1,85 @@
+// --- WALLETS AND PAYMENTS: TESTS ---
+//
+// Payments and refunds on the embedded store, kept in memory. Run with `npm test`.
+
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { money } from '../money.ts';
+import { createAccount } from './accountStore.ts';
+import { checkLedger, walletBalance } from './ledger.ts';
+import { createPaymentRequest, findPaymentRequest } from './paymentRequests.ts';
+import { PaymentError, executePayment, fundWallet, refundPayment } from './payments.ts';
+import { InsufficientFundsError } from './repositories/types.ts';
+import type { UserRecord, WalletRecord } from './repositories/types.ts';
+import { closeStorage, openStorage, storage } from './storage.ts';
+
+const usd = (units: number) => money(units, 'USD');
+
+const balanceOf = async (account: UserRecord): Promise<number> =>
+    (await walletBalance((await storage().wallets.findById(account.walletId)) as WalletRecord, 'USD')).units;
+
+describe('payments', () => {
+    let client: UserRecord;
+    let merchant: UserRecord;
+
+    before(async () => {
+        process.env.DATA_FILE = ':memory:';
+        await openStorage();
+    });
+
+    after(closeStorage);
+
+    beforeEach(async () => {
+        client = await createAccount({ name: 'Test Client', email: `client-${randomUUID()}@example.com`, userType: 'client' }, {});
+        merchant = await createAccount({ name: 'Test Merchant', email: `merchant-${randomUUID()}@example.com`, userType: 'merchant', merchantName: 'Test Shop' }, {});
+        await fundWallet(client, usd(10_000));
+    });
+
+    it('charges once per idempotency key', async () => {
+        const request = await createPaymentRequest(merchant, usd(2_500));
+        const key = randomUUID();
+        const first = await executePayment(client, merchant, request, key);
+        const again = await executePayment(client, merchant, request, key);
+
+        assert.equal(again.transaction.id, first.transaction.id);
+        assert.equal((await findPaymentRequest(request.id))?.status, 'approved');
+        assert.equal(await balanceOf(client), 7_500);
+        assert.equal((await storage().transactions.listForUser(client.id)).length, 1);
+    });
+
+    it('refuses a payment the balance cannot cover and leaves everything as it was', async () => {
+        const request = await createPaymentRequest(merchant, usd(10_001));
+        await assert.rejects(executePayment(client, merchant, request, randomUUID()), PaymentError);
+
+        assert.equal((await findPaymentRequest(request.id))?.status, 'pending');
+        assert.equal(await balanceOf(client), 10_000);
+        assert.equal(await balanceOf(merchant), 0);
+    });
+
+    it('re-checks the balance inside the commit', async () => {
+        const transaction = { id: `tx-${randomUUID()}`, amount: usd(10_001), status: 'completed' as const, timestamp: new Date().toISOString() };
+        await assert.rejects(storage().payments.commit({ journal: [], transaction, debit: { walletId: client.walletId, amount: usd(10_001) } }), InsufficientFundsError);
+        assert.equal(await storage().transactions.findById(transaction.id), null);
+    });
+
+    it('refunds a payment in part and then in full', async () => {
+        const { transaction } = await executePayment(client, merchant, await createPaymentRequest(merchant, usd(4_000)), randomUUID());
+        // Covers the merchant fee, which stays with the service when the sale is refunded.
+        await fundWallet(merchant, usd(1_000));
+        const merchantAfterSale = await balanceOf(merchant);
+
+        const partial = await refundPayment(merchant, transaction.id, usd(1_500));
+        assert.equal(partial.payment.status, 'partially-refunded');
+        assert.deepEqual(partial.payment.refundedAmount, usd(1_500));
+
+        const rest = await refundPayment(merchant, transaction.id, usd(2_500));
+        assert.equal(rest.payment.status, 'refunded');
+        assert.equal(rest.refund.refundOf, transaction.id);
+        await assert.rejects(refundPayment(merchant, transaction.id, usd(1)), PaymentError);
+
+        assert.equal(await balanceOf(client), 10_000);
+        assert.equal(await balanceOf(merchant), merchantAfterSale - 4_000);
+        assert.equal((await checkLedger()).balanced, true);
+    });
+});
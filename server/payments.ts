@@ -0,0 +1,273 @@
+// --- WALLETS AND PAYMENTS ---
+//
+// Wallet top-ups and client-to-merchant payments. Money only moves by posting to the ledger
+// (ledger.ts), and wallet balances are read back from it. Amounts are `Money` (money.ts) and are
+// compared and added only in whole minor units of their currency.
+//
+// Payments are executed once per idempotency key: the client sends a fresh key with each
+// payment it means to make, and sending the same key again (a double tap, a retry after a lost
+// response) returns the original transaction instead of charging twice, even when the retry
+// races the original on another server process. Payments from one wallet run one at a time in
+// each process; the ledger entries, the transaction, the approved request and the attempt are
+// committed together, and the commit checks the balance again, so payments committed by several
+// processes at once cannot overdraw the wallet either.
+//
+// A wallet holds a balance in each currency it has received. Requests are priced in the
+// merchant's currency; the client pays from their balance in that currency, or from another one
+// converted at the quoted rate they accepted (see exchangeRates.ts).
+//
+// Merchants refund sales in full or in part, from their own wallet back to the client's, in the
+// sale's currency. The merchant fee on the sale is not returned. Refunds by one merchant also
+// run one at a time.
+
+import { randomUUID } from 'node:crypto';
+import type { CurrencyConversion, FundingOption, PayPaymentRequest, PaymentRequest, PaymentResponse, RefundResponse, Transaction, Wallet } from '../apiTypes.ts';
+import { type Money, add, allocate, compare, formatMoney, subtract, zero } from '../money.ts';
+import { quoteConversion } from './exchangeRates.ts';
+import { feeEntry, paymentEntry, postTopUp, refundEntry, walletBalance, walletBalances } from './ledger.ts';
+import { storage } from './storage.ts';
+import { DuplicateRecordError, InsufficientFundsError, StaleRecordError } from './repositories/types.ts';
+import type { JournalRecord, PaymentCommit, UserRecord, WalletRecord } from './repositories/types.ts';
+
+/** Share of each payment charged to the merchant, from `MERCHANT_FEE_RATE` (default 1.5%). */
+const MERCHANT_FEE_RATE = Number(process.env.MERCHANT_FEE_RATE ?? 0.015);
+
+/**
+ * The merchant fee on `amount`: its share of the payment when that is split between the merchant
+ * and the service, so the two always add up to the payment.
+ */
+const merchantFee = (amount: Money): Money => allocate(amount, [1 - MERCHANT_FEE_RATE, MERCHANT_FEE_RATE])[1];
+
+/** A payment that cannot be made as asked; the message is user-facing. */
+export class PaymentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PaymentError';
+    }
+}
+
+const toPublicWallet = async (wallet: WalletRecord): Promise<Wallet> =>
+    ({ id: wallet.id, currency: wallet.currency, balances: await walletBalances(wallet) });
+
+const requireWallet = async (account: UserRecord): Promise<WalletRecord> => {
+    const wallet = await storage().wallets.findById(account.walletId);
+    if (!wallet) throw new Error(`Wallet ${account.walletId} of ${account.id} is missing.`);
+    return wallet;
+};
+
+export const findWallet = async (account: UserRecord): Promise<Wallet> => toPublicWallet(await requireWallet(account));
+
+/** The home currency of the account's wallet. */
+export const walletCurrency = async (account: UserRecord): Promise<string> => (await requireWallet(account)).currency;
+
+/** Adds `amount` from the account's linked bank to its wallet's balance in the currency of `amount`. */
+export const fundWallet = async (account: UserRecord, amount: Money): Promise<Wallet> => {
+    const wallet = await requireWallet(account);
+    await postTopUp(wallet, amount);
+    return toPublicWallet(wallet);
+};
+
+/** The ledger entries of a completed transaction: the payment itself and the merchant fee on it. */
+export const transactionEntries = (clientWallet: WalletRecord, merchantWallet: WalletRecord, transaction: Transaction): JournalRecord[] => {
+    const fee = merchantFee(transaction.amount);
+    return [
+        paymentEntry(clientWallet, merchantWallet, transaction),
+        ...(fee.units > 0 ? [feeEntry(merchantWallet, fee, transaction.id, transaction.timestamp)] : []),
+    ];
+};
+
+/**
+ * What paying `request` from a balance in `currency` takes from it, with the conversion when
+ * that is not the request's currency; null when there is no rate between the two.
+ */
+const paymentCost = (request: PaymentRequest, currency: string): { cost: Money; conversion?: CurrencyConversion } | null => {
+    if (currency === request.amount.currency) return { cost: request.amount };
+    const conversion = quoteConversion(currency, request.amount);
+    return conversion && { cost: conversion.from, conversion };
+};
+
+/** The client's balances that could pay `request`, its own currency first, and what each would cost. */
+export const fundingOptions = async (client: UserRecord, request: PaymentRequest): Promise<FundingOption[]> => {
+    const balances = await walletBalances(await requireWallet(client));
+    const { currency } = request.amount;
+    const ordered = [...balances.filter(b => b.currency === currency), ...balances.filter(b => b.currency !== currency && b.units > 0)];
+    return ordered.flatMap(balance => {
+        const cost = paymentCost(request, balance.currency);
+        return cost ? [{ balance, ...cost, sufficient: compare(balance, cost.cost) >= 0 }] : [];
+    });
+};
+
+export const listTransactions = (account: UserRecord): Promise<Transaction[]> => storage().transactions.listForUser(account.id);
+
+// Tail of the queue of work on each wallet; see `onWallet`.
+const walletQueues = new Map<string, Promise<unknown>>();
+
+/** Runs `work` once every earlier call for the same wallet has settled. */
+const onWallet = <T,>(wallet: WalletRecord, work: () => Promise<T>): Promise<T> => {
+    const run = (walletQueues.get(wallet.id) ?? Promise.resolve()).then(work);
+    const settled = run.catch(() => undefined);
+    walletQueues.set(wallet.id, settled);
+    void settled.then(() => {
+        if (walletQueues.get(wallet.id) === settled) walletQueues.delete(wallet.id);
+    });
+    return run;
+};
+
+/**
+ * Commits `payment`, turning a balance that ran out meanwhile (another process's payment from
+ * the same wallet got there first) into a `PaymentError` with `failure` and the balance left.
+ */
+const commitDebit = async (payment: PaymentCommit & Required<Pick<PaymentCommit, 'debit'>>, wallet: WalletRecord, failure: string): Promise<void> => {
+    try {
+        await storage().payments.commit(payment);
+    } catch (e) {
+        if (!(e instanceof InsufficientFundsError)) throw e;
+        const balance = await walletBalance(wallet, payment.debit.amount.currency);
+        throw new PaymentError(`${failure}: Insufficient funds. Balance: ${formatMoney(balance)}`);
+    }
+};
+
+const attemptId = (client: UserRecord, idempotencyKey: string): string => `${client.id}:${idempotencyKey}`;
+
+/**
+ * The payment the client already made under `idempotencyKey`, as it was returned then (with the
+ * wallet and request as they are now), or null if there is none. Throws `PaymentError` when the
+ * key was used to pay another request.
+ */
+export const replayedPayment = async (client: UserRecord, paymentRequestId: string, idempotencyKey: string): Promise<PaymentResponse | null> => {
+    const { payments, transactions, paymentRequests } = storage();
+    const attempt = await payments.findAttempt(attemptId(client, idempotencyKey));
+    if (!attempt) return null;
+    if (attempt.paymentRequestId !== paymentRequestId) {
+        throw new PaymentError('This payment attempt was already used for another payment request. Please scan the code again.');
+    }
+    const [transaction, request, wallet] = await Promise.all([
+        transactions.findById(attempt.transactionId),
+        paymentRequests.findById(attempt.paymentRequestId),
+        findWallet(client),
+    ]);
+    if (!transaction || !request) throw new Error(`Payment attempt ${attempt.id} points at missing records.`);
+    return { transaction, wallet, request };
+};
+
+/**
+ * Pays `request` in full from the client's wallet to the merchant's, charges the merchant fee,
+ * and approves the request, all in one commit. The client pays from their balance in
+ * `funding.payFrom` (default: the request's currency), converted at `funding.quotedRate` when it
+ * is another currency. A repeated `idempotencyKey` returns the original payment. Throws
+ * `PaymentError` when the request is not in the merchant's currency, the balance cannot be
+ * converted, the quoted rate is not the current one, or the balance is too low, and
+ * `StaleRecordError` when the request closed while it was being paid.
+ */
+export const executePayment = async (client: UserRecord, merchant: UserRecord, request: PaymentRequest, idempotencyKey: string, funding: Pick<PayPaymentRequest, 'payFrom' | 'quotedRate'> = {}): Promise<PaymentResponse> => {
+    const [clientWallet, merchantWallet] = await Promise.all([requireWallet(client), requireWallet(merchant)]);
+    return onWallet(clientWallet, async () => {
+        // A concurrent retry with the same key may have finished while this one was queued.
+        const replayed = await replayedPayment(client, request.id, idempotencyKey);
+        if (replayed) return replayed;
+
+        const { amount } = request;
+        const { currency } = amount;
+        if (merchantWallet.currency !== currency) {
+            throw new PaymentError(`${merchant.merchantName || 'This merchant'} does not take payments in ${currency}.`);
+        }
+        const payFrom = funding.payFrom ?? currency;
+        const cost = paymentCost(request, payFrom);
+        if (!cost) throw new PaymentError(`Your ${payFrom} balance cannot be converted to ${currency}.`);
+        if (cost.conversion && cost.conversion.rate !== funding.quotedRate) {
+            throw new PaymentError('The exchange rate was not confirmed or has changed. Please review the current rate and pay again.');
+        }
+        const balance = await walletBalance(clientWallet, payFrom);
+        if (compare(balance, cost.cost) < 0) {
+            throw new PaymentError(`Transaction failed: Insufficient funds. Balance: ${formatMoney(balance)}`);
+        }
+        const timestamp = new Date().toISOString();
+        const transaction: Transaction = {
+            id: `tx-${randomUUID()}`,
+            amount,
+            status: 'completed',
+            timestamp,
+            merchantId: merchant.id,
+            merchantName: merchant.merchantName || merchant.name,
+            clientId: client.id,
+            clientName: client.name,
+            paymentRequestId: request.id,
+            ...(cost.conversion && { conversion: cost.conversion }),
+        };
+        const approved: PaymentRequest = { ...request, status: 'approved', transactionId: transaction.id };
+        try {
+            await commitDebit({
+                journal: transactionEntries(clientWallet, merchantWallet, transaction),
+                transaction,
+                request: approved,
+                attempt: { id: attemptId(client, idempotencyKey), clientId: client.id, paymentRequestId: request.id, transactionId: transaction.id, timestamp },
+                debit: { walletId: clientWallet.id, amount: cost.cost },
+            }, clientWallet, 'Transaction failed');
+        } catch (e) {
+            // The same key sent to another server process, which committed first: its attempt
+            // (or approval of the request) is now stored, so answer with that payment.
+            if (e instanceof DuplicateRecordError || e instanceof StaleRecordError) {
+                const raced = await replayedPayment(client, request.id, idempotencyKey);
+                if (raced) return raced;
+            }
+            throw e;
+        }
+        return { transaction, wallet: await toPublicWallet(clientWallet), request: approved };
+    });
+};
+
+/**
+ * Refunds `amount` of one of the merchant's sales to the client's wallet, in the sale's currency,
+ * records the refund as a transaction linked to the sale, and updates the sale's refunded total,
+ * all in one commit. Throws `PaymentError` when the sale is not the merchant's or not refundable,
+ * `amount` is in another currency than the sale or more than is left to refund, or the merchant's
+ * balance cannot cover it.
+ */
+export const refundPayment = async (merchant: UserRecord, paymentId: string, amount: Money): Promise<RefundResponse> => {
+    const merchantWallet = await requireWallet(merchant);
+    return onWallet(merchantWallet, async () => {
+        const { transactions, users } = storage();
+        const payment = await transactions.findById(paymentId);
+        if (!payment || payment.merchantId !== merchant.id || payment.refundOf) throw new PaymentError('This sale cannot be found.');
+        if (payment.status === 'refunded') throw new PaymentError('This sale has already been refunded in full.');
+        if (payment.status !== 'completed' && payment.status !== 'partially-refunded') throw new PaymentError('Only completed sales can be refunded.');
+        const { currency } = payment.amount;
+        if (amount.currency !== currency) throw new PaymentError(`This sale was paid in ${currency}; please refund it in ${currency}.`);
+        const previousRefundedAmount = payment.refundedAmount ?? zero(currency);
+        const refundedAmount = add(previousRefundedAmount, amount);
+        if (compare(refundedAmount, payment.amount) > 0) {
+            throw new PaymentError(`At most ${formatMoney(subtract(payment.amount, previousRefundedAmount))} of this sale can still be refunded.`);
+        }
+        const balance = await walletBalance(merchantWallet, currency);
+        if (compare(balance, amount) < 0) {
+            throw new PaymentError(`Refund failed: Insufficient funds. Balance: ${formatMoney(balance)}`);
+        }
+        const client = payment.clientId ? await users.findById(payment.clientId) : null;
+        if (!client) throw new PaymentError('The client of this sale no longer has an account.');
+        const clientWallet = await requireWallet(client);
+
+        const refund: Transaction = {
+            id: `tx-${randomUUID()}`,
+            amount,
+            status: 'completed',
+            timestamp: new Date().toISOString(),
+            merchantId: merchant.id,
+            merchantName: payment.merchantName,
+            clientId: client.id,
+            clientName: payment.clientName,
+            refundOf: payment.id,
+        };
+        const refunded: Transaction = {
+            ...payment,
+            refundedAmount,
+            status: compare(refundedAmount, payment.amount) === 0 ? 'refunded' : 'partially-refunded',
+        };
+        await commitDebit({
+            journal: [refundEntry(merchantWallet, clientWallet, amount, refund.id, refund.timestamp)],
+            transaction: refund,
+            refunded: { payment: refunded, previousRefundedAmount },
+            debit: { walletId: merchantWallet.id, amount },
+        }, merchantWallet, 'Refund failed');
+        return { refund, payment: refunded, wallet: await toPublicWallet(merchantWallet) };
+    });
+};
@@ -0,0 +1,137 @@
+// --- EMBEDDED REPOSITORIES: TESTS ---
+//
+// The embedded store on a temporary file: records survive reopening it, and a change that is
+// rejected or fails to write leaves nothing behind. Run with `npm test`.
+
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readFile, rm, rmdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { money } from '../../money.ts';
+import { openEmbeddedRepositories } from './embeddedRepositories.ts';
+import { DuplicateRecordError, StaleRecordError } from './types.ts';
+import type { JournalRecord, PaymentRequestRecord, Repositories, TransactionRecord, UserRecord } from './types.ts';
+
+const usd = (units: number) => money(units, 'USD');
+
+const user = (id: string, email: string): UserRecord => ({ id, name: `User ${id}`, email, walletId: `wallet-${id}`, bankLinked: false, userType: 'client', irisTemplates: {} });
+
+const request = (id: string, timestamp: string): PaymentRequestRecord => ({
+    id,
+    merchantId: 'merchant-1',
+    merchantName: 'Test Shop',
+    amount: usd(2_500),
+    status: 'pending',
+    timestamp,
+    expiresAt: '2099-01-01T00:00:00.000Z',
+    signature: 'signature',
+});
+
+const transaction = (id: string, timestamp: string): TransactionRecord => ({ id, amount: usd(2_500), status: 'completed', timestamp, clientId: 'client-1', merchantId: 'merchant-1' });
+
+const topUp = (id: string, units: number): JournalRecord => ({
+    id,
+    kind: 'top-up',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    lines: [
+        { account: 'funding', direction: 'debit', amount: usd(units) },
+        { account: 'wallet-client-1', direction: 'credit', amount: usd(units) },
+    ],
+});
+
+describe('embedded repositories', () => {
+    let dir: string;
+    let file: string;
+    let store: Repositories;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'irispay-store-'));
+        file = join(dir, 'store.json');
+        store = await openEmbeddedRepositories(file);
+    });
+
+    afterEach(async () => {
+        await store.close();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    const reopen = async (): Promise<Repositories> => {
+        await store.close();
+        store = await openEmbeddedRepositories(file);
+        return store;
+    };
+
+    it('reads back what was written after a restart', async () => {
+        await store.users.insert(user('client-1', 'client@example.com'));
+        await store.journal.insert(topUp('top-up-1', 10_000));
+        await store.paymentRequests.insert(request('req-1', '2026-01-01T00:00:00.000Z'));
+
+        const reopened = await reopen();
+        assert.equal((await reopened.users.findById('client-1'))?.email, 'client@example.com');
+        assert.deepEqual((await reopened.journal.list()).map(j => j.id), ['top-up-1']);
+        assert.deepEqual(await reopened.paymentRequests.findById('req-1'), request('req-1', '2026-01-01T00:00:00.000Z'));
+    });
+
+    it('finds users by email in any case and refuses a second account on it', async () => {
+        await store.users.insert(user('client-1', 'Client@Example.com'));
+        await assert.rejects(store.users.insert(user('client-2', 'client@example.com')), DuplicateRecordError);
+        await assert.rejects(store.users.insert(user('client-1', 'other@example.com')), DuplicateRecordError);
+
+        assert.equal((await store.users.findByEmail('CLIENT@example.com'))?.id, 'client-1');
+        assert.equal(await store.users.count(), 1);
+    });
+
+    it('stores a changed record only when it is passed to update', async () => {
+        const stored = await store.users.insert(user('client-1', 'client@example.com'));
+        stored.name = 'Renamed';
+        assert.equal((await store.users.findById('client-1'))?.name, 'User client-1');
+
+        assert.equal((await store.users.update(stored))?.name, 'Renamed');
+        assert.equal((await (await reopen()).users.findById('client-1'))?.name, 'Renamed');
+        assert.equal(await store.users.update(user('nobody', 'nobody@example.com')), null);
+    });
+
+    it('lists transactions and payment requests newest first', async () => {
+        await store.transactions.insert(transaction('tx-1', '2026-01-01T00:00:00.000Z'));
+        await store.transactions.insert(transaction('tx-2', '2026-01-02T00:00:00.000Z'));
+        await store.transactions.insert({ ...transaction('tx-3', '2026-01-03T00:00:00.000Z'), clientId: 'client-2' });
+        await store.paymentRequests.insert(request('req-1', '2026-01-01T00:00:00.000Z'));
+        await store.paymentRequests.insert(request('req-2', '2026-01-02T00:00:00.000Z'));
+        await store.paymentRequests.update({ ...request('req-1', '2026-01-01T00:00:00.000Z'), status: 'rejected' });
+
+        assert.deepEqual((await store.transactions.listForUser('client-1')).map(t => t.id), ['tx-2', 'tx-1']);
+        assert.deepEqual((await store.transactions.listForUser('merchant-1')).map(t => t.id), ['tx-3', 'tx-2', 'tx-1']);
+        assert.deepEqual((await store.paymentRequests.listForMerchant('merchant-1')).map(r => [r.id, r.status]), [['req-2', 'pending'], ['req-1', 'rejected']]);
+    });
+
+    it('commits a payment whole or not at all', async () => {
+        await store.paymentRequests.insert({ ...request('req-1', '2026-01-01T00:00:00.000Z'), status: 'cancelled' });
+        const payment = {
+            journal: [topUp('payment-1', 2_500)],
+            transaction: transaction('tx-1', '2026-01-02T00:00:00.000Z'),
+            request: { ...request('req-1', '2026-01-01T00:00:00.000Z'), status: 'approved' as const, transactionId: 'tx-1' },
+        };
+        await assert.rejects(store.payments.commit(payment), StaleRecordError);
+
+        const reopened = await reopen();
+        assert.deepEqual(await reopened.journal.list(), []);
+        assert.equal(await reopened.transactions.findById('tx-1'), null);
+        assert.equal((await reopened.paymentRequests.findById('req-1'))?.status, 'cancelled');
+    });
+
+    it('keeps neither the file nor memory changed when a write fails', async () => {
+        await store.users.insert(user('client-1', 'client@example.com'));
+        const before = await readFile(file, 'utf8');
+        // The store writes to `<file>.tmp` first; a directory in its place makes that fail.
+        await mkdir(`${file}.tmp`);
+
+        await assert.rejects(store.users.insert(user('client-2', 'other@example.com')));
+        assert.equal(await store.users.findById('client-2'), null);
+        assert.equal(await readFile(file, 'utf8'), before);
+
+        await rmdir(`${file}.tmp`);
+        await store.users.insert(user('client-3', 'third@example.com'));
+        assert.deepEqual((await (await reopen()).users.list()).map(u => u.id), ['client-1', 'client-3']);
+    });
+});
@@ -0,0 +1,202 @@
+// --- EMBEDDED REPOSITORIES ---
+//
+// All records in memory, for local demos and tests without a database server. Given a file, the
+// store is loaded from it on open and written back after every change, so accounts, wallets and
+// payments survive a restart. Changes run one at a time, each on a copy of the store that only
+// takes its place once written; writes go to a temporary file that then replaces the old one,
+// so a crash never leaves a half-written store behind, and a change that is rejected or fails
+// to write leaves neither the file nor memory changed. A payment's records are checked, then
+// added together and written in one go.
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { ProtectionKey } from '../../templateProtection.ts';
+import { DuplicateRecordError, InsufficientFundsError, StaleRecordError, byNewestFirst, byOldestFirst } from './types.ts';
+import type { JournalRecord, PaymentAttemptRecord, PaymentRequestRecord, Repositories, SigningKeyRecord, TransactionRecord, UserRecord, WalletRecord } from './types.ts';
+
+/** Layout of the store file. */
+interface EmbeddedData {
+    users: UserRecord[];
+    wallets: WalletRecord[];
+    journal: JournalRecord[];
+    transactions: TransactionRecord[];
+    paymentRequests: PaymentRequestRecord[];
+    paymentAttempts: PaymentAttemptRecord[];
+    protectionKeys: ProtectionKey[];
+    signingKeys: SigningKeyRecord[];
+}
+
+const emptyData = (): EmbeddedData => ({ users: [], wallets: [], journal: [], transactions: [], paymentRequests: [], paymentAttempts: [], protectionKeys: [], signingKeys: [] });
+
+const loadData = async (file: string): Promise<EmbeddedData> => {
+    let text: string;
+    try {
+        text = await readFile(file, 'utf8');
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return emptyData();
+        throw e;
+    }
+    return { ...emptyData(), ...JSON.parse(text) as Partial<EmbeddedData> };
+};
+
+/** A wallet's balance in `currency`, in minor units: wallets are credit-normal ledger accounts. */
+const walletUnits = (journal: JournalRecord[], walletId: string, currency: string): number =>
+    journal.flatMap(j => j.lines)
+        .filter(l => l.account === walletId && l.amount.currency === currency)
+        .reduce((units, l) => units + (l.direction === 'credit' ? l.amount.units : -l.amount.units), 0);
+
+/**
+ * Makes `change` to a copy of the store, which replaces the store once written. `change` may
+ * reject the change by throwing.
+ */
+type Write = (change: (draft: EmbeddedData) => void) => Promise<void>;
+
+/** One collection of records keyed by `id`, handing out copies. */
+const createCollection = <T extends { id: string }>(current: () => EmbeddedData, select: (data: EmbeddedData) => T[], write: Write, describe: (record: T) => string) => ({
+    /** Throws `DuplicateRecordError` if a record with the same id is in `draft`. */
+    assertNew: (draft: EmbeddedData, record: T): void => {
+        if (select(draft).some(r => r.id === record.id)) throw new DuplicateRecordError(`${describe(record)} already exists.`);
+    },
+
+    find: (predicate: (record: T) => boolean): T[] => select(current()).filter(predicate).map(r => structuredClone(r)),
+
+    findById: async (id: string): Promise<T | null> => {
+        const record = select(current()).find(r => r.id === id);
+        return record ? structuredClone(record) : null;
+    },
+
+    /** `check` sees the store as it is when the record is added, and may reject it by throwing. */
+    insert: async (record: T, check?: (draft: EmbeddedData) => void): Promise<T> => {
+        await write(draft => {
+            check?.(draft);
+            if (select(draft).some(r => r.id === record.id)) throw new DuplicateRecordError(`${describe(record)} already exists.`);
+            select(draft).push(structuredClone(record));
+        });
+        return structuredClone(record);
+    },
+
+    update: async (record: T): Promise<T | null> => {
+        let found = false;
+        await write(draft => {
+            const records = select(draft);
+            const index = records.findIndex(r => r.id === record.id);
+            found = index >= 0;
+            if (found) records[index] = structuredClone(record);
+        });
+        return found ? structuredClone(record) : null;
+    },
+
+    remove: async (id: string): Promise<void> => {
+        await write(draft => {
+            const records = select(draft);
+            const index = records.findIndex(r => r.id === id);
+            if (index >= 0) records.splice(index, 1);
+        });
+    },
+});
+
+/** Opens the embedded store, backed by `file` or, when null, by nothing but memory. */
+export const openEmbeddedRepositories = async (file: string | null): Promise<Repositories> => {
+    let data = file ? await loadData(file) : emptyData();
+    const current = () => data;
+
+    // Settles after the last queued change; a failed one rejects only its own caller.
+    let writes = Promise.resolve();
+    const write: Write = change => {
+        const run = writes.then(async () => {
+            const draft = structuredClone(data);
+            change(draft);
+            if (file) {
+                await mkdir(dirname(file), { recursive: true });
+                await writeFile(`${file}.tmp`, JSON.stringify(draft, null, 2));
+                await rename(`${file}.tmp`, file);
+            }
+            data = draft;
+        });
+        writes = run.catch(() => undefined);
+        return run;
+    };
+
+    const users = createCollection(current, d => d.users, write, u => `User ${u.id}`);
+    const wallets = createCollection(current, d => d.wallets, write, w => `Wallet ${w.id}`);
+    const journal = createCollection(current, d => d.journal, write, j => `Journal entry ${j.id}`);
+    const transactions = createCollection(current, d => d.transactions, write, t => `Transaction ${t.id}`);
+    const paymentRequests = createCollection(current, d => d.paymentRequests, write, r => `Payment request ${r.id}`);
+    const paymentAttempts = createCollection(current, d => d.paymentAttempts, write, a => `Payment attempt ${a.id}`);
+    const protectionKeys = createCollection(current, d => d.protectionKeys, write, k => `Protection key ${k.id}`);
+    const signingKeys = createCollection(current, d => d.signingKeys, write, k => `Signing key of ${k.id}`);
+
+    const sameEmail = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+    return {
+        users: {
+            findById: users.findById,
+            findByEmail: async email => users.find(u => sameEmail(u.email, email))[0] ?? null,
+            list: async (filter = {}) => users.find(u => !filter.userType || u.userType === filter.userType),
+            count: async () => data.users.length,
+            insert: user => users.insert(user, draft => {
+                if (draft.users.some(u => sameEmail(u.email, user.email))) throw new DuplicateRecordError(`A user with email ${user.email} already exists.`);
+            }),
+            update: users.update,
+        },
+        wallets: {
+            findById: wallets.findById,
+            list: async () => wallets.find(() => true),
+            insert: wallets.insert,
+        },
+        journal: {
+            listForAccount: async account => journal.find(j => j.lines.some(l => l.account === account)).sort(byOldestFirst),
+            list: async () => journal.find(() => true).sort(byOldestFirst),
+            insert: journal.insert,
+        },
+        transactions: {
+            findById: transactions.findById,
+            listForUser: async userId => transactions.find(t => t.clientId === userId || t.merchantId === userId).sort(byNewestFirst),
+            insert: transactions.insert,
+            update: transactions.update,
+        },
+        paymentRequests: {
+            findById: paymentRequests.findById,
+            listForMerchant: async merchantId => paymentRequests.find(r => r.merchantId === merchantId).sort(byNewestFirst),
+            insert: paymentRequests.insert,
+            update: paymentRequests.update,
+        },
+        payments: {
+            findAttempt: paymentAttempts.findById,
+            commit: payment => write(draft => {
+                payment.journal.forEach(j => journal.assertNew(draft, j));
+                transactions.assertNew(draft, payment.transaction);
+                if (payment.attempt) paymentAttempts.assertNew(draft, payment.attempt);
+                const requestIndex = payment.request ? draft.paymentRequests.findIndex(r => r.id === payment.request!.id) : -1;
+                if (payment.request && draft.paymentRequests[requestIndex]?.status !== 'pending') {
+                    throw new StaleRecordError(`Payment request ${payment.request.id} is no longer pending.`);
+                }
+                const refundedIndex = payment.refunded ? draft.transactions.findIndex(t => t.id === payment.refunded!.payment.id) : -1;
+                if (payment.refunded && (draft.transactions[refundedIndex]?.refundedAmount?.units ?? 0) !== payment.refunded.previousRefundedAmount.units) {
+                    throw new StaleRecordError(`Transaction ${payment.refunded.payment.id} was refunded meanwhile.`);
+                }
+                if (payment.debit) {
+                    const { walletId, amount } = payment.debit;
+                    if (walletUnits(draft.journal, walletId, amount.currency) < amount.units) {
+                        throw new InsufficientFundsError(`Wallet ${walletId} cannot cover ${amount.units} ${amount.currency} minor units.`);
+                    }
+                }
+                draft.journal.push(...structuredClone(payment.journal));
+                draft.transactions.push(structuredClone(payment.transaction));
+                if (payment.attempt) draft.paymentAttempts.push(structuredClone(payment.attempt));
+                if (payment.request) draft.paymentRequests[requestIndex] = structuredClone(payment.request);
+                if (payment.refunded) draft.transactions[refundedIndex] = structuredClone(payment.refunded.payment);
+            }),
+        },
+        protectionKeys: {
+            findById: protectionKeys.findById,
+            insert: protectionKeys.insert,
+            remove: protectionKeys.remove,
+        },
+        signingKeys: {
+            findById: signingKeys.findById,
+            insert: signingKeys.insert,
+        },
+        close: () => writes,
+    };
+};
@@ -0,0 +1,271 @@
+// --- MONGOOSE REPOSITORIES ---
+//
+// The repositories on MongoDB. Each record is one document whose `_id` is the record's `id`;
+// queries return plain objects (`lean`), so nothing Mongoose-specific leaks past this module.
+// Payments are committed in a multi-document transaction, which needs MongoDB running as a
+// replica set (a single-node one is enough).
+
+import mongoose, { Schema } from 'mongoose';
+import type { Model, QueryFilter, SortOrder } from 'mongoose';
+import type { ProtectionKey } from '../../templateProtection.ts';
+import { DuplicateRecordError, InsufficientFundsError, StaleRecordError } from './types.ts';
+import type { JournalRecord, PaymentAttemptRecord, PaymentRequestRecord, Repositories, SigningKeyRecord, TransactionRecord, UserRecord, WalletRecord } from './types.ts';
+
+/** A record as stored: `id` becomes `_id`. */
+type Stored<T extends { id: string }> = Omit<T, 'id'> & { _id: string };
+
+const toStored = <T extends { id: string }>({ id, ...rest }: T): Stored<T> => ({ _id: id, ...rest }) as Stored<T>;
+
+const fromStored = <T extends { id: string }>({ _id, ...rest }: Stored<T>): T => ({ id: _id, ...rest }) as unknown as T;
+
+/** Email lookups and the unique email index ignore case. */
+const CASE_INSENSITIVE = { locale: 'en', strength: 2 };
+
+// `minimize: false` keeps empty objects such as an account with no enrolled eye left.
+const SCHEMA_OPTIONS = { versionKey: false, minimize: false } as const;
+
+const userSchema = new Schema<Stored<UserRecord>>({
+    _id: { type: String, required: true },
+    name: { type: String, required: true },
+    email: { type: String, required: true },
+    walletId: { type: String, required: true },
+    bankLinked: { type: Boolean, required: true },
+    userType: { type: String, enum: ['client', 'merchant'], required: true },
+    merchantName: String,
+    irisTemplates: { type: new Schema({ left: String, right: String }, { _id: false }), default: {} },
+}, SCHEMA_OPTIONS);
+userSchema.index({ email: 1 }, { unique: true, collation: CASE_INSENSITIVE });
+userSchema.index({ userType: 1 });
+
+const walletSchema = new Schema<Stored<WalletRecord>>({
+    _id: { type: String, required: true },
+    ownerId: { type: String, required: true, index: true },
+    currency: { type: String, required: true },
+}, SCHEMA_OPTIONS);
+
+const moneySchema = new Schema({
+    units: { type: Number, required: true },
+    currency: { type: String, required: true },
+}, { _id: false });
+
+const ledgerLineSchema = new Schema({
+    account: { type: String, required: true },
+    direction: { type: String, enum: ['debit', 'credit'], required: true },
+    amount: { type: moneySchema, required: true },
+}, { _id: false });
+
+const journalSchema = new Schema<Stored<JournalRecord>>({
+    _id: { type: String, required: true },
+    kind: { type: String, enum: ['top-up', 'payment', 'fee', 'refund'], required: true },
+    timestamp: { type: String, required: true },
+    transactionId: String,
+    lines: { type: [ledgerLineSchema], required: true },
+}, SCHEMA_OPTIONS);
+journalSchema.index({ 'lines.account': 1, timestamp: 1 });
+
+const currencyConversionSchema = new Schema({
+    from: { type: moneySchema, required: true },
+    to: { type: moneySchema, required: true },
+    midRate: { type: Number, required: true },
+    rate: { type: Number, required: true },
+    spread: { type: Number, required: true },
+}, { _id: false });
+
+const transactionSchema = new Schema<Stored<TransactionRecord>>({
+    _id: { type: String, required: true },
+    amount: { type: moneySchema, required: true },
+    status: { type: String, enum: ['pending', 'completed', 'partially-refunded', 'refunded', 'failed'], required: true },
+    timestamp: { type: String, required: true },
+    merchantId: { type: String, index: true },
+    merchantName: String,
+    clientId: { type: String, index: true },
+    clientName: String,
+    paymentRequestId: String,
+    refundedAmount: moneySchema,
+    refundOf: { type: String, index: true },
+    conversion: currencyConversionSchema,
+}, SCHEMA_OPTIONS);
+
+const paymentRequestSchema = new Schema<Stored<PaymentRequestRecord>>({
+    _id: { type: String, required: true },
+    merchantId: { type: String, required: true, index: true },
+    merchantName: { type: String, required: true },
+    amount: { type: moneySchema, required: true },
+    status: { type: String, enum: ['pending', 'approved', 'rejected', 'cancelled', 'expired'], required: true },
+    timestamp: { type: String, required: true },
+    expiresAt: { type: String, required: true },
+    signature: { type: String, required: true },
+    transactionId: String,
+}, SCHEMA_OPTIONS);
+
+const paymentAttemptSchema = new Schema<Stored<PaymentAttemptRecord>>({
+    _id: { type: String, required: true },
+    clientId: { type: String, required: true },
+    paymentRequestId: { type: String, required: true },
+    transactionId: { type: String, required: true },
+    timestamp: { type: String, required: true },
+}, SCHEMA_OPTIONS);
+
+const protectionKeySchema = new Schema<Stored<ProtectionKey>>({
+    _id: { type: String, required: true },
+    secret: { type: String, required: true },
+}, SCHEMA_OPTIONS);
+
+const signingKeySchema = new Schema<Stored<SigningKeyRecord>>({
+    _id: { type: String, required: true },
+    publicKey: { type: String, required: true },
+    privateKey: { type: String, required: true },
+    createdAt: { type: String, required: true },
+}, SCHEMA_OPTIONS);
+
+const isDuplicateKeyError = (e: unknown): boolean => (e as { code?: unknown })?.code === 11000;
+
+/** Record-level operations on one model. */
+const createModelRepository = <T extends { id: string }>(model: Model<Stored<T>>, describe: (record: T) => string) => ({
+    findById: async (id: string): Promise<T | null> => {
+        const doc = await model.findById(id).lean<Stored<T>>();
+        return doc && fromStored<T>(doc);
+    },
+
+    /** Matching records, in `timestamp` order when asked for. */
+    find: async (filter: QueryFilter<Stored<T>>, order: 'newest-first' | 'oldest-first' | null = null): Promise<T[]> => {
+        const sort: Record<string, SortOrder> = order ? { timestamp: order === 'newest-first' ? -1 : 1 } : {};
+        return (await model.find(filter).sort(sort).lean<Stored<T>[]>()).map(doc => fromStored<T>(doc));
+    },
+
+    insert: async (record: T): Promise<T> => {
+        try {
+            await model.create(toStored(record));
+        } catch (e) {
+            if (isDuplicateKeyError(e)) throw new DuplicateRecordError(`${describe(record)} already exists.`);
+            throw e;
+        }
+        return structuredClone(record);
+    },
+
+    update: async (record: T): Promise<T | null> => {
+        const result = await model.replaceOne({ _id: record.id }, toStored(record));
+        return result.matchedCount > 0 ? structuredClone(record) : null;
+    },
+
+    remove: async (id: string): Promise<void> => {
+        await model.deleteOne({ _id: id });
+    },
+});
+
+/** Connects to the MongoDB at `uri` and builds the indexes the repositories rely on. */
+export const openMongooseRepositories = async (uri: string): Promise<Repositories> => {
+    const connection = await mongoose.createConnection(uri).asPromise();
+    const userModel = connection.model('User', userSchema);
+    const models = [
+        userModel,
+        connection.model('Wallet', walletSchema),
+        connection.model('Journal', journalSchema),
+        connection.model('Transaction', transactionSchema),
+        connection.model('PaymentRequest', paymentRequestSchema),
+        connection.model('PaymentAttempt', paymentAttemptSchema),
+        connection.model('ProtectionKey', protectionKeySchema),
+        connection.model('SigningKey', signingKeySchema),
+    ] as const;
+    await Promise.all(models.map(model => model.init()));
+    const [, walletModel, journalModel, transactionModel, paymentRequestModel, paymentAttemptModel, protectionKeyModel, signingKeyModel] = models;
+
+    const users = createModelRepository<UserRecord>(userModel, u => `User ${u.id} or email ${u.email}`);
+    const wallets = createModelRepository<WalletRecord>(walletModel, w => `Wallet ${w.id}`);
+    const journal = createModelRepository<JournalRecord>(journalModel, j => `Journal entry ${j.id}`);
+    const transactions = createModelRepository<TransactionRecord>(transactionModel, t => `Transaction ${t.id}`);
+    const paymentRequests = createModelRepository<PaymentRequestRecord>(paymentRequestModel, r => `Payment request ${r.id}`);
+    const paymentAttempts = createModelRepository<PaymentAttemptRecord>(paymentAttemptModel, a => `Payment attempt ${a.id}`);
+    const protectionKeys = createModelRepository<ProtectionKey>(protectionKeyModel, k => `Protection key ${k.id}`);
+    const signingKeys = createModelRepository<SigningKeyRecord>(signingKeyModel, k => `Signing key of ${k.id}`);
+
+    return {
+        users: {
+            findById: users.findById,
+            findByEmail: async email => {
+                const doc = await userModel.findOne({ email }).collation(CASE_INSENSITIVE).lean<Stored<UserRecord>>();
+                return doc && fromStored<UserRecord>(doc);
+            },
+            list: filter => users.find(filter?.userType ? { userType: filter.userType } : {}),
+            count: () => userModel.countDocuments(),
+            insert: users.insert,
+            update: users.update,
+        },
+        wallets: {
+            findById: wallets.findById,
+            list: () => wallets.find({}),
+            insert: wallets.insert,
+        },
+        journal: {
+            listForAccount: account => journal.find({ 'lines.account': account }, 'oldest-first'),
+            list: () => journal.find({}, 'oldest-first'),
+            insert: journal.insert,
+        },
+        transactions: {
+            findById: transactions.findById,
+            listForUser: userId => transactions.find({ $or: [{ clientId: userId }, { merchantId: userId }] }, 'newest-first'),
+            insert: transactions.insert,
+            update: transactions.update,
+        },
+        paymentRequests: {
+            findById: paymentRequests.findById,
+            listForMerchant: merchantId => paymentRequests.find({ merchantId }, 'newest-first'),
+            insert: paymentRequests.insert,
+            update: paymentRequests.update,
+        },
+        payments: {
+            findAttempt: paymentAttempts.findById,
+            commit: async payment => {
+                try {
+                    await connection.transaction(async session => {
+                        if (payment.debit) {
+                            const { walletId, amount } = payment.debit;
+                            // Writing to the wallet first makes commits on the same wallet conflict,
+                            // so MongoDB retries all but one of them and each reads the balance the
+                            // others left, instead of all passing the check below on the same one.
+                            await walletModel.updateOne({ _id: walletId }, { $inc: { revision: 1 } }, { session, strict: false });
+                            const [balance] = await journalModel.aggregate<{ units: number }>([
+                                { $match: { 'lines.account': walletId } },
+                                { $unwind: '$lines' },
+                                { $match: { 'lines.account': walletId, 'lines.amount.currency': amount.currency } },
+                                { $group: { _id: null, units: { $sum: { $cond: [{ $eq: ['$lines.direction', 'credit'] }, '$lines.amount.units', { $multiply: ['$lines.amount.units', -1] }] } } } },
+                            ]).session(session);
+                            if ((balance?.units ?? 0) < amount.units) {
+                                throw new InsufficientFundsError(`Wallet ${walletId} cannot cover ${amount.units} ${amount.currency} minor units.`);
+                            }
+                        }
+                        await journalModel.insertMany(payment.journal.map(j => toStored(j)), { session });
+                        await transactionModel.create([toStored(payment.transaction)], { session });
+                        if (payment.attempt) await paymentAttemptModel.create([toStored(payment.attempt)], { session });
+                        if (payment.request) {
+                            const result = await paymentRequestModel.replaceOne({ _id: payment.request.id, status: 'pending' }, toStored(payment.request), { session });
+                            if (result.matchedCount === 0) throw new StaleRecordError(`Payment request ${payment.request.id} is no longer pending.`);
+                        }
+                        if (payment.refunded) {
+                            const { payment: refunded, previousRefundedAmount } = payment.refunded;
+                            // Payments that were never refunded have no `refundedAmount` yet.
+                            const unchanged = previousRefundedAmount.units === 0
+                                ? { $or: [{ 'refundedAmount.units': 0 }, { refundedAmount: { $exists: false } }] }
+                                : { 'refundedAmount.units': previousRefundedAmount.units };
+                            const result = await transactionModel.replaceOne({ _id: refunded.id, ...unchanged }, toStored(refunded), { session });
+                            if (result.matchedCount === 0) throw new StaleRecordError(`Transaction ${refunded.id} was refunded meanwhile.`);
+                        }
+                    });
+                } catch (e) {
+                    if (isDuplicateKeyError(e)) throw new DuplicateRecordError(`Transaction ${payment.transaction.id} or one of its records already exists.`);
+                    throw e;
+                }
+            },
+        },
+        protectionKeys: {
+            findById: protectionKeys.findById,
+            insert: protectionKeys.insert,
+            remove: protectionKeys.remove,
+        },
+        signingKeys: {
+            findById: signingKeys.findById,
+            insert: signingKeys.insert,
+        },
+        close: () => connection.close(),
+    };
+};
@@ -0,0 +1,221 @@
+// --- REPOSITORIES ---
+//
+// What the server stores, and the interfaces it stores it through. Route handlers and services
+// only ever see these interfaces; `server/storage.ts` picks the implementation at startup:
+// MongoDB through Mongoose (mongooseRepositories.ts), or the embedded store that keeps
+// everything in memory and optionally in a JSON file (embeddedRepositories.ts).
+//
+// Every method returns copies: changing a returned record does not change what is stored
+// until it is passed back to `update`.
+
+import type { EyeSide } from '../../dualEye.ts';
+import type { Money } from '../../money.ts';
+import type { ProtectionKey } from '../../templateProtection.ts';
+import type { PaymentRequest, Transaction } from '../../apiTypes.ts';
+
+/** A stored account. */
+export interface UserRecord {
+    id: string;
+    name: string;
+    email: string;
+    walletId: string;
+    bankLinked: boolean;
+    userType: 'client' | 'merchant';
+    merchantName?: string;
+    /**
+     * Enrolled IrisCode of each eye after the keyed transform, in `serializeProtectedTemplate`
+     * form; both eyes share one transform key. Never the raw codes.
+     */
+    irisTemplates: Partial<Record<EyeSide, string>>;
+}
+
+/**
+ * A stored wallet; `UserRecord.walletId` points at it. The wallet is an account of the ledger
+ * under its id and can hold any supported currency; its balances are derived from the journal
+ * (see server/ledger.ts).
+ */
+export interface WalletRecord {
+    id: string;
+    ownerId: string;
+    /** Home currency: top-ups default to it, and a merchant's payment requests are priced in it. */
+    currency: string;
+}
+
+/** One side of a journal entry: `amount` debited or credited to ledger account `account`. */
+export interface LedgerLine {
+    account: string;
+    direction: 'debit' | 'credit';
+    amount: Money;
+}
+
+/** A balanced set of ledger lines posted together; never changed once stored. */
+export interface JournalRecord {
+    id: string;
+    kind: 'top-up' | 'payment' | 'fee' | 'refund';
+    timestamp: string;
+    /** The transaction the entry belongs to, for payments, their fees and refunds. */
+    transactionId?: string;
+    lines: LedgerLine[];
+}
+
+/** A merchant's payment-code signing key pair, `id` being the merchant's account id. */
+export interface SigningKeyRecord {
+    id: string;
+    /** ECDSA P-256, SPKI DER, base64url. */
+    publicKey: string;
+    /** PKCS#8 DER, base64url. Never leaves the server. */
+    privateKey: string;
+    createdAt: string;
+}
+
+export type TransactionRecord = Transaction;
+
+export type PaymentRequestRecord = PaymentRequest;
+
+/** A payment a client made, under the idempotency key it was sent with. */
+export interface PaymentAttemptRecord {
+    /** `<client id>:<idempotency key>`, so clients cannot collide on keys. */
+    id: string;
+    clientId: string;
+    paymentRequestId: string;
+    transactionId: string;
+    timestamp: string;
+}
+
+/** Everything one payment or refund writes. */
+export interface PaymentCommit {
+    /** The ledger entries: a payment and the fee on it, or a refund. */
+    journal: JournalRecord[];
+    transaction: TransactionRecord;
+    /** The request it pays, approved; only stored over a request that is still pending. */
+    request?: PaymentRequestRecord;
+    attempt?: PaymentAttemptRecord;
+    /**
+     * For a refund, the refunded payment with its new refunded total; only stored over the
+     * payment as it was read, with `previousRefundedAmount` refunded.
+     */
+    refunded?: { payment: TransactionRecord; previousRefundedAmount: Money };
+    /**
+     * The wallet the money leaves and how much of it: its balance is checked again inside the
+     * commit, so payments committed side by side, even by other server processes, cannot
+     * overdraw it.
+     */
+    debit?: { walletId: string; amount: Money };
+}
+
+export interface UserRepository {
+    findById(id: string): Promise<UserRecord | null>;
+    /** Case-insensitive. */
+    findByEmail(email: string): Promise<UserRecord | null>;
+    list(filter?: { userType?: UserRecord['userType'] }): Promise<UserRecord[]>;
+    count(): Promise<number>;
+    insert(user: UserRecord): Promise<UserRecord>;
+    /** Replaces the stored user with the same id; null if there is none. */
+    update(user: UserRecord): Promise<UserRecord | null>;
+}
+
+export interface WalletRepository {
+    findById(id: string): Promise<WalletRecord | null>;
+    list(): Promise<WalletRecord[]>;
+    insert(wallet: WalletRecord): Promise<WalletRecord>;
+}
+
+/** The ledger's journal. Append-only: entries are corrected by posting new ones. */
+export interface JournalRepository {
+    /** Entries with a line on `account`, oldest first. */
+    listForAccount(account: string): Promise<JournalRecord[]>;
+    /** Every entry, oldest first. */
+    list(): Promise<JournalRecord[]>;
+    insert(journal: JournalRecord): Promise<JournalRecord>;
+}
+
+export interface TransactionRepository {
+    findById(id: string): Promise<TransactionRecord | null>;
+    /** Transactions with `userId` as client or merchant, newest first. */
+    listForUser(userId: string): Promise<TransactionRecord[]>;
+    insert(transaction: TransactionRecord): Promise<TransactionRecord>;
+    /** Replaces the stored transaction with the same id; null if there is none. */
+    update(transaction: TransactionRecord): Promise<TransactionRecord | null>;
+}
+
+export interface PaymentRequestRepository {
+    findById(id: string): Promise<PaymentRequestRecord | null>;
+    /** The merchant's requests, newest first. */
+    listForMerchant(merchantId: string): Promise<PaymentRequestRecord[]>;
+    insert(request: PaymentRequestRecord): Promise<PaymentRequestRecord>;
+    /** Replaces the stored request with the same id; null if there is none. */
+    update(request: PaymentRequestRecord): Promise<PaymentRequestRecord | null>;
+}
+
+/** Payments, written as one unit. */
+export interface PaymentRepository {
+    findAttempt(id: string): Promise<PaymentAttemptRecord | null>;
+    /**
+     * Stores all of `payment` or, on any error, none of it. Throws `DuplicateRecordError` when
+     * one of its records is already stored (e.g. the attempt, when a retry got there first),
+     * `StaleRecordError` when the request is no longer pending or the refunded payment changed,
+     * and `InsufficientFundsError` when the debited wallet's balance cannot cover the debit.
+     */
+    commit(payment: PaymentCommit): Promise<void>;
+}
+
+/**
+ * Transform keys of the protected iris templates. Stands in for a key-management service and is
+ * kept apart from the user records, so a copy of those alone cannot be matched against.
+ */
+export interface ProtectionKeyRepository {
+    findById(id: string): Promise<ProtectionKey | null>;
+    insert(key: ProtectionKey): Promise<ProtectionKey>;
+    remove(id: string): Promise<void>;
+}
+
+/** Merchant signing keys, kept apart from the user records like the protection keys. */
+export interface SigningKeyRepository {
+    findById(id: string): Promise<SigningKeyRecord | null>;
+    insert(key: SigningKeyRecord): Promise<SigningKeyRecord>;
+}
+
+export interface Repositories {
+    users: UserRepository;
+    wallets: WalletRepository;
+    journal: JournalRepository;
+    transactions: TransactionRepository;
+    paymentRequests: PaymentRequestRepository;
+    payments: PaymentRepository;
+    protectionKeys: ProtectionKeyRepository;
+    signingKeys: SigningKeyRepository;
+    /** Flushes pending writes and releases the connection. */
+    close(): Promise<void>;
+}
+
+/** Thrown by `insert` when a record with the same id, or a user with the same email, is already stored. */
+export class DuplicateRecordError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DuplicateRecordError';
+    }
+}
+
+/** Thrown when a record changed since it was read, e.g. a request closed while it was being paid. */
+export class StaleRecordError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StaleRecordError';
+    }
+}
+
+/** Thrown by `PaymentRepository.commit` when the debited wallet no longer holds the amount. */
+export class InsufficientFundsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InsufficientFundsError';
+    }
+}
+
+/** Newest first, by ISO `timestamp`. */
+export const byNewestFirst = (a: { timestamp: string }, b: { timestamp: string }): number =>
+    b.timestamp.localeCompare(a.timestamp);
+
+/** Oldest first, by ISO `timestamp`. */
+export const byOldestFirst = (a: { timestamp: string }, b: { timestamp: string }): number =>
+    a.timestamp.localeCompare(b.timestamp);
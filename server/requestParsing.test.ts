@@ -0,0 +1,48 @@
+// --- REQUEST PARSING: TESTS ---
+//
+// Iris templates and probes from untrusted request bodies. Run with `npm test`.
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CURRENT_TEMPLATE_ALGORITHM, TEMPLATE_ALGORITHMS, serializeTemplate } from '../irisTemplate.ts';
+import type { IrisTemplate } from '../irisTemplate.ts';
+import { HttpError } from './httpError.ts';
+import { parseProbes, parseTemplate } from './requestParsing.ts';
+
+const { version, radialBins, angularBins } = CURRENT_TEMPLATE_ALGORITHM;
+
+const blankTemplate = (): IrisTemplate => ({
+    version,
+    radialBins,
+    angularBins,
+    code: new Uint8Array(radialBins * angularBins * 2),
+    mask: new Uint8Array(radialBins * angularBins * 2).fill(1),
+});
+
+const badRequest = (e: unknown) => e instanceof HttpError && e.status === 400;
+
+describe('parseTemplate', () => {
+    it('reads a template of a registered version', () => {
+        const parsed = parseTemplate(serializeTemplate(blankTemplate()));
+        assert.equal(parsed.version, version);
+        assert.equal(parsed.code.length, radialBins * angularBins * 2);
+    });
+
+    it('rejects bin counts that do not match the version', () => {
+        assert.throws(() => parseTemplate(`iris:v${version}:4000x4000::`), badRequest);
+        assert.throws(() => parseTemplate(`iris:v${version}:${radialBins}x${angularBins + 1}::`), badRequest);
+    });
+
+    it('rejects an unknown version', () => {
+        assert.throws(() => parseTemplate(`iris:v999:${radialBins}x${angularBins}::`), badRequest);
+    });
+});
+
+describe('parseProbes', () => {
+    it('takes at most one probe per template algorithm', () => {
+        const probe = serializeTemplate(blankTemplate());
+        assert.equal(parseProbes(TEMPLATE_ALGORITHMS.map(() => probe)).length, TEMPLATE_ALGORITHMS.length);
+        assert.throws(() => parseProbes([...TEMPLATE_ALGORITHMS.map(() => probe), probe]), badRequest);
+        assert.throws(() => parseProbes([]), badRequest);
+    });
+});
@@ -0,0 +1,103 @@
+// --- REQUEST PARSING ---
+//
+// Validators for untrusted request-body fields. Each returns the cleaned value or throws a 400
+// `HttpError` with a user-facing message (a 403 for a capture that is not of a live eye).
+
+import { TEMPLATE_ALGORITHMS, deserializeTemplate } from '../irisTemplate.ts';
+import type { IrisTemplate } from '../irisTemplate.ts';
+import { EYE_SIDES } from '../dualEye.ts';
+import type { EyeSide } from '../dualEye.ts';
+import { type CurrencyCode, isSupportedCurrency } from '../currencies.ts';
+import { livenessProblem } from '../liveness.ts';
+import type { LivenessChecks, LivenessVerdict } from '../liveness.ts';
+import { type Money, compare, fromMajor, isMoney, money } from '../money.ts';
+import { HttpError } from './httpError.ts';
+
+export const requireText = (value: unknown, message: string, minLength = 1): string => {
+    if (typeof value !== 'string' || value.trim().length < minLength) throw new HttpError(400, message);
+    return value.trim();
+};
+
+/** The ISO 4217 code of a supported currency, upper-cased. */
+export const requireCurrency = (value: unknown): CurrencyCode => {
+    const code = typeof value === 'string' ? value.toUpperCase() : '';
+    if (!isSupportedCurrency(code)) throw new HttpError(400, 'Please choose a supported currency.');
+    return code;
+};
+
+/**
+ * Upper bound of a single payment, top-up or request, in major units of each currency: roughly
+ * the same value in all of them, so the yen's is larger.
+ */
+const MAX_AMOUNTS: Record<CurrencyCode, number> = {
+    USD: 1_000_000,
+    EUR: 1_000_000,
+    GBP: 800_000,
+    CHF: 900_000,
+    JPY: 150_000_000,
+};
+
+/** A positive `Money` in a supported currency, of at most its currency's `MAX_AMOUNTS`. */
+export const requireMoney = (value: unknown): Money => {
+    if (!isMoney(value)) throw new HttpError(400, 'Please enter a valid amount.');
+    const currency = requireCurrency(value.currency);
+    const amount = money(value.units, currency);
+    if (amount.units <= 0 || compare(amount, fromMajor(MAX_AMOUNTS[currency], currency)) > 0) throw new HttpError(400, 'Please enter a valid amount.');
+    return amount;
+};
+
+/** A client-chosen idempotency key: 8 to 128 letters, digits, `-` or `_`, e.g. a UUID. */
+export const requireIdempotencyKey = (value: unknown): string => {
+    if (typeof value !== 'string' || !/^[\w-]{8,128}$/.test(value)) throw new HttpError(400, 'A payment attempt needs an idempotency key.');
+    return value;
+};
+
+export const isEyeSide = (value: unknown): value is EyeSide => EYE_SIDES.includes(value as EyeSide);
+
+/** A serialized iris template of a registered algorithm version, with that version's bin counts. */
+export const parseTemplate = (value: unknown): IrisTemplate => {
+    if (typeof value !== 'string') throw new HttpError(400, 'Malformed iris template.');
+    try {
+        return deserializeTemplate(value);
+    } catch {
+        throw new HttpError(400, 'Malformed iris template.');
+    }
+};
+
+/** A capture's probes: at least one, and at most one per template algorithm version. */
+export const parseProbes = (value: unknown): IrisTemplate[] => {
+    if (!Array.isArray(value) || value.length === 0) throw new HttpError(400, 'No iris capture supplied.');
+    if (value.length > TEMPLATE_ALGORITHMS.length) throw new HttpError(400, 'Too many iris probes supplied.');
+    return value.map(parseTemplate);
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isLivenessVerdict = (value: unknown): value is LivenessVerdict => {
+    const verdict = value as Partial<LivenessVerdict> | null;
+    if (typeof verdict?.live !== 'boolean' || typeof verdict.simulated !== 'boolean') return false;
+    if (verdict.checks === null) return true;
+    const { challenge, microMotion, texture } = (verdict.checks ?? {}) as Partial<LivenessChecks>;
+    return (challenge?.type === 'blink' || challenge?.type === 'light-reflex') && typeof challenge.passed === 'boolean' && isFiniteNumber(challenge.measurement)
+        && typeof microMotion?.passed === 'boolean' && isFiniteNumber(microMotion.measurement)
+        && typeof texture?.passed === 'boolean' && typeof texture.cornealReflection === 'boolean' && isFiniteNumber(texture.highFrequencyRatio);
+};
+
+/**
+ * The liveness verdict the app sent with a capture: a 400 when there is none, a 403 when its
+ * measurements do not show a live eye (`livenessProblem`).
+ */
+export const requireLiveness = (value: unknown): void => {
+    if (!isLivenessVerdict(value)) throw new HttpError(400, 'This app is out of date. Please reload it and scan again.');
+    const problem = livenessProblem(value);
+    if (problem) throw new HttpError(403, problem);
+};
+
+/** A live capture of one named eye, `{ probes, eye, liveness }` as in `VerifyRequest`. */
+export const parseEyeCapture = (value: unknown): { probes: IrisTemplate[]; eye: EyeSide } => {
+    const { probes, eye, liveness } = (value ?? {}) as { probes?: unknown; eye?: unknown; liveness?: unknown };
+    const parsed = parseProbes(probes);
+    if (!isEyeSide(eye)) throw new HttpError(400, 'Say which eye was captured.');
+    requireLiveness(liveness);
+    return { probes: parsed, eye };
+};
@@ -0,0 +1,99 @@
+// --- AUTH ROUTES (/api/auth) ---
+//
+//   POST /register           profile plus fused enrollment templates -> AuthResponse
+//   POST /login              iris capture, matched 1:N on the server -> AuthResponse
+//   GET  /me                 the signed-in account
+//   POST /verify             one-eye check of the signed-in account, e.g. before a payment
+//   POST /iris-key/revoke    re-issue the account's templates under a new transform key
+//   GET  /template-versions  accounts still on each template algorithm version (signed-in accounts)
+//
+// Trust boundary: the server matches every iris capture itself, but captures and their liveness
+// verdicts are produced by the app on the person's device. The server re-judges each verdict
+// from its measurements and refuses missing or simulated ones (`requireLiveness`), which stops
+// a replayed bare template or a skipped check, not a client rebuilt to fake its measurements.
+// The lockout after failed scans is enforced here too (irisAttempts.ts): per account for
+// /verify, per client address for /login.
+
+import { Router } from 'express';
+import { CURRENT_TEMPLATE_ALGORITHM } from '../../irisTemplate.ts';
+import type { IrisTemplate } from '../../irisTemplate.ts';
+import { EYE_SIDES, isOccluded } from '../../dualEye.ts';
+import type { EyeSide } from '../../dualEye.ts';
+import type { AuthResponse, LoginRequest, MeResponse, RegisterRequest, TemplateVersionReportResponse, VerifyResponse } from '../../apiTypes.ts';
+import { createAccount, findAccountByEmail, identifyAccount, isIrisEnrolled, compareWithEnrolledEye, revokeIrisKey, templateVersionCounts, toPublicUser } from '../accountStore.ts';
+import { authenticatedAccount, issueToken, requireAuth } from '../authToken.ts';
+import { HttpError } from '../httpError.ts';
+import { accountAttempts, addressAttempts, assertIrisAttemptsLeft, recordIrisAttempt } from '../irisAttempts.ts';
+import { isEyeSide, parseEyeCapture, parseProbes, parseTemplate, requireCurrency, requireLiveness, requireText } from '../requestParsing.ts';
+
+const router = Router();
+
+router.post('/register', async (req, res) => {
+    const body: Partial<RegisterRequest> = req.body ?? {};
+    const name = requireText(body.name, 'Please enter your full name.', 3);
+    const email = requireText(body.email, 'Please enter a valid email address.');
+    if (!email.includes('@')) throw new HttpError(400, 'Please enter a valid email address.');
+    if (body.userType !== 'client' && body.userType !== 'merchant') throw new HttpError(400, 'Please choose a client or merchant account.');
+    const merchantName = body.userType === 'merchant' ? requireText(body.merchantName, 'Please enter your business name.', 3) : undefined;
+    const currency = body.currency === undefined ? undefined : requireCurrency(body.currency);
+
+    const templates: Partial<Record<EyeSide, IrisTemplate>> = {};
+    for (const side of EYE_SIDES) {
+        const stored = body.irisTemplates?.[side];
+        if (stored !== undefined) templates[side] = parseTemplate(stored);
+    }
+    const enrolled = Object.values(templates);
+    if (enrolled.length === 0) throw new HttpError(400, 'No iris enrollment supplied.');
+    if (enrolled.some(t => t.version !== CURRENT_TEMPLATE_ALGORITHM.version)) {
+        throw new HttpError(400, 'This app is out of date. Please reload it and enroll again.');
+    }
+
+    if (await findAccountByEmail(email)) throw new HttpError(409, 'An account with this email already exists. Please login.');
+    for (const template of enrolled) {
+        if (await isIrisEnrolled(template)) throw new HttpError(409, 'Iris key already registered. Please login.');
+    }
+
+    const account = await createAccount({ name, email, userType: body.userType, ...(merchantName && { merchantName }) }, templates, currency);
+    res.status(201).json({ token: issueToken(account), user: toPublicUser(account) } satisfies AuthResponse);
+});
+
+router.post('/login', async (req, res) => {
+    const body: Partial<LoginRequest> = req.body ?? {};
+    const probes = parseProbes(body.probes);
+    const eye = isEyeSide(body.eye) ? body.eye : null;
+    requireLiveness(body.liveness);
+    const attempts = addressAttempts(req.ip);
+    assertIrisAttemptsLeft(attempts);
+    const account = await identifyAccount(probes, eye);
+    recordIrisAttempt(attempts, account !== null);
+    if (!account) throw new HttpError(401, 'No matching biometric key found. Please register or try again.');
+    res.json({ token: issueToken(account), user: toPublicUser(account) } satisfies AuthResponse);
+});
+
+router.get('/me', requireAuth, (_req, res) => {
+    res.json({ user: toPublicUser(authenticatedAccount(res)) } satisfies MeResponse);
+});
+
+router.post('/verify', requireAuth, async (req, res) => {
+    const account = authenticatedAccount(res);
+    const { probes, eye } = parseEyeCapture(req.body);
+    const attempts = accountAttempts(account);
+    assertIrisAttemptsLeft(attempts);
+    const comparison = await compareWithEnrolledEye(account, probes, eye);
+    if (!comparison) throw new HttpError(409, 'Your iris key has been revoked or your enrollment has expired. Please log in again.');
+    // An occluded eye says nothing about who presented it; the app asks for the other one.
+    if (!isOccluded(comparison.result)) recordIrisAttempt(attempts, comparison.result.accepted);
+    res.json({ comparison } satisfies VerifyResponse);
+});
+
+router.post('/iris-key/revoke', requireAuth, async (_req, res) => {
+    const account = await revokeIrisKey(authenticatedAccount(res));
+    if (!account) throw new HttpError(409, 'Iris key has already been revoked. Please re-enroll.');
+    res.json({ user: toPublicUser(account) } satisfies MeResponse);
+});
+
+router.get('/template-versions', requireAuth, async (_req, res) => {
+    res.json({ versions: await templateVersionCounts() } satisfies TemplateVersionReportResponse);
+});
+
+export default router;
@@ -0,0 +1,16 @@
+// --- MERCHANT DIRECTORY (/api/merchants) ---
+//
+//   GET /   merchants a client can pay, without any account details beyond their names
+
+import { Router } from 'express';
+import type { MerchantDirectoryResponse } from '../../apiTypes.ts';
+import { listMerchants } from '../accountStore.ts';
+
+const router = Router();
+
+router.get('/', async (_req, res) => {
+    const merchants = (await listMerchants()).map(({ id, name, userType, merchantName }) => ({ id, name, userType, merchantName }));
+    res.json({ merchants } satisfies MerchantDirectoryResponse);
+});
+
+export default router;
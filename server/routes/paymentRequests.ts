@@ -0,0 +1,142 @@
+// --- PAYMENT REQUEST ROUTES (/api/payment-requests) ---
+//
+//   GET  /              the signed-in merchant's payment requests, newest first
+//   POST /              create a payment request (merchants), in the currency of their wallet
+//   POST /verify        check a scanned payment code and open its request (clients), before any iris scan
+//   GET  /:id           a request by id: the merchant's own, or for a client, given its scanned code (?code=)
+//   POST /:id/pay       pay it in full with its scanned code and captures of the client's iris (clients). The code
+//                       is checked first; the iris then under the verification policy for the amount: both eyes
+//                       for a high-value payment.
+//                       Each capture carries the app's liveness verdict, and failed scans count towards the
+//                       account's lockout (irisAttempts.ts).
+//                       Repeating an attempt's idempotency key returns the original payment.
+//                       Paying from a balance in another currency needs the quoted conversion rate the client accepted.
+//   POST /:id/decline   turn it down with its scanned code (clients)
+//   POST /:id/cancel    withdraw it (the merchant who created it)
+
+import { Router } from 'express';
+import type { DeclinePaymentRequest, NewPaymentRequest, PayPaymentRequest, PaymentRequest, PaymentRequestListResponse, PaymentRequestResponse, PaymentResponse, VerifiedPaymentCodeResponse, VerifyPaymentCodeRequest } from '../../apiTypes.ts';
+import { policyForAmount } from '../../dualEye.ts';
+import { verifyEnrolledEyes } from '../accountStore.ts';
+import { authenticatedAccount, requireAuth } from '../authToken.ts';
+import { HttpError } from '../httpError.ts';
+import { accountAttempts, assertIrisAttemptsLeft, recordIrisAttempt } from '../irisAttempts.ts';
+import { PaymentCodeError } from '../../paymentCode.ts';
+import { PaymentError, replayedPayment, walletCurrency } from '../payments.ts';
+import { cancelPaymentRequest, checkPaymentCodeOf, createPaymentRequest, declinePaymentRequest, findPaymentRequest, listPaymentRequests, payPaymentRequest, verifyPaymentCode } from '../paymentRequests.ts';
+import { parseEyeCapture, requireCurrency, requireIdempotencyKey, requireMoney, requireText } from '../requestParsing.ts';
+import type { UserRecord } from '../repositories/types.ts';
+
+const requireUserType = (account: UserRecord, userType: UserRecord['userType']): void => {
+    if (account.userType !== userType) {
+        throw new HttpError(403, userType === 'merchant' ? 'Only merchant accounts can manage payment requests.' : 'Only client accounts can pay payment requests.');
+    }
+};
+
+const loadRequest = async (id: string): Promise<PaymentRequest> => {
+    const request = await findPaymentRequest(id);
+    if (!request) throw new HttpError(404, 'Unknown payment request. Please scan the QR code again.');
+    return request;
+};
+
+/**
+ * Runs a lifecycle step; a rejected payment code is a 400, and a request that is no longer
+ * pending, or a failed payment, a 409.
+ */
+const asHttpErrors = async <T,>(step: () => Promise<T>): Promise<T> => {
+    try {
+        return await step();
+    } catch (e) {
+        if (e instanceof PaymentCodeError) throw new HttpError(400, e.message);
+        if (e instanceof PaymentError) throw new HttpError(409, e.message);
+        throw e;
+    }
+};
+
+const router = Router();
+router.use(requireAuth);
+
+router.get('/', async (_req, res) => {
+    const merchant = authenticatedAccount(res);
+    requireUserType(merchant, 'merchant');
+    res.json({ requests: await listPaymentRequests(merchant) } satisfies PaymentRequestListResponse);
+});
+
+router.post('/', async (req, res) => {
+    const merchant = authenticatedAccount(res);
+    requireUserType(merchant, 'merchant');
+    const body: Partial<NewPaymentRequest> = req.body ?? {};
+    const amount = requireMoney(body.amount);
+    const currency = await walletCurrency(merchant);
+    if (amount.currency !== currency) throw new HttpError(400, `Payment requests are priced in your wallet's currency, ${currency}.`);
+    res.status(201).json({ request: await createPaymentRequest(merchant, amount) } satisfies PaymentRequestResponse);
+});
+
+router.post('/verify', async (req, res) => {
+    const client = authenticatedAccount(res);
+    requireUserType(client, 'client');
+    const body: Partial<VerifyPaymentCodeRequest> = req.body ?? {};
+    const code = requireText(body.code, 'Please scan the payment code.');
+    res.json(await asHttpErrors(() => verifyPaymentCode(client, code)) satisfies VerifiedPaymentCodeResponse);
+});
+
+router.get('/:id', async (req, res) => {
+    const account = authenticatedAccount(res);
+    const request = await loadRequest(req.params.id);
+    if (account.userType === 'merchant') {
+        if (request.merchantId !== account.id) throw new HttpError(403, 'This payment request belongs to another merchant.');
+        res.json({ request } satisfies PaymentRequestResponse);
+        return;
+    }
+    // A client sees a request only with its code, as when opening it by scanning.
+    const code = requireText(req.query.code, 'Please scan the payment code.');
+    res.json({ request: await asHttpErrors(() => checkPaymentCodeOf(account, request, code)) } satisfies PaymentRequestResponse);
+});
+
+router.post('/:id/pay', async (req, res) => {
+    const client = authenticatedAccount(res);
+    requireUserType(client, 'client');
+    const body: Partial<PayPaymentRequest> = req.body ?? {};
+    const code = requireText(body.code, 'Please scan the payment code.');
+    const idempotencyKey = requireIdempotencyKey(body.idempotencyKey);
+    const capture = parseEyeCapture(body);
+    const captures = body.otherEye === undefined ? [capture] : [parseEyeCapture(body.otherEye), capture];
+    const payFrom = body.payFrom === undefined ? undefined : requireCurrency(body.payFrom);
+    if (body.quotedRate !== undefined && !(typeof body.quotedRate === 'number' && body.quotedRate > 0)) throw new HttpError(400, 'Malformed exchange rate.');
+    const request = await loadRequest(req.params.id);
+
+    // The code is checked before the iris, so a forged or altered one costs the client no iris
+    // attempt. A retry of a payment already made skips it, as the code may have expired since.
+    const retried = await asHttpErrors(() => replayedPayment(client, request.id, idempotencyKey));
+    const scanned = retried?.request ?? await asHttpErrors(() => checkPaymentCodeOf(client, request, code));
+
+    // The client's iris is checked here rather than trusted from the app, before any money moves,
+    // under the same policy the app follows.
+    const attempts = accountAttempts(client);
+    assertIrisAttemptsLeft(attempts);
+    const step = await verifyEnrolledEyes(client, captures, policyForAmount(request.amount));
+    if (!step) throw new HttpError(409, 'Your iris key has been revoked or your enrollment has expired. Please log in again.');
+    if (step.status === 'next-eye') throw new HttpError(403, 'This payment needs a scan of both eyes. Please scan them again.');
+    recordIrisAttempt(attempts, step.status === 'accepted');
+    if (step.status === 'rejected') throw new HttpError(403, `${step.reason} The payment was not made.`);
+    res.json(await asHttpErrors(() => payPaymentRequest(client, scanned, idempotencyKey, { payFrom, quotedRate: body.quotedRate })) satisfies PaymentResponse);
+});
+
+router.post('/:id/decline', async (req, res) => {
+    const client = authenticatedAccount(res);
+    requireUserType(client, 'client');
+    const body: Partial<DeclinePaymentRequest> = req.body ?? {};
+    const code = requireText(body.code, 'Please scan the payment code.');
+    const request = await loadRequest(req.params.id);
+    res.json({ request: await asHttpErrors(() => declinePaymentRequest(client, request, code)) } satisfies PaymentRequestResponse);
+});
+
+router.post('/:id/cancel', async (req, res) => {
+    const merchant = authenticatedAccount(res);
+    requireUserType(merchant, 'merchant');
+    const request = await loadRequest(req.params.id);
+    if (request.merchantId !== merchant.id) throw new HttpError(403, 'This payment request belongs to another merchant.');
+    res.json({ request: await asHttpErrors(() => cancelPaymentRequest(request)) } satisfies PaymentRequestResponse);
+});
+
+export default router;
@@ -0,0 +1,62 @@
+// --- WALLET ROUTES (/api/wallet) ---
+//
+//   GET  /               the signed-in account's wallet
+//   POST /fund           top up one of the wallet's currencies from the linked bank
+//   GET  /transactions              the signed-in account's transactions, newest first
+//   POST /transactions/:id/refund   refund some or all of a sale (merchants), confirmed by a live capture of their
+//                                   iris; failed scans count towards the account's lockout (irisAttempts.ts)
+//
+// Clients pay merchants through payment requests (/api/payment-requests).
+
+import { Router } from 'express';
+import type { FundWalletRequest, RefundRequest, RefundResponse, TransactionListResponse, WalletResponse } from '../../apiTypes.ts';
+import { compareWithEnrolledEye } from '../accountStore.ts';
+import { authenticatedAccount, requireAuth } from '../authToken.ts';
+import { HttpError } from '../httpError.ts';
+import { accountAttempts, assertIrisAttemptsLeft, recordIrisAttempt } from '../irisAttempts.ts';
+import { PaymentError, findWallet, fundWallet, listTransactions, refundPayment } from '../payments.ts';
+import { StaleRecordError } from '../repositories/types.ts';
+import { parseEyeCapture, requireMoney } from '../requestParsing.ts';
+
+const router = Router();
+router.use(requireAuth);
+
+router.get('/', async (_req, res) => {
+    res.json({ wallet: await findWallet(authenticatedAccount(res)) } satisfies WalletResponse);
+});
+
+router.post('/fund', async (req, res) => {
+    const account = authenticatedAccount(res);
+    const body: Partial<FundWalletRequest> = req.body ?? {};
+    res.json({ wallet: await fundWallet(account, requireMoney(body.amount)) } satisfies WalletResponse);
+});
+
+router.get('/transactions', async (_req, res) => {
+    res.json({ transactions: await listTransactions(authenticatedAccount(res)) } satisfies TransactionListResponse);
+});
+
+router.post('/transactions/:id/refund', async (req, res) => {
+    const merchant = authenticatedAccount(res);
+    if (merchant.userType !== 'merchant') throw new HttpError(403, 'Only merchant accounts can refund sales.');
+    const body: Partial<RefundRequest> = req.body ?? {};
+    const amount = requireMoney(body.amount);
+    const { probes, eye } = parseEyeCapture(body);
+
+    // The merchant confirms every refund with their own iris, checked here rather than trusted from the app.
+    const attempts = accountAttempts(merchant);
+    assertIrisAttemptsLeft(attempts);
+    const comparison = await compareWithEnrolledEye(merchant, probes, eye);
+    if (!comparison) throw new HttpError(409, 'Your iris key has been revoked or your enrollment has expired. Please log in again.');
+    recordIrisAttempt(attempts, comparison.result.accepted);
+    if (!comparison.result.accepted) throw new HttpError(403, `Iris verification failed (distance ${comparison.result.distance.toFixed(2)}). The refund was not made.`);
+
+    try {
+        res.json(await refundPayment(merchant, req.params.id, amount) satisfies RefundResponse);
+    } catch (e) {
+        if (e instanceof PaymentError) throw new HttpError(409, e.message);
+        if (e instanceof StaleRecordError) throw new HttpError(409, 'This sale changed while it was being refunded. Please try again.');
+        throw e;
+    }
+});
+
+export default router;
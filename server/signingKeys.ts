@@ -0,0 +1,51 @@
+// --- MERCHANT SIGNING KEYS ---
+//
+// Every merchant holds an ECDSA P-256 key pair that signs its payment codes. The server keeps
+// the private half on the merchant's behalf, in its own repository, and creates it the first
+// time the merchant needs it, so accounts from before codes were signed get one too. The
+// public half is handed to scanners so they can check a code before paying it.
+
+import { createPrivateKey, generateKeyPairSync, sign } from 'node:crypto';
+import type { MerchantProfile } from '../apiTypes.ts';
+import { DuplicateRecordError } from './repositories/types.ts';
+import type { SigningKeyRecord, UserRecord } from './repositories/types.ts';
+import { storage } from './storage.ts';
+
+const generateSigningKey = (merchantId: string): SigningKeyRecord => {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    return {
+        id: merchantId,
+        publicKey: publicKey.export({ type: 'spki', format: 'der' }).toString('base64url'),
+        privateKey: privateKey.export({ type: 'pkcs8', format: 'der' }).toString('base64url'),
+        createdAt: new Date().toISOString(),
+    };
+};
+
+/** The merchant's key pair, created on first use. */
+const signingKeyFor = async (merchantId: string): Promise<SigningKeyRecord> => {
+    const { signingKeys } = storage();
+    const existing = await signingKeys.findById(merchantId);
+    if (existing) return existing;
+    try {
+        return await signingKeys.insert(generateSigningKey(merchantId));
+    } catch (e) {
+        // Another request created it first; use that one.
+        if (!(e instanceof DuplicateRecordError)) throw e;
+        const created = await signingKeys.findById(merchantId);
+        if (!created) throw e;
+        return created;
+    }
+};
+
+/** Signs `message` with the merchant's key: ECDSA with SHA-256, raw r||s, base64url. */
+export const signForMerchant = async (merchantId: string, message: string): Promise<string> => {
+    const key = createPrivateKey({ key: Buffer.from((await signingKeyFor(merchantId)).privateKey, 'base64url'), format: 'der', type: 'pkcs8' });
+    return sign('sha256', Buffer.from(message), { key, dsaEncoding: 'ieee-p1363' }).toString('base64url');
+};
+
+/** What a client needs to check the merchant's payment codes. */
+export const merchantProfile = async (merchant: UserRecord): Promise<MerchantProfile> => ({
+    id: merchant.id,
+    merchantName: merchant.merchantName || 'Merchant',
+    signingKey: (await signingKeyFor(merchant.id)).publicKey,
+});
@@ -0,0 +1,38 @@
+// --- STORAGE ---
+//
+// Opens the repositories once at startup and hands them to the rest of the server. With
+// `MONGODB_URI` set the data lives in MongoDB; otherwise in the embedded store, written to
+// `DATA_FILE` (default `data/irispay.json`), or kept only in memory with `DATA_FILE=:memory:`.
+
+import { openEmbeddedRepositories } from './repositories/embeddedRepositories.ts';
+import { openMongooseRepositories } from './repositories/mongooseRepositories.ts';
+import type { Repositories } from './repositories/types.ts';
+
+const DEFAULT_DATA_FILE = 'data/irispay.json';
+const IN_MEMORY = ':memory:';
+
+let opened: Repositories | null = null;
+
+/** Opens the repositories the environment asks for and returns a description for the startup log. */
+export const openStorage = async (): Promise<string> => {
+    if (opened) throw new Error('Storage is already open.');
+    const mongoUri = process.env.MONGODB_URI;
+    if (mongoUri) {
+        opened = await openMongooseRepositories(mongoUri);
+        return 'MongoDB';
+    }
+    const file = process.env.DATA_FILE || DEFAULT_DATA_FILE;
+    opened = await openEmbeddedRepositories(file === IN_MEMORY ? null : file);
+    return file === IN_MEMORY ? 'memory' : file;
+};
+
+/** The open repositories. */
+export const storage = (): Repositories => {
+    if (!opened) throw new Error('Storage is not open.');
+    return opened;
+};
+
+export const closeStorage = async (): Promise<void> => {
+    await opened?.close();
+    opened = null;
+};
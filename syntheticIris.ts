@@ -0,0 +1,251 @@
+// --- SYNTHETIC EYE GENERATOR ---
+//
+// Renders close-up eye images whose iris texture is fixed by an identity seed, under
+// controllable capture conditions (pupil dilation, eye roll, eyelid occlusion, blur, sensor
+// noise). The same seed always yields the same iris, so captures of one synthetic eye match
+// each other and not other seeds. Used as a frame source when no camera is available, for the
+// demo accounts, and to build labeled datasets for the offline evaluation tool.
+//
+// The texture is defined in rubber-sheet coordinates (angle, and radius between pupil and
+// limbus), so dilating the pupil or rolling the eye moves the pattern the way it moves on a
+// real iris, and normalization undoes it.
+
+import { boxBlur } from './irisTemplate.ts';
+import type { GrayImage, RgbaPixels } from './irisTemplate.ts';
+import type { EyeSide } from './dualEye.ts';
+
+/** Capture conditions for one rendered frame. */
+export interface SyntheticEyeState {
+    /** Pupil radius as a fraction of the iris radius. */
+    dilation: number;
+    /** Eye roll in degrees, clockwise. */
+    rotation: number;
+    /** Eyelid occlusion: 0 = fully open, 1 = lids closed. */
+    occlusion: number;
+    /** Offset of the eye centre from the frame centre, in pixels. */
+    offsetX: number;
+    offsetY: number;
+    /** Approximate Gaussian blur sigma in pixels (0 = sharp). */
+    blur: number;
+    /** Standard deviation of additive sensor noise, in grey levels (0 = clean). */
+    noise: number;
+    /** Seed for the noise pattern, so a noisy frame can be reproduced exactly. */
+    noiseSeed: string;
+}
+
+export const DEFAULT_EYE_STATE: SyntheticEyeState = {
+    dilation: 0.4,
+    rotation: 0,
+    occlusion: 0,
+    offsetX: 0,
+    offsetY: 0,
+    blur: 0,
+    noise: 0,
+    noiseSeed: '',
+};
+
+/** Default frame size: a webcam-like 4:3 close-up whose iris comfortably passes the quality gate. */
+export const SYNTHETIC_FRAME_WIDTH = 320;
+export const SYNTHETIC_FRAME_HEIGHT = 240;
+
+/** A crypt or furrow: a blob in rubber-sheet coordinates that is darker or lighter than its surroundings. */
+interface TextureFeature {
+    theta: number;
+    rho: number;
+    /** Angular and radial extent (Gaussian sigma), in radians and in rubber-sheet units. */
+    angularWidth: number;
+    radialWidth: number;
+    amplitude: number;
+}
+
+/** A radial fibre: a sinusoid running across the iris at one angular frequency. */
+interface TextureFibre {
+    amplitude: number;
+    angularFrequency: number;
+    radialFrequency: number;
+    phase: number;
+}
+
+/** The seed-derived part of an eye: everything that identifies it. */
+export interface SyntheticIris {
+    seed: string;
+    baseTone: number;
+    features: TextureFeature[];
+    fibres: TextureFibre[];
+}
+
+const TEXTURE_FEATURES = 260;
+const TEXTURE_FIBRES = 12;
+// Keep the iris clearly brighter than the pupil so no crypt can pass for it.
+const MIN_IRIS_TONE = 55;
+
+/** Small seeded PRNG (FNV-1a hash of the seed feeding xorshift32), returning values in [0, 1). */
+export const seededRandom = (seed: string): (() => number) => {
+    let state = 2166136261;
+    for (let i = 0; i < seed.length; i++) state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+    if (state === 0) state = 1;
+    return () => {
+        state ^= state << 13;
+        state ^= state >>> 17;
+        state ^= state << 5;
+        return (state >>> 0) / 4294967296;
+    };
+};
+
+/** Identity seed of one eye of the synthetic person `seed`; the two eyes differ, like real ones. */
+export const syntheticEyeSeed = (seed: string, eye: EyeSide): string => `${seed}|${eye}`;
+
+/** Derives the iris texture for an identity seed. */
+export const createSyntheticIris = (seed: string): SyntheticIris => {
+    const random = seededRandom(seed);
+    const features: TextureFeature[] = [];
+    for (let i = 0; i < TEXTURE_FEATURES; i++) {
+        features.push({
+            theta: random() * Math.PI * 2,
+            rho: random(),
+            angularWidth: 0.03 + random() * 0.08,
+            radialWidth: 0.04 + random() * 0.14,
+            amplitude: (random() < 0.6 ? -1 : 1) * (12 + random() * 26),
+        });
+    }
+    const fibres: TextureFibre[] = [];
+    for (let i = 0; i < TEXTURE_FIBRES; i++) {
+        fibres.push({
+            amplitude: 0.5 + random() * 1.5,
+            angularFrequency: 10 + Math.floor(random() * 40),
+            radialFrequency: random() * 4 - 2,
+            phase: random() * Math.PI * 2,
+        });
+    }
+    return { seed, baseTone: 95 + random() * 50, features, fibres };
+};
+
+/** Iris brightness at rubber-sheet position (`theta` in radians, `rho` 0 at the pupil to 1 at the limbus). */
+const irisTone = (iris: SyntheticIris, theta: number, rho: number): number => {
+    let v = iris.baseTone;
+    for (const f of iris.features) {
+        let dt = Math.abs(theta - f.theta) % (Math.PI * 2);
+        if (dt > Math.PI) dt = Math.PI * 2 - dt;
+        if (dt > f.angularWidth * 3) continue;
+        const dr = rho - f.rho;
+        v += f.amplitude * Math.exp(-(dt * dt) / (2 * f.angularWidth * f.angularWidth) - (dr * dr) / (2 * f.radialWidth * f.radialWidth));
+    }
+    for (const c of iris.fibres) {
+        v += c.amplitude * Math.cos(c.angularFrequency * theta + c.radialFrequency * rho * Math.PI + c.phase);
+    }
+    // Darker collarette near the pupil and a limbal ring at the edge.
+    v -= 15 * Math.exp(-rho * 6) + 25 * Math.max(0, rho - 0.85) / 0.15;
+    return Math.max(MIN_IRIS_TONE, v);
+};
+
+const SKIN = 165;
+const SCLERA = 215;
+const PUPIL = 18;
+const REFLECTION = 255;
+
+/** Three box passes approximate a Gaussian; each pass of radius r adds variance r(r+1)/3. */
+const gaussianApproximation = (image: GrayImage, sigma: number): GrayImage => {
+    const radius = Math.round(Math.sqrt(sigma * sigma + 0.25) - 0.5);
+    if (radius < 1) return image;
+    return boxBlur(boxBlur(boxBlur(image, radius), radius), radius);
+};
+
+/**
+ * Renders one frame of `iris` under `conditions` at `width`x`height`. The open iris spans 60%
+ * of the shorter side. Missing conditions fall back to `DEFAULT_EYE_STATE`.
+ */
+export const renderSyntheticEye = (
+    iris: SyntheticIris,
+    conditions: Partial<SyntheticEyeState> = {},
+    width = SYNTHETIC_FRAME_WIDTH,
+    height = SYNTHETIC_FRAME_HEIGHT,
+): RgbaPixels => {
+    const state = { ...DEFAULT_EYE_STATE, ...conditions };
+    const gray = new Float32Array(width * height);
+    const cx = width / 2 + state.offsetX;
+    const cy = height / 2 + state.offsetY;
+    const irisR = Math.min(width, height) * 0.3;
+    const pupilR = irisR * state.dilation;
+    const eyeHalfWidth = irisR * 2.1;
+    // Lid opening at the centre line; closes towards 0 as `occlusion` goes to 1.
+    const opening = irisR * 1.15 * (1 - state.occlusion);
+    const roll = (state.rotation * Math.PI) / 180;
+    // The corneal reflection stays put relative to the camera while the eye rolls.
+    const glintX = cx - pupilR * 0.6;
+    const glintY = cy - pupilR * 0.6;
+    const glintR = Math.max(2, irisR * 0.04);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const dx = x - cx;
+            const dy = y - cy;
+            const across = dx / eyeHalfWidth;
+            const lid = Math.abs(across) < 1 ? opening * (1 - across * across) : 0;
+            let v: number;
+            if (Math.abs(dy) > lid) {
+                v = SKIN - 10 * Math.min(1, (Math.abs(dy) - lid) / 6);
+            } else {
+                const d = Math.hypot(dx, dy);
+                if (d >= irisR) v = SCLERA;
+                else if (d <= pupilR) v = PUPIL;
+                else v = irisTone(iris, Math.atan2(dy, dx) - roll, (d - pupilR) / (irisR - pupilR));
+                if (Math.hypot(x - glintX, y - glintY) <= glintR) v = REFLECTION;
+            }
+            gray[y * width + x] = v;
+        }
+    }
+
+    let image: GrayImage = { width, height, data: gray };
+    if (state.blur > 0) image = gaussianApproximation(image, state.blur);
+
+    const random = seededRandom(`${iris.seed}|noise|${state.noiseSeed}`);
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < image.data.length; i++) {
+        let v = image.data[i];
+        if (state.noise > 0) {
+            // Box-Muller transform for a normally distributed sample.
+            v += state.noise * Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+        }
+        data[i * 4] = v;
+        data[i * 4 + 1] = v;
+        data[i * 4 + 2] = v;
+        data[i * 4 + 3] = 255;
+    }
+    return { width, height, data };
+};
+
+/** Ranges `randomConditions` draws from. */
+export interface ConditionRanges {
+    dilation: [number, number];
+    rotation: [number, number];
+    occlusion: [number, number];
+    offset: [number, number];
+    blur: [number, number];
+    noise: [number, number];
+}
+
+/** Capture variation typical of a cooperative user in front of a webcam. */
+export const DEFAULT_CONDITION_RANGES: ConditionRanges = {
+    dilation: [0.3, 0.55],
+    rotation: [-6, 6],
+    occlusion: [0, 0.3],
+    offset: [-10, 10],
+    blur: [0, 1.2],
+    noise: [0, 6],
+};
+
+/** Draws a reproducible set of capture conditions for `sampleSeed`. */
+export const randomConditions = (sampleSeed: string, ranges: ConditionRanges = DEFAULT_CONDITION_RANGES): SyntheticEyeState => {
+    const random = seededRandom(sampleSeed);
+    const pick = ([lo, hi]: [number, number]) => lo + random() * (hi - lo);
+    return {
+        dilation: pick(ranges.dilation),
+        rotation: pick(ranges.rotation),
+        occlusion: pick(ranges.occlusion),
+        offsetX: pick(ranges.offset),
+        offsetY: pick(ranges.offset),
+        blur: pick(ranges.blur),
+        noise: pick(ranges.noise),
+        noiseSeed: sampleSeed,
+    };
+};
@@ -0,0 +1,81 @@
+// --- TEMPLATE VERSIONS AND MIGRATION ---
+//
+// Every stored reference records the algorithm version that produced it, and references of
+// different versions are never compared. When the extraction algorithm changes, accounts move
+// to the new version without being asked to enroll again: their next successful login is
+// verified against the stored reference with a probe of the old version, and the probe of the
+// current version from the same capture replaces it. `templateVersionReport` shows how far that
+// has got.
+
+import { CURRENT_TEMPLATE_ALGORITHM, templateAlgorithm } from './irisTemplate.ts';
+import type { IrisTemplate } from './irisTemplate.ts';
+import type { MatchOptions } from './irisMatcher.ts';
+import { matchProtectedTemplate, protectTemplate } from './templateProtection.ts';
+import type { ProtectedTemplate, ProtectionKey } from './templateProtection.ts';
+
+/** One line of `templateVersionReport`. */
+export interface TemplateVersionCount {
+    version: number;
+    /** Accounts whose oldest stored template has this version. */
+    accounts: number;
+    /** True for the version new enrollments are stored under. */
+    current: boolean;
+    /**
+     * True while the version can still be extracted, so its accounts migrate on their next login.
+     * Accounts on a retired version can no longer be verified and have to enroll again.
+     */
+    migratable: boolean;
+}
+
+/** True when a reference of `version` should be replaced by one of the current version. */
+export const needsMigration = (version: number): boolean => version !== CURRENT_TEMPLATE_ALGORITHM.version;
+
+/** The probe of `version` among a capture's probes, or null when that version was not encoded. */
+export const probeForVersion = (probes: IrisTemplate[], version: number): IrisTemplate | null =>
+    probes.find(p => p.version === version) ?? null;
+
+/**
+ * Re-enrollment on login: verifies `probes` against an out-of-date `reference` with the probe
+ * of the reference's own version and, when that is accepted, returns the current-version probe
+ * protected under the same key, to be stored in its place. Returns null when the reference is
+ * already current, cannot be verified with these probes, or does not match.
+ *
+ * The replacement comes from a single capture rather than a multi-sample enrollment session;
+ * the fused reference is rebuilt the next time the person enrolls.
+ */
+export const migrateProtectedTemplate = (
+    reference: ProtectedTemplate,
+    key: ProtectionKey,
+    probes: IrisTemplate[],
+    options: Partial<MatchOptions> = {},
+): ProtectedTemplate | null => {
+    if (!needsMigration(reference.version)) return null;
+    const oldProbe = probeForVersion(probes, reference.version);
+    const newProbe = probeForVersion(probes, CURRENT_TEMPLATE_ALGORITHM.version);
+    if (!oldProbe || !newProbe) return null;
+    if (!matchProtectedTemplate(oldProbe, reference, key, options).accepted) return null;
+    return protectTemplate(newProbe, key);
+};
+
+/**
+ * Number of accounts still on each template version, newest version first. `accounts` lists
+ * the stored templates of each account; an account counts towards the oldest version among
+ * them, since it has not finished migrating until every eye has. The current version is
+ * always listed, even with no accounts.
+ */
+export const templateVersionReport = (accounts: ProtectedTemplate[][]): TemplateVersionCount[] => {
+    const counts = new Map<number, number>([[CURRENT_TEMPLATE_ALGORITHM.version, 0]]);
+    for (const templates of accounts) {
+        if (templates.length === 0) continue;
+        const version = Math.min(...templates.map(t => t.version));
+        counts.set(version, (counts.get(version) ?? 0) + 1);
+    }
+    return [...counts]
+        .sort(([a], [b]) => b - a)
+        .map(([version, count]) => ({
+            version,
+            accounts: count,
+            current: version === CURRENT_TEMPLATE_ALGORITHM.version,
+            migratable: templateAlgorithm(version) !== null,
+        }));
+};
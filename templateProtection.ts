@@ -0,0 +1,196 @@
+// --- IRIS TEMPLATE PROTECTION (cancelable biometrics) ---
+//
+// Stored references are never raw IrisCodes. Each one is passed through a keyed, revocable
+// transform: the code and mask bits are shuffled by a key-derived permutation and the code is
+// XORed with a key-derived bit stream. Both operations preserve Hamming distance between two
+// templates protected with the same key, so matching keeps working on the protected form:
+// the fresh probe is rotated over the shift window in the clear, each rotation is protected
+// with the reference's key, and the protected bits are compared position by position.
+//
+// Keys live apart from the templates (see the protection-key repository on the server).
+// Revoking a key makes the old protected template useless, and `reissueProtectedTemplate`
+// re-keys it without a new scan.
+
+import CryptoJS from 'crypto-js';
+import { packBits, unpackBits } from './irisTemplate.ts';
+import type { IrisTemplate } from './irisTemplate.ts';
+import { DEFAULT_MATCH_OPTIONS, assertSameVersion, rotateTemplate } from './irisMatcher.ts';
+import type { MatchOptions, MatchResult } from './irisMatcher.ts';
+
+/** A transform key. `id` is stored with the template; `secret` stays in the key vault. */
+export interface ProtectionKey {
+    id: string;
+    secret: string;
+}
+
+/** An IrisCode after the keyed transform. Safe to store; useless without its key. */
+export interface ProtectedTemplate {
+    keyId: string;
+    /** Algorithm version of the protected code; the transform itself is version-independent. */
+    version: number;
+    radialBins: number;
+    angularBins: number;
+    code: Uint8Array;
+    mask: Uint8Array;
+}
+
+/** Thrown when a protected template is paired with the wrong key or cannot be parsed. */
+export class TemplateProtectionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateProtectionError';
+    }
+}
+
+interface KeyMaterial {
+    permutation: Uint32Array;
+    stream: Uint8Array;
+}
+
+// Deriving the permutation costs a few hundred HMACs, so it is cached per key and bit length.
+const keyMaterialCache = new Map<string, KeyMaterial>();
+
+/** HMAC-SHA256 in counter mode, yielding `count` pseudo-random 32-bit words for `purpose`. */
+const keyedWords = (key: ProtectionKey, purpose: string, count: number): Uint32Array => {
+    const words = new Uint32Array(count);
+    for (let block = 0; block * 8 < count; block++) {
+        const digest = CryptoJS.HmacSHA256(`${purpose}:${block}`, key.secret);
+        for (let i = 0; i < 8 && block * 8 + i < count; i++) words[block * 8 + i] = digest.words[i] >>> 0;
+    }
+    return words;
+};
+
+const keyMaterial = (key: ProtectionKey, bits: number): KeyMaterial => {
+    const cacheKey = `${key.id}:${bits}`;
+    const cached = keyMaterialCache.get(cacheKey);
+    if (cached) return cached;
+
+    // Keyed Fisher-Yates shuffle.
+    const permutation = new Uint32Array(bits);
+    for (let i = 0; i < bits; i++) permutation[i] = i;
+    const draws = keyedWords(key, 'permutation', bits);
+    for (let i = bits - 1; i > 0; i--) {
+        const j = draws[i] % (i + 1);
+        [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+    }
+
+    const streamWords = keyedWords(key, 'stream', Math.ceil(bits / 32));
+    const stream = new Uint8Array(bits);
+    for (let i = 0; i < bits; i++) stream[i] = (streamWords[i >> 5] >>> (i & 31)) & 1;
+
+    const material = { permutation, stream };
+    keyMaterialCache.set(cacheKey, material);
+    return material;
+};
+
+/** Creates a fresh random transform key. */
+export const issueProtectionKey = (): ProtectionKey => ({
+    id: `tpk-${CryptoJS.lib.WordArray.random(8).toString()}`,
+    secret: CryptoJS.lib.WordArray.random(32).toString(),
+});
+
+/** Applies the keyed transform to a raw template. */
+export const protectTemplate = (template: IrisTemplate, key: ProtectionKey): ProtectedTemplate => {
+    const bits = template.code.length;
+    const { permutation, stream } = keyMaterial(key, bits);
+    const code = new Uint8Array(bits);
+    const mask = new Uint8Array(bits);
+    for (let i = 0; i < bits; i++) {
+        const from = permutation[i];
+        code[i] = template.code[from] ^ stream[i];
+        mask[i] = template.mask[from];
+    }
+    return { keyId: key.id, version: template.version, radialBins: template.radialBins, angularBins: template.angularBins, code, mask };
+};
+
+/** Inverts the transform. Only used to re-key a template; the raw result is never stored. */
+const unprotectTemplate = (reference: ProtectedTemplate, key: ProtectionKey): IrisTemplate => {
+    const bits = reference.code.length;
+    const { permutation, stream } = keyMaterial(key, bits);
+    const code = new Uint8Array(bits);
+    const mask = new Uint8Array(bits);
+    for (let i = 0; i < bits; i++) {
+        code[permutation[i]] = reference.code[i] ^ stream[i];
+        mask[permutation[i]] = reference.mask[i];
+    }
+    return { version: reference.version, radialBins: reference.radialBins, angularBins: reference.angularBins, code, mask };
+};
+
+/** Re-issues a protected template under `newKey`, so `oldKey` can be revoked. */
+export const reissueProtectedTemplate = (reference: ProtectedTemplate, oldKey: ProtectionKey, newKey: ProtectionKey): ProtectedTemplate => {
+    if (reference.keyId !== oldKey.id) throw new TemplateProtectionError('Template was not issued under the supplied key.');
+    return protectTemplate(unprotectTemplate(reference, oldKey), newKey);
+};
+
+/**
+ * Compares a fresh raw probe against a protected reference. Same contract as
+ * `matchTemplates`, so the accept threshold and shift window carry over unchanged, and a probe
+ * of another algorithm version is refused with `TemplateVersionError`.
+ */
+export const matchProtectedTemplate = (
+    probe: IrisTemplate,
+    reference: ProtectedTemplate,
+    key: ProtectionKey,
+    options: Partial<MatchOptions> = {},
+): MatchResult => {
+    const { threshold, maxShift, minOverlapBits } = { ...DEFAULT_MATCH_OPTIONS, ...options };
+    if (reference.keyId !== key.id) throw new TemplateProtectionError('Template was not issued under the supplied key.');
+    assertSameVersion(probe, reference);
+    if (probe.radialBins !== reference.radialBins || probe.angularBins !== reference.angularBins) {
+        return { distance: 1, shift: 0, overlapBits: 0, accepted: false };
+    }
+
+    let best: MatchResult = { distance: 1, shift: 0, overlapBits: 0, accepted: false };
+    for (let shift = -maxShift; shift <= maxShift; shift++) {
+        const candidate = protectTemplate(rotateTemplate(probe, shift), key);
+        let differing = 0;
+        let overlap = 0;
+        for (let i = 0; i < candidate.code.length; i++) {
+            if (!candidate.mask[i] || !reference.mask[i]) continue;
+            overlap++;
+            if (candidate.code[i] !== reference.code[i]) differing++;
+        }
+        if (overlap < minOverlapBits) continue;
+        const distance = differing / overlap;
+        if (distance < best.distance) best = { distance, shift, overlapBits: overlap, accepted: false };
+    }
+    return { ...best, accepted: best.overlapBits > 0 && best.distance <= threshold };
+};
+
+/**
+ * 1:N identification over protected references. `resolve` returns each candidate's protected
+ * template and key, or null to skip it (e.g. its key has been revoked). `probes` holds the
+ * capture encoded under one or more algorithm versions; each reference is compared with the
+ * probe of its own version and skipped when there is none.
+ */
+export const findBestProtectedMatch = <T>(
+    probes: IrisTemplate | IrisTemplate[],
+    candidates: T[],
+    resolve: (candidate: T) => { template: ProtectedTemplate; key: ProtectionKey } | null,
+    options: Partial<MatchOptions> = {},
+): { candidate: T; result: MatchResult } | null => {
+    let best: { candidate: T; result: MatchResult } | null = null;
+    for (const candidate of candidates) {
+        const reference = resolve(candidate);
+        const probe = reference && [probes].flat().find(p => p.version === reference.template.version);
+        if (!reference || !probe) continue;
+        const result = matchProtectedTemplate(probe, reference.template, reference.key, options);
+        if (result.accepted && (!best || result.distance < best.result.distance)) best = { candidate, result };
+    }
+    return best;
+};
+
+/** Storage form: `iris-protected:<keyId>:v<version>:<radial>x<angular>:<code>:<mask>`. */
+export const serializeProtectedTemplate = (t: ProtectedTemplate): string =>
+    `iris-protected:${t.keyId}:v${t.version}:${t.radialBins}x${t.angularBins}:${packBits(t.code)}:${packBits(t.mask)}`;
+
+/** Inverse of `serializeProtectedTemplate`. Strings without a `v<version>` part predate versioning and are version 1. */
+export const deserializeProtectedTemplate = (s: string): ProtectedTemplate => {
+    const match = /^iris-protected:([\w-]+):(?:v(\d+):)?(\d+)x(\d+):([A-Za-z0-9+/=]*):([A-Za-z0-9+/=]*)$/.exec(s);
+    if (!match) throw new TemplateProtectionError('Malformed protected template.');
+    const version = Number(match[2] ?? 1);
+    const radialBins = Number(match[3]);
+    const angularBins = Number(match[4]);
+    const length = radialBins * angularBins * 2;
+    return { keyId: match[1], version, radialBins, angularBins, code: unpackBits(match[5], length), mask: unpackBits(match[6], length) };
+};
@@ -0,0 +1,32 @@
+// --- LEDGER INVARIANT CHECK (CLI) ---
+//
+// Re-derives the books from the server's journal and proves they balance:
+//
+//   npm run check-ledger
+//
+// Reads the same store the server uses (`MONGODB_URI` or `DATA_FILE`, see server/storage.ts).
+// Prints the debit and credit totals per currency and every problem found; exits with status 1
+// when there is any, so it can run after a deploy or on a schedule.
+
+import 'dotenv/config';
+import { toDecimalString } from '../money.ts';
+import { closeStorage, openStorage } from '../server/storage.ts';
+import { checkLedger } from '../server/ledger.ts';
+
+const main = async () => {
+    const store = await openStorage();
+    try {
+        const check = await checkLedger();
+        console.log(`${check.entries} journal entries in ${store}.`);
+        for (const { debits, credits } of check.totals) {
+            console.log(`${debits.currency}: debits ${toDecimalString(debits)}, credits ${toDecimalString(credits)}`);
+        }
+        for (const problem of check.problems) console.error(problem);
+        console.log(check.balanced ? 'The books balance.' : `${check.problems.length} problem(s) found.`);
+        process.exitCode = check.balanced ? 0 : 1;
+    } finally {
+        await closeStorage();
+    }
+};
+
+main();
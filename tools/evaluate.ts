@@ -0,0 +1,312 @@
+// --- OFFLINE MATCHING EVALUATION (CLI) ---
+//
+// Runs the app's own extraction and matching code over a labeled image set and reports how
+// well it separates eyes:
+//
+//   npm run evaluate -- <dataset> [--out <dir>] [--thresholds <from:to:step>]
+//                                 [--max-impostors <n>] [--max-eer <rate>]
+//
+// <dataset> is laid out as <subject>/<eye>/<sample>.(png|jpg|jpeg|pgm|ppm); each subject/eye
+// directory is one identity. Every pair of samples of the same identity is a genuine
+// comparison and every pair across identities an impostor one. Writes scores.csv, curve.csv
+// (DET/ROC points), report.json and report.html to the output directory; exits with status 1
+// when --max-eer is given and exceeded, so the run can gate accuracy regressions.
+
+import { readFileSync, readdirSync, statSync, mkdirSync, writeFileSync } from 'node:fs';
+import { join, extname, relative, resolve } from 'node:path';
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import { extractIrisTemplate, toGrayImage, IrisExtractionError } from '../irisTemplate.ts';
+import type { IrisTemplate, RgbaPixels } from '../irisTemplate.ts';
+import { matchTemplates, DEFAULT_MATCH_OPTIONS } from '../irisMatcher.ts';
+import { errorRateCurve, equalErrorRate, thresholdRange, distanceStatistics } from '../matchEvaluation.ts';
+import type { ScoredComparison, ErrorRatePoint } from '../matchEvaluation.ts';
+
+interface Options {
+    dataset: string;
+    out: string;
+    thresholds: number[];
+    maxImpostors: number;
+    maxEer: number | null;
+}
+
+interface Sample {
+    identity: string;
+    file: string;
+}
+
+interface Comparison extends ScoredComparison {
+    probe: string;
+    reference: string;
+    shift: number;
+    overlapBits: number;
+}
+
+const USAGE = 'Usage: npm run evaluate -- <dataset> [--out <dir>] [--thresholds <from:to:step>] [--max-impostors <n>] [--max-eer <rate>]';
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.pgm', '.ppm']);
+
+const fail = (message: string): never => {
+    console.error(message);
+    console.error(USAGE);
+    process.exit(2);
+};
+
+const parseArgs = (argv: string[]): Options => {
+    const options: Options = {
+        dataset: '',
+        out: 'evaluation-report',
+        thresholds: thresholdRange(0.2, 0.5, 0.01),
+        maxImpostors: Infinity,
+        maxEer: null,
+    };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => argv[++i] ?? fail(`Missing value for ${arg}.`);
+        if (arg === '--out') options.out = value();
+        else if (arg === '--thresholds') {
+            const [from, to, step] = value().split(':').map(Number);
+            try {
+                options.thresholds = thresholdRange(from, to, step);
+            } catch (e) {
+                fail((e as Error).message);
+            }
+        } else if (arg === '--max-impostors') options.maxImpostors = Number(value());
+        else if (arg === '--max-eer') options.maxEer = Number(value());
+        else if (arg === '--help' || arg === '-h') {
+            console.log(USAGE);
+            process.exit(0);
+        } else if (arg.startsWith('--')) fail(`Unknown option ${arg}.`);
+        else options.dataset = arg;
+    }
+    if (!options.dataset) fail('No dataset directory given.');
+    if (!(options.maxImpostors > 0)) fail('--max-impostors must be a positive number.');
+    if (options.maxEer !== null && !(options.maxEer >= 0 && options.maxEer <= 1)) fail('--max-eer must be between 0 and 1.');
+    return options;
+};
+
+const listDirectories = (dir: string): string[] =>
+    readdirSync(dir).filter(name => !name.startsWith('.') && statSync(join(dir, name)).isDirectory()).sort();
+
+/** Collects samples from the <subject>/<eye>/<sample> layout. */
+const loadDataset = (root: string): Sample[] => {
+    const samples: Sample[] = [];
+    for (const subject of listDirectories(root)) {
+        for (const eye of listDirectories(join(root, subject))) {
+            const dir = join(root, subject, eye);
+            for (const name of readdirSync(dir).sort()) {
+                if (IMAGE_EXTENSIONS.has(extname(name).toLowerCase())) samples.push({ identity: `${subject}/${eye}`, file: join(dir, name) });
+            }
+        }
+    }
+    return samples;
+};
+
+/** Binary (P5/P6) Netpbm decoder; the formats iris datasets are often distributed in. */
+const decodeNetpbm = (buffer: Buffer): RgbaPixels => {
+    const header: string[] = [];
+    let offset = 0;
+    while (header.length < 4) {
+        while (/\s/.test(String.fromCharCode(buffer[offset]))) offset++;
+        if (buffer[offset] === 0x23) {
+            while (buffer[offset] !== 0x0a) offset++;
+            continue;
+        }
+        let token = '';
+        while (offset < buffer.length && !/\s/.test(String.fromCharCode(buffer[offset]))) token += String.fromCharCode(buffer[offset++]);
+        header.push(token);
+    }
+    offset++;
+    const [magic, w, h, max] = header;
+    if ((magic !== 'P5' && magic !== 'P6') || Number(max) > 255) throw new Error(`Unsupported Netpbm variant ${magic} (max ${max}).`);
+    const width = Number(w);
+    const height = Number(h);
+    const channels = magic === 'P5' ? 1 : 3;
+    // Greyscale files repeat their single channel into R, G and B.
+    const green = channels === 3 ? 1 : 0;
+    const blue = channels === 3 ? 2 : 0;
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+        const from = offset + i * channels;
+        data[i * 4] = buffer[from];
+        data[i * 4 + 1] = buffer[from + green];
+        data[i * 4 + 2] = buffer[from + blue];
+        data[i * 4 + 3] = 255;
+    }
+    return { width, height, data };
+};
+
+const decodeImage = (file: string): RgbaPixels => {
+    const buffer = readFileSync(file);
+    const ext = extname(file).toLowerCase();
+    if (ext === '.png') {
+        const png = PNG.sync.read(buffer);
+        return { width: png.width, height: png.height, data: png.data };
+    }
+    if (ext === '.jpg' || ext === '.jpeg') {
+        const image = jpeg.decode(buffer, { useTArray: true });
+        return { width: image.width, height: image.height, data: image.data };
+    }
+    return decodeNetpbm(buffer);
+};
+
+/** Visits every unordered pair; impostor pairs are thinned to at most `maxImpostors` by a fixed stride. */
+const comparePairs = (templates: { sample: Sample; template: IrisTemplate }[], maxImpostors: number): { comparisons: Comparison[]; thinned: boolean } => {
+    let impostorPairs = 0;
+    for (let i = 0; i < templates.length; i++) {
+        for (let j = i + 1; j < templates.length; j++) {
+            if (templates[i].sample.identity !== templates[j].sample.identity) impostorPairs++;
+        }
+    }
+    const stride = Math.max(1, Math.ceil(impostorPairs / maxImpostors));
+
+    const comparisons: Comparison[] = [];
+    let impostorIndex = 0;
+    for (let i = 0; i < templates.length; i++) {
+        for (let j = i + 1; j < templates.length; j++) {
+            const genuine = templates[i].sample.identity === templates[j].sample.identity;
+            if (!genuine && impostorIndex++ % stride !== 0) continue;
+            // threshold 1: we want the distance, the decision is made per threshold afterwards
+            const result = matchTemplates(templates[i].template, templates[j].template, { threshold: 1 });
+            comparisons.push({
+                genuine,
+                distance: result.distance,
+                shift: result.shift,
+                overlapBits: result.overlapBits,
+                probe: templates[i].sample.file,
+                reference: templates[j].sample.file,
+            });
+        }
+    }
+    return { comparisons, thinned: stride > 1 };
+};
+
+const csvField = (value: string | number | boolean) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+const toCsv = (header: string[], rows: (string | number | boolean)[][]) =>
+    [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+
+const percent = (rate: number) => `${(rate * 100).toFixed(2)}%`;
+
+const escapeHtml = (text: string) => text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!);
+
+/** Inline SVG plot of FRR and FAR against the threshold. */
+const errorPlot = (curve: ErrorRatePoint[], markers: { threshold: number; label: string }[]): string => {
+    const w = 560;
+    const h = 260;
+    const pad = 36;
+    const t0 = curve[0].threshold;
+    const t1 = curve[curve.length - 1].threshold;
+    const x = (t: number) => pad + ((t - t0) / (t1 - t0 || 1)) * (w - 2 * pad);
+    const y = (rate: number) => h - pad - rate * (h - 2 * pad);
+    const line = (pick: (p: ErrorRatePoint) => number) => curve.map(p => `${x(p.threshold).toFixed(1)},${y(pick(p)).toFixed(1)}`).join(' ');
+    const marks = markers
+        .filter(m => m.threshold >= t0 && m.threshold <= t1)
+        .map(m => `<line x1="${x(m.threshold)}" x2="${x(m.threshold)}" y1="${pad}" y2="${h - pad}" stroke="#94a3b8" stroke-dasharray="4 4"/>`
+            + `<text x="${x(m.threshold) + 4}" y="${pad + 12}" font-size="11" fill="#475569">${escapeHtml(m.label)}</text>`)
+        .join('');
+    return `<svg width="${w}" height="${h}" xmlns="http://www.w3.org/2000/svg" font-family="sans-serif">
+<rect x="${pad}" y="${pad}" width="${w - 2 * pad}" height="${h - 2 * pad}" fill="none" stroke="#cbd5e1"/>
+<polyline points="${line(p => p.far)}" fill="none" stroke="#dc2626" stroke-width="2"/>
+<polyline points="${line(p => p.frr)}" fill="none" stroke="#2563eb" stroke-width="2"/>
+${marks}
+<text x="${pad}" y="${h - 10}" font-size="11">${t0.toFixed(2)}</text>
+<text x="${w - pad - 24}" y="${h - 10}" font-size="11">${t1.toFixed(2)}</text>
+<text x="${w / 2 - 30}" y="${h - 10}" font-size="11">threshold</text>
+<text x="${w - pad - 90}" y="${pad - 8}" font-size="11"><tspan fill="#dc2626">FAR</tspan> / <tspan fill="#2563eb">FRR</tspan></text>
+</svg>`;
+};
+
+const main = () => {
+    const options = parseArgs(process.argv.slice(2));
+    const root = resolve(options.dataset);
+    const samples = loadDataset(root);
+    if (samples.length === 0) fail(`No images found under ${root} (expected <subject>/<eye>/<sample> files).`);
+
+    // 1. Extract a template from every sample; failures count towards the failure-to-acquire rate.
+    const templates: { sample: Sample; template: IrisTemplate }[] = [];
+    const failures: { file: string; reason: string }[] = [];
+    samples.forEach((sample, i) => {
+        process.stderr.write(`\rExtracting ${i + 1}/${samples.length}`);
+        try {
+            templates.push({ sample, template: extractIrisTemplate(toGrayImage(decodeImage(sample.file))).template });
+        } catch (e) {
+            failures.push({ file: relative(root, sample.file), reason: e instanceof IrisExtractionError ? e.message : String(e) });
+        }
+    });
+    process.stderr.write('\n');
+
+    // 2. Score all genuine and (possibly thinned) impostor pairs.
+    process.stderr.write('Comparing...\n');
+    const { comparisons, thinned } = comparePairs(templates, options.maxImpostors);
+    const genuineStats = distanceStatistics(comparisons, true);
+    const impostorStats = distanceStatistics(comparisons, false);
+    if (genuineStats.count === 0 || impostorStats.count === 0) {
+        fail('Need at least two usable samples of one eye and samples of two different eyes.');
+    }
+
+    // 3. Error rates.
+    const curve = errorRateCurve(comparisons, options.thresholds);
+    const eer = equalErrorRate(comparisons);
+    const current = errorRateCurve(comparisons, [DEFAULT_MATCH_OPTIONS.threshold])[0];
+    const decidability = Math.abs(impostorStats.mean - genuineStats.mean) / Math.sqrt((genuineStats.std ** 2 + impostorStats.std ** 2) / 2);
+    const identities = new Set(samples.map(s => s.identity)).size;
+
+    const report = {
+        dataset: root,
+        generatedAt: new Date().toISOString(),
+        identities,
+        samples: samples.length,
+        failureToAcquire: { count: failures.length, rate: failures.length / samples.length, files: failures },
+        comparisons: { genuine: genuineStats, impostor: impostorStats, impostorsThinned: thinned },
+        decidability,
+        equalErrorRate: eer,
+        currentThreshold: current,
+        curve: curve.map(p => ({ ...p, tar: 1 - p.frr })),
+    };
+
+    const out = resolve(options.out);
+    mkdirSync(out, { recursive: true });
+    writeFileSync(join(out, 'scores.csv'), toCsv(
+        ['type', 'probe', 'reference', 'distance', 'shift', 'overlap_bits'],
+        comparisons.map(c => [c.genuine ? 'genuine' : 'impostor', relative(root, c.probe), relative(root, c.reference), c.distance.toFixed(6), c.shift, c.overlapBits]),
+    ));
+    writeFileSync(join(out, 'curve.csv'), toCsv(
+        ['threshold', 'far', 'frr', 'tar'],
+        curve.map(p => [p.threshold, p.far.toFixed(6), p.frr.toFixed(6), (1 - p.frr).toFixed(6)]),
+    ));
+    writeFileSync(join(out, 'report.json'), JSON.stringify(report, null, 2) + '\n');
+    writeFileSync(join(out, 'report.html'), `<!doctype html>
+<html><head><meta charset="utf-8"><title>Iris matching evaluation</title>
+<style>body{font-family:sans-serif;max-width:720px;margin:2rem auto;color:#1e293b}table{border-collapse:collapse}td,th{padding:4px 10px;border-bottom:1px solid #e2e8f0;text-align:right}th:first-child,td:first-child{text-align:left}</style>
+</head><body>
+<h1>Iris matching evaluation</h1>
+<p>${escapeHtml(root)} &middot; ${identities} eyes, ${samples.length} samples &middot; ${escapeHtml(report.generatedAt)}</p>
+<table>
+<tr><th>Equal error rate</th><td>${percent(eer.eer)} at threshold ${eer.threshold.toFixed(3)}</td></tr>
+<tr><th>Current threshold (${DEFAULT_MATCH_OPTIONS.threshold})</th><td>FAR ${percent(current.far)}, FRR ${percent(current.frr)}</td></tr>
+<tr><th>Genuine comparisons</th><td>${genuineStats.count} (mean ${genuineStats.mean.toFixed(3)} &plusmn; ${genuineStats.std.toFixed(3)})</td></tr>
+<tr><th>Impostor comparisons</th><td>${impostorStats.count} (mean ${impostorStats.mean.toFixed(3)} &plusmn; ${impostorStats.std.toFixed(3)})</td></tr>
+<tr><th>Decidability d'</th><td>${decidability.toFixed(2)}</td></tr>
+<tr><th>Failure to acquire</th><td>${failures.length} of ${samples.length} (${percent(report.failureToAcquire.rate)})</td></tr>
+</table>
+<h2>Error rates</h2>
+${errorPlot(curve, [{ threshold: eer.threshold, label: 'EER' }, { threshold: DEFAULT_MATCH_OPTIONS.threshold, label: 'current' }])}
+<table>
+<tr><th>Threshold</th><th>FAR</th><th>FRR</th></tr>
+${curve.map(p => `<tr><td>${p.threshold.toFixed(2)}</td><td>${percent(p.far)}</td><td>${percent(p.frr)}</td></tr>`).join('\n')}
+</table>
+${failures.length ? `<h2>Failed extractions</h2><ul>${failures.map(f => `<li>${escapeHtml(f.file)}: ${escapeHtml(f.reason)}</li>`).join('')}</ul>` : ''}
+</body></html>
+`);
+
+    console.log(`EER ${percent(eer.eer)} at threshold ${eer.threshold.toFixed(3)}; at ${DEFAULT_MATCH_OPTIONS.threshold}: FAR ${percent(current.far)}, FRR ${percent(current.frr)}.`);
+    console.log(`Report written to ${out}`);
+    if (options.maxEer !== null && eer.eer > options.maxEer) {
+        console.error(`EER ${percent(eer.eer)} exceeds the allowed ${percent(options.maxEer)}.`);
+        process.exit(1);
+    }
+};
+
+main();
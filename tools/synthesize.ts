@@ -0,0 +1,79 @@
+// --- SYNTHETIC DATASET GENERATOR (CLI) ---
+//
+// Writes a labeled set of synthetic eye images in the layout `npm run evaluate` reads:
+//
+//   npm run synthesize -- <out-dir> [--subjects <n>] [--samples <n>] [--seed <base>]
+//
+// Each subject gets a left and a right eye (distinct identities) and every sample is rendered
+// under its own randomly drawn capture conditions (dilation, roll, lid occlusion, offset, blur,
+// noise). The same arguments always produce byte-identical images, so a dataset can be
+// regenerated instead of checked in.
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { PNG } from 'pngjs';
+import { createSyntheticIris, renderSyntheticEye, randomConditions } from '../syntheticIris.ts';
+
+interface Options {
+    out: string;
+    subjects: number;
+    samples: number;
+    seed: string;
+}
+
+const USAGE = 'Usage: npm run synthesize -- <out-dir> [--subjects <n>] [--samples <n>] [--seed <base>]';
+const EYES = ['L', 'R'];
+
+const fail = (message: string): never => {
+    console.error(message);
+    console.error(USAGE);
+    process.exit(2);
+};
+
+const positiveInteger = (arg: string, text: string): number => {
+    const n = Number(text);
+    return Number.isInteger(n) && n > 0 ? n : fail(`${arg} must be a positive integer.`);
+};
+
+const parseArgs = (argv: string[]): Options => {
+    const options: Options = { out: '', subjects: 10, samples: 4, seed: 'synthetic' };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => argv[++i] ?? fail(`Missing value for ${arg}.`);
+        if (arg === '--subjects') options.subjects = positiveInteger(arg, value());
+        else if (arg === '--samples') options.samples = positiveInteger(arg, value());
+        else if (arg === '--seed') options.seed = value();
+        else if (arg === '--help' || arg === '-h') {
+            console.log(USAGE);
+            process.exit(0);
+        } else if (arg.startsWith('--')) fail(`Unknown option ${arg}.`);
+        else options.out = arg;
+    }
+    if (!options.out) fail('No output directory given.');
+    return options;
+};
+
+const main = () => {
+    const options = parseArgs(process.argv.slice(2));
+    const root = resolve(options.out);
+    const digits = String(Math.max(options.subjects, options.samples)).length;
+    const pad = (n: number) => String(n).padStart(digits, '0');
+
+    for (let s = 1; s <= options.subjects; s++) {
+        for (const eye of EYES) {
+            const identity = `${options.seed}-${s}-${eye}`;
+            const iris = createSyntheticIris(identity);
+            const dir = join(root, `subject${pad(s)}`, eye);
+            mkdirSync(dir, { recursive: true });
+            for (let n = 1; n <= options.samples; n++) {
+                const frame = renderSyntheticEye(iris, randomConditions(`${identity}-${n}`));
+                const png = new PNG({ width: frame.width, height: frame.height });
+                png.data.set(frame.data);
+                writeFileSync(join(dir, `${pad(n)}.png`), PNG.sync.write(png));
+            }
+        }
+    }
+    console.log(`Wrote ${options.subjects * EYES.length * options.samples} images of ${options.subjects * EYES.length} eyes to ${root}`);
+};
+
+main();
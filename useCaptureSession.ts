@@ -0,0 +1,27 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { CaptureSession } from './captureSession.ts';
+import type { CaptureEvent, CaptureSessionOptions, CaptureSnapshot } from './captureSession.ts';
+
+/**
+ * One `CaptureSession` for the lifetime of the calling component. The page owns it and hands it
+ * to `IrisCapture`, which attaches the frame source and drives the captures.
+ */
+export const useCaptureSession = (options?: Partial<CaptureSessionOptions>): CaptureSession => {
+    const [session] = useState(() => new CaptureSession(options));
+    return session;
+};
+
+/** The session's current snapshot, re-rendering on every change. */
+export const useCaptureSnapshot = (session: CaptureSession): CaptureSnapshot =>
+    useSyncExternalStore(onChange => session.subscribe(onChange), () => session.snapshot);
+
+/** Subscribes `listener` to the session's event stream; the latest `listener` is always the one called. */
+export const useCaptureEvents = (session: CaptureSession, listener: (event: CaptureEvent) => void): void => {
+    const listenerRef = useRef(listener);
+
+    useEffect(() => {
+        listenerRef.current = listener;
+    }, [listener]);
+
+    useEffect(() => session.subscribe(event => listenerRef.current(event)), [session]);
+};
@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from "react";
+import { locateEye, loadEyeLocator, drawAlignmentOverlay, AutoCaptureTracker } from './eyeLocator.ts';
+import type { EyeAlignment, EyeRegion } from './eyeLocator.ts';
+import type { EyeSide } from './dualEye.ts';
+import { elementSize } from './frameSource.ts';
+import type { FrameElement } from './frameSource.ts';
+
+// Detection cadence while tracking; the tiny detector takes ~20-60ms per frame.
+const TRACK_INTERVAL_MS = 150;
+
+interface EyeTrackingOptions {
+    /** Run detection only while true (e.g. while the capture UI is idle). */
+    enabled: boolean;
+    /** Called once the chosen eye has been aligned and steady for long enough. */
+    onSteady: (region: EyeRegion) => void;
+    preferredSide?: EyeSide;
+}
+
+/**
+ * Runs face-landmark detection on a frame source's element, draws alignment guidance onto
+ * `overlayRef`, keeps `regionRef` pointing at the latest eye crop and fires `onSteady`
+ * to auto-capture. `available` is false when the detector models could not be loaded,
+ * in which case callers fall back to manual capture of the full frame.
+ */
+export const useEyeTracking = (element: FrameElement | null, { enabled, onSteady, preferredSide }: EyeTrackingOptions) => {
+    const overlayRef = useRef<HTMLCanvasElement>(null);
+    const regionRef = useRef<EyeRegion | null>(null);
+    const onSteadyRef = useRef(onSteady);
+    const [alignment, setAlignment] = useState<EyeAlignment | null>(null);
+    const [available, setAvailable] = useState<boolean | null>(null);
+
+    useEffect(() => {
+        onSteadyRef.current = onSteady;
+    }, [onSteady]);
+
+    useEffect(() => {
+        loadEyeLocator()
+            .then(() => setAvailable(true))
+            .catch(err => {
+                console.error("Eye detector unavailable:", err);
+                setAvailable(false);
+            });
+    }, []);
+
+    useEffect(() => {
+        if (!enabled || !available || !element) return;
+        let cancelled = false;
+        let timer: ReturnType<typeof setTimeout>;
+        const tracker = new AutoCaptureTracker();
+
+        const tick = async () => {
+            if (elementSize(element).width > 0) {
+                try {
+                    const pushed = tracker.push(await locateEye(element, preferredSide));
+                    if (cancelled) return;
+                    regionRef.current = pushed.alignment.eye;
+                    setAlignment(pushed.alignment);
+                    if (overlayRef.current) drawAlignmentOverlay(overlayRef.current, pushed.alignment);
+                    if (pushed.ready && pushed.alignment.eye) {
+                        // The capture that follows normally disables tracking until it is done.
+                        tracker.reset();
+                        onSteadyRef.current(pushed.alignment.eye);
+                    }
+                } catch (err) {
+                    console.error("Eye detection failed:", err);
+                }
+            }
+            if (!cancelled) timer = setTimeout(tick, TRACK_INTERVAL_MS);
+        };
+        tick();
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [enabled, available, preferredSide, element]);
+
+    return { overlayRef, regionRef, alignment, available };
+};